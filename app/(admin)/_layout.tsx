@@ -1,18 +1,38 @@
 // This file is used to define the layout for the admin section of the app.
 // app/(admin)/_layout.tsx
 
+import { useOverdueScheduler } from "@/hooks/useOverdueScheduler";
 import { Stack } from "expo-router";
 
 
 export default function AdminLayout() {
+  useOverdueScheduler();
+
   return (
       <Stack>
         <Stack.Screen name="index" options={{ headerShown: false }} />
         <Stack.Screen name="students" options={{ headerShown: false }} />
         <Stack.Screen name="departments" options={{ headerShown: false }} />
+        <Stack.Screen name="terms" options={{ headerShown: false }} />
+        <Stack.Screen name="term-rollover" options={{ headerShown: false }} />
         <Stack.Screen name="enrollments" options={{ headerShown: false }} />
         <Stack.Screen name="bill-items" options={{ headerShown: false }} />
         <Stack.Screen name="department-students" options={{ headerShown: false }} />
+        <Stack.Screen name="payments" options={{ headerShown: false }} />
+        <Stack.Screen name="bills" options={{ headerShown: false }} />
+        <Stack.Screen name="bill-details" options={{ headerShown: false }} />
+        <Stack.Screen name="student-details" options={{ headerShown: false }} />
+        <Stack.Screen name="student-import" options={{ headerShown: false }} />
+        <Stack.Screen name="aging-report" options={{ headerShown: false }} />
+        <Stack.Screen name="late-fees" options={{ headerShown: false }} />
+        <Stack.Screen name="discounts" options={{ headerShown: false }} />
+        <Stack.Screen name="families" options={{ headerShown: false }} />
+        <Stack.Screen name="family-details" options={{ headerShown: false }} />
+        <Stack.Screen name="exports" options={{ headerShown: false }} />
+        <Stack.Screen name="backup" options={{ headerShown: false }} />
+        <Stack.Screen name="audit-log" options={{ headerShown: false }} />
+        <Stack.Screen name="users" options={{ headerShown: false }} />
+        <Stack.Screen name="settings" options={{ headerShown: false }} />
       </Stack>
 
   );
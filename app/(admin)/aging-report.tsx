@@ -0,0 +1,279 @@
+// app/(admin)/aging-report.tsx
+import AdminHeader from '@/components/AdminHeader';
+import TermFilter from '@/components/TermFilter';
+import { getAgingReport } from '@/lib/operations/reports';
+import { getCurrentTerm, getTerms } from '@/lib/operations/terms';
+import { formatCurrency } from '@/utils/formatters';
+import { Colors } from '@/utils/styles';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { AgingBucket, AgingBuckets, AgingReport, TermWithYear } from '../../lib/db/schema';
+
+const BUCKET_COLUMNS: { key: AgingBucket | 'total'; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days0to30', label: '1-30' },
+  { key: 'days31to60', label: '31-60' },
+  { key: 'days61to90', label: '61-90' },
+  { key: 'over90', label: '90+' },
+  { key: 'total', label: 'Total' },
+];
+
+/**
+ * Receivables aging report
+ * Unpaid balances per student, bucketed by days past due, grouped by department,
+ * for the current term unless another or all terms are chosen
+ */
+export default function AgingReportScreen() {
+  const db = useSQLiteContext();
+  const [report, setReport] = useState<AgingReport | null>(null);
+  const [asOf, setAsOf] = useState('');
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [termFilter, setTermFilter] = useState<number | null | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadTerms();
+  }, [db]);
+
+  useFocusEffect(
+    useCallback(() => {
+      // Wait until the current term is known
+      if (termFilter !== undefined) {
+        loadReport();
+      }
+    }, [db, termFilter])
+  );
+
+  const loadTerms = async () => {
+    try {
+      setTerms(await getTerms(db));
+      const currentTerm = await getCurrentTerm(db);
+      setTermFilter(currentTerm?.id ?? null);
+    } catch (error) {
+      console.error('Error loading terms:', error);
+      setTermFilter(null);
+    }
+  };
+
+  const loadReport = async () => {
+    const date = asOf.trim();
+    if (date && isNaN(Date.parse(date))) {
+      Alert.alert('Error', 'Please enter the date as YYYY-MM-DD.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setReport(await getAgingReport(db, date || undefined, termFilter ?? undefined));
+    } catch (error) {
+      console.error('Error loading aging report:', error);
+      Alert.alert('Error', 'Failed to load aging report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderBucketCells = (buckets: AgingBuckets, emphasis?: boolean) =>
+    BUCKET_COLUMNS.map(column => (
+      <Text
+        key={column.key}
+        style={[
+          styles.amountCell,
+          emphasis && styles.emphasisText,
+          column.key === 'over90' && buckets.over90 > 0 && styles.overdueText
+        ]}
+      >
+        {buckets[column.key] ? formatCurrency(buckets[column.key]) : '-'}
+      </Text>
+    ));
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Aging Report" />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {/* As-of Date */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Balances as of {report?.asOf ?? 'today'}</Text>
+          <TermFilter terms={terms} selectedTermId={termFilter ?? null} onSelect={setTermFilter} allLabel="All terms" />
+          <View style={styles.dateRow}>
+            <TextInput
+              style={styles.input}
+              placeholder="As of YYYY-MM-DD (default today)"
+              value={asOf}
+              onChangeText={setAsOf}
+            />
+            <TouchableOpacity style={styles.applyButton} onPress={loadReport}>
+              <Text style={styles.applyButtonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {loading && !report ? (
+          <ActivityIndicator size="large" color={Colors.purple[500]} style={styles.loader} />
+        ) : report && report.departments.length === 0 ? (
+          <Text style={styles.emptyText}>No outstanding balances.</Text>
+        ) : report ? (
+          <ScrollView horizontal>
+            <View style={styles.card}>
+              <View style={[styles.tableRow, styles.headerRow]}>
+                <Text style={[styles.nameCell, styles.headerText]}>Student</Text>
+                {BUCKET_COLUMNS.map(column => (
+                  <Text key={column.key} style={[styles.amountCell, styles.headerText]}>{column.label}</Text>
+                ))}
+              </View>
+
+              {report.departments.map(group => (
+                <View key={group.departmentId}>
+                  <Text style={styles.departmentTitle}>{group.departmentName}</Text>
+                  {group.students.map(row => (
+                    <TouchableOpacity
+                      key={row.studentId}
+                      style={styles.tableRow}
+                      onPress={() => router.push({ pathname: '/student-details', params: { id: row.studentId } } as any)}
+                    >
+                      <Text style={styles.nameCell} numberOfLines={1}>{row.studentName}</Text>
+                      {renderBucketCells(row.buckets)}
+                    </TouchableOpacity>
+                  ))}
+                  <View style={[styles.tableRow, styles.subtotalRow]}>
+                    <Text style={[styles.nameCell, styles.emphasisText]}>Subtotal</Text>
+                    {renderBucketCells(group.subtotal, true)}
+                  </View>
+                </View>
+              ))}
+
+              <View style={[styles.tableRow, styles.totalRow]}>
+                <Text style={[styles.nameCell, styles.emphasisText]}>School total</Text>
+                {renderBucketCells(report.total, true)}
+              </View>
+            </View>
+          </ScrollView>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+  },
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 4,
+    padding: 10,
+    fontSize: 14,
+    fontFamily: 'Regular',
+    marginRight: 8,
+  },
+  applyButton: {
+    backgroundColor: Colors.purple[500],
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 4,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontFamily: 'SemiBold',
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  headerRow: {
+    borderBottomColor: '#e0e0e0',
+  },
+  headerText: {
+    fontFamily: 'SemiBold',
+    color: '#666',
+  },
+  departmentTitle: {
+    fontSize: 14,
+    fontFamily: 'SemiBold',
+    color: Colors.purple[500],
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  subtotalRow: {
+    backgroundColor: Colors.gray[100],
+  },
+  totalRow: {
+    marginTop: 12,
+    borderTopWidth: 2,
+    borderTopColor: '#333',
+  },
+  nameCell: {
+    width: 140,
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#333',
+    paddingRight: 8,
+  },
+  amountCell: {
+    width: 90,
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#333',
+    textAlign: 'right',
+  },
+  emphasisText: {
+    fontFamily: 'SemiBold',
+  },
+  overdueText: {
+    color: Colors.error.light,
+  },
+});
@@ -0,0 +1,373 @@
+// app/(admin)/audit-log.tsx
+import AdminHeader from '@/components/AdminHeader';
+import { getAuditLog } from '@/lib/operations/audit';
+import { Colors } from '@/utils/styles';
+import { useFocusEffect } from '@react-navigation/native';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { AuditAction, AuditEntity, AuditLogEntry } from '../../lib/db/schema';
+
+const PAGE_SIZE = 50;
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  students: 'Students',
+  departments: 'Departments',
+  academic_years: 'Academic Years',
+  terms: 'Terms',
+  bill_items: 'Bill Items',
+  bills: 'Bills',
+  bill_item_relations: 'Bill Lines',
+  student_departments: 'Enrollments',
+  payments: 'Payments',
+  bill_installments: 'Installments',
+  discount_schemes: 'Discount Schemes',
+  student_discounts: 'Student Discounts',
+  families: 'Families',
+  late_fee_rules: 'Late Fee Rules',
+  users: 'Users',
+  school_settings: 'Settings',
+  backup: 'Backups'
+};
+
+const ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'restore'];
+
+// Fields that change on every write and only add noise to a diff
+const IGNORED_FIELDS = ['updatedAt'];
+
+/**
+ * Work out which fields an entry changed, with their old and new values
+ */
+function describeChanges(entry: AuditLogEntry): { field: string; from: string; to: string }[] {
+  const before: Record<string, unknown> = entry.before ? JSON.parse(entry.before) : {};
+  const after: Record<string, unknown> = entry.after ? JSON.parse(entry.after) : {};
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  const show = (value: unknown) => (value === null || value === undefined ? '—' : String(value));
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.includes(field) && before[field] !== after[field])
+    .map(field => ({ field, from: show(before[field]), to: show(after[field]) }));
+}
+
+/**
+ * Audit Log Screen
+ * Features:
+ * - Browse every recorded change to students, departments, bills and payments, newest first
+ * - Filter by record type, action, person and date range
+ * - Expand an entry to see each field's old and new value
+ */
+export default function AuditLogScreen() {
+  const db = useSQLiteContext();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Filters
+  const [entity, setEntity] = useState<AuditEntity | undefined>();
+  const [action, setAction] = useState<AuditAction | undefined>();
+  const [actor, setActor] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useFocusEffect(
+    useCallback(() => {
+      loadEntries(1);
+    }, [db, entity, action])
+  );
+
+  const loadEntries = async (pageToLoad: number) => {
+    const from = fromDate.trim();
+    const to = toDate.trim();
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      Alert.alert('Error', 'Please enter dates as YYYY-MM-DD.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const result = await getAuditLog(
+        db,
+        { entity, action, actor, fromDate: from || undefined, toDate: to || undefined },
+        { page: pageToLoad, pageSize: PAGE_SIZE }
+      );
+      setEntries(prev => (pageToLoad === 1 ? result.data : [...prev, ...result.data]));
+      setPage(pageToLoad);
+      setTotalPages(result.totalPages);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      Alert.alert('Error', 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderEntry = ({ item }: { item: AuditLogEntry }) => {
+    const expanded = expandedId === item.id;
+    const changes = expanded ? describeChanges(item) : [];
+
+    return (
+      <TouchableOpacity style={styles.entryCard} onPress={() => setExpandedId(expanded ? null : item.id!)}>
+        <View style={styles.entryHeader}>
+          <Text style={styles.entryTitle}>
+            {ENTITY_LABELS[item.entity] ?? item.entity} #{item.entityId ?? '—'}
+          </Text>
+          <Text style={[styles.actionBadge, styles[`action_${item.action}`]]}>{item.action}</Text>
+        </View>
+        <Text style={styles.entryDetails}>
+          {item.createdAt} · {item.actor}
+        </Text>
+        {expanded && (
+          <View style={styles.changes}>
+            {changes.length === 0 ? (
+              <Text style={styles.entryDetails}>No field changes recorded.</Text>
+            ) : (
+              changes.map(change => (
+                <Text key={change.field} style={styles.changeText}>
+                  <Text style={styles.changeField}>{change.field}: </Text>
+                  {item.action === 'create' ? change.to : `${change.from} → ${change.to}`}
+                </Text>
+              ))
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Audit Log" />
+      <View style={styles.container}>
+        <View style={styles.filters}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, !entity && styles.chipActive]}
+              onPress={() => setEntity(undefined)}
+            >
+              <Text style={[styles.chipText, !entity && styles.chipTextActive]}>All</Text>
+            </TouchableOpacity>
+            {(Object.keys(ENTITY_LABELS) as AuditEntity[]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, entity === option && styles.chipActive]}
+                onPress={() => setEntity(option)}
+              >
+                <Text style={[styles.chipText, entity === option && styles.chipTextActive]}>
+                  {ENTITY_LABELS[option]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <View style={styles.chipRow}>
+            {ACTIONS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, action === option && styles.chipActive]}
+                onPress={() => setAction(action === option ? undefined : option)}
+              >
+                <Text style={[styles.chipText, action === option && styles.chipTextActive]}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.inputRow}>
+            <TextInput style={styles.input} placeholder="Changed by" value={actor} onChangeText={setActor} />
+            <TextInput style={styles.input} placeholder="From YYYY-MM-DD" value={fromDate} onChangeText={setFromDate} />
+            <TextInput style={styles.input} placeholder="To YYYY-MM-DD" value={toDate} onChangeText={setToDate} />
+          </View>
+          <TouchableOpacity style={styles.applyButton} onPress={() => loadEntries(1)}>
+            <Text style={styles.applyButtonText}>Apply Filters</Text>
+          </TouchableOpacity>
+        </View>
+
+        <FlatList
+          data={entries}
+          renderItem={renderEntry}
+          keyExtractor={(item) => `audit-${item.id}`}
+          contentContainerStyle={styles.listContainer}
+          ListEmptyComponent={
+            loading ? null : (
+              <View style={styles.emptyListContainer}>
+                <Text style={styles.emptyListText}>No changes recorded.</Text>
+              </View>
+            )
+          }
+          ListFooterComponent={
+            loading ? (
+              <ActivityIndicator size="large" color="#0000ff" style={styles.loader} />
+            ) : page < totalPages ? (
+              <TouchableOpacity style={styles.loadMoreButton} onPress={() => loadEntries(page + 1)}>
+                <Text style={styles.loadMoreText}>Load More</Text>
+              </TouchableOpacity>
+            ) : null
+          }
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  filters: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: Colors.purple[500],
+  },
+  chipText: {
+    color: '#333',
+    fontFamily: 'Medium',
+    textTransform: 'capitalize',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    marginBottom: 10,
+  },
+  input: {
+    flex: 1,
+    padding: 8,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginRight: 6,
+    fontSize: 12,
+  },
+  applyButton: {
+    backgroundColor: Colors.purple[500],
+    padding: 10,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: 'white',
+    fontSize: 15,
+    fontFamily: 'Medium',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  entryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontFamily: 'SemiBold',
+    color: '#333',
+  },
+  entryDetails: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 4,
+  },
+  actionBadge: {
+    fontSize: 11,
+    fontFamily: 'Medium',
+    color: '#fff',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+    textTransform: 'uppercase',
+  },
+  action_create: {
+    backgroundColor: Colors.success.light,
+  },
+  action_update: {
+    backgroundColor: Colors.warning.light,
+  },
+  action_delete: {
+    backgroundColor: Colors.error.light,
+  },
+  action_restore: {
+    backgroundColor: Colors.info.light,
+  },
+  changes: {
+    marginTop: 8,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  changeText: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#333',
+    marginBottom: 2,
+  },
+  changeField: {
+    fontFamily: 'Medium',
+  },
+  emptyListContainer: {
+    padding: 20,
+    alignItems: 'center',
+  },
+  emptyListText: {
+    fontSize: 16,
+    color: Colors.info['dark'],
+    textAlign: 'center',
+    fontFamily: 'Regular',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  loadMoreButton: {
+    padding: 12,
+    alignItems: 'center',
+  },
+  loadMoreText: {
+    color: Colors.purple[500],
+    fontSize: 15,
+    fontFamily: 'Medium',
+  },
+});
@@ -0,0 +1,206 @@
+// app/(admin)/backup.tsx
+import AdminHeader from '@/components/AdminHeader';
+import { createBackup, DatabaseBackup, restoreBackup, validateBackup } from '@/lib/db/backup';
+import { DATABASE_VERSION } from '@/lib/db/migrations';
+import { shareJson } from '@/lib/documents/export';
+import { useSession } from '@/lib/session/provider';
+import { Colors } from '@/utils/styles';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+/**
+ * Backup Screen
+ * Features:
+ * - Back up every table to a JSON file and share it off the device
+ * - Restore a backup, bringing older backups up to the current schema first
+ */
+export default function BackupScreen() {
+  const db = useSQLiteContext();
+  const { signOut } = useSession();
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleBackup = async () => {
+    try {
+      setIsBackingUp(true);
+      const backup = await createBackup(db);
+      const date = backup.createdAt.slice(0, 10);
+      await shareJson(JSON.stringify(backup), `mec-connect-backup-${date}`);
+    } catch (error) {
+      console.error('Error backing up database:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create backup');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const restore = async (backup: DatabaseBackup) => {
+    try {
+      setIsRestoring(true);
+      const result = await restoreBackup(db, backup);
+      // The restored data brings its own user accounts, so sign in again against them
+      signOut();
+      Alert.alert(
+        'Restore Complete',
+        `Restored ${result.rows} records across ${result.tables} tables. Please sign in again.`
+      );
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      Alert.alert(
+        'Restore Failed',
+        `${error instanceof Error ? error.message : 'The backup could not be restored'}. Your data has not been changed.`
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handlePickBackup = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain'],
+        copyToCacheDirectory: true
+      });
+      if (result.canceled) return;
+
+      const text = await FileSystem.readAsStringAsync(result.assets[0].uri, {
+        encoding: FileSystem.EncodingType.UTF8
+      });
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        throw new Error('The file is not valid JSON');
+      }
+      const backup = validateBackup(parsed);
+      const recordCount = Object.values(backup.tables).reduce((sum, rows) => sum + rows.length, 0);
+
+      Alert.alert(
+        'Restore Backup',
+        `This backup was taken on ${backup.createdAt.slice(0, 10)} and holds ${recordCount} records. ` +
+          'Restoring replaces ALL current data on this device, except the audit log. Continue?',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Restore', style: 'destructive', onPress: () => restore(backup) }
+        ]
+      );
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to read backup');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Backup & Restore" />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Back Up</Text>
+          <Text style={styles.cardText}>
+            Save every student, bill and payment to a file and send it somewhere safe, such as email or cloud
+            storage. Back up regularly: if this device is lost, the backup is the only copy of the records.
+            The file also holds the user accounts with their hashed PINs and passwords, so keep it private.
+          </Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={handleBackup} disabled={isBackingUp}>
+            {isBackingUp ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.buttonText}>Back Up Now</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Restore</Text>
+          <Text style={styles.cardText}>
+            Replace the data on this device with a backup file. Backups from older versions of the app are
+            upgraded first; if anything in the file is invalid, nothing is changed. The audit log is kept, with the
+            backup&apos;s entries added to it. The user accounts are replaced too, so you will need to sign in
+            again with an account from the backup.
+          </Text>
+          <TouchableOpacity style={styles.dangerButton} onPress={handlePickBackup} disabled={isRestoring}>
+            {isRestoring ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.buttonText}>Restore from Backup</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.versionText}>Database schema version {DATABASE_VERSION}</Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  cardText: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginBottom: 16,
+  },
+  primaryButton: {
+    backgroundColor: Colors.purple[500],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  dangerButton: {
+    backgroundColor: Colors.error.light,
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+  versionText: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: Colors.gray[500],
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,513 @@
+// app/(admin)/bill-details.tsx
+import AdminHeader from '@/components/AdminHeader';
+import BillStatusBadge from '@/components/BillStatusBadge';
+import InstallmentPlanCard from '@/components/InstallmentPlanCard';
+import { printHtml, sharePdf } from '@/lib/documents/export';
+import { getInvoiceNumber, renderInvoiceHtml } from '@/lib/documents/invoice';
+import { getReceiptNumber, renderReceiptHtml } from '@/lib/documents/receipt';
+import { getBillStatusHistory, getBillWithItems, updateBill } from '@/lib/operations/bills';
+import { getDepartmentById } from '@/lib/operations/departments';
+import { formatCurrency } from '@/utils/formatters';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams } from 'expo-router';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { BillStatusChange, BillWithItems, Department, Payment } from '../../lib/db/schema';
+
+/**
+ * Bill detail screen showing the bill's items, payments and balance
+ */
+export default function BillDetailsScreen() {
+  const db = useSQLiteContext();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [bill, setBill] = useState<BillWithItems | null>(null);
+  const [department, setDepartment] = useState<Department | null>(null);
+  const [statusHistory, setStatusHistory] = useState<BillStatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBill();
+    }, [db, id])
+  );
+
+  const loadBill = async () => {
+    try {
+      setLoading(true);
+      const billWithItems = await getBillWithItems(db, Number(id));
+      if (!billWithItems) {
+        setError('Bill not found');
+        return;
+      }
+      setBill(billWithItems);
+      setDepartment(await getDepartmentById(db, billWithItems.departmentId));
+      setStatusHistory(await getBillStatusHistory(db, billWithItems.id!));
+      setError(null);
+    } catch (error) {
+      console.error('Error loading bill:', error);
+      setError('Failed to load bill');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Print or share the bill as an invoice
+  const exportInvoice = async (mode: 'print' | 'share') => {
+    if (!bill) return;
+
+    try {
+      setIsExporting(true);
+      const html = renderInvoiceHtml(bill, { department });
+      if (mode === 'print') {
+        await printHtml(html);
+      } else {
+        await sharePdf(html, getInvoiceNumber(bill));
+      }
+    } catch (error) {
+      console.error('Error exporting invoice:', error);
+      Alert.alert('Error', 'Failed to export invoice');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Share a payment's receipt as a PDF
+  const shareReceipt = async (payment: Payment) => {
+    if (!bill?.student) return;
+
+    try {
+      setIsExporting(true);
+      const details = { ...payment, bill, student: bill.student };
+      await sharePdf(renderReceiptHtml(details), getReceiptNumber(details));
+    } catch (error) {
+      console.error('Error sharing receipt:', error);
+      Alert.alert('Error', 'Failed to share receipt');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const cancelBill = () => {
+    if (!bill) return;
+
+    Alert.alert(
+      'Cancel Bill',
+      `Are you sure you want to cancel "${bill.name}"? It will no longer count as owed.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Bill',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await updateBill(db, { ...bill, status: 'cancelled' });
+              await loadBill();
+            } catch (error) {
+              console.error('Error cancelling bill:', error);
+              Alert.alert('Error', 'Failed to cancel bill');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  if (loading && !bill) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Bill Details" />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#0000ff" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !bill) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Bill Details" />
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const subtotal = bill.items.reduce(
+    (sum, item) => sum + item.amount * (item.quantity ?? 1) - (item.discount || 0),
+    0
+  );
+  const billDiscount = bill.discount || 0;
+  const netTotal = bill.totalAmount - billDiscount;
+  const completedPayments = (bill.payments ?? []).filter(payment => payment.status === 'completed');
+  const totalPaid = completedPayments.reduce((sum, payment) => sum + payment.amount, 0);
+  const balance = netTotal - totalPaid;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Bill Details" />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {/* Summary */}
+        <View style={styles.card}>
+          <View style={styles.titleRow}>
+            <Text style={styles.billName}>{bill.name}</Text>
+            <BillStatusBadge status={bill.status} />
+          </View>
+          {bill.student && (
+            <Text style={styles.detailText}>
+              {bill.student.firstname} {bill.student.othernames} · {bill.student.phone}
+            </Text>
+          )}
+          {department && (
+            <Text style={styles.detailText}>
+              {department.name} ({department.term} {department.year})
+            </Text>
+          )}
+          <Text style={styles.detailText}>
+            {bill.dueDate ? `Due ${bill.dueDate.slice(0, 10)}` : 'No due date'}
+          </Text>
+          {bill.note ? <Text style={styles.noteText}>{bill.note}</Text> : null}
+        </View>
+
+        {/* Items */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Items</Text>
+          <View style={[styles.row, styles.headerRow]}>
+            <Text style={[styles.cell, styles.nameCell, styles.headerText]}>Item</Text>
+            <Text style={[styles.cell, styles.headerText]}>Qty</Text>
+            <Text style={[styles.cell, styles.headerText]}>Discount</Text>
+            <Text style={[styles.cell, styles.amountCell, styles.headerText]}>Amount</Text>
+          </View>
+          {bill.items.map(item => (
+            <View key={item.id} style={styles.row}>
+              <View style={[styles.cell, styles.nameCell]}>
+                <Text style={styles.itemName}>{item.billItem.name}</Text>
+                <Text style={styles.itemMeta}>{formatCurrency(item.amount)} each</Text>
+              </View>
+              <Text style={styles.cell}>{item.quantity ?? 1}</Text>
+              <Text style={styles.cell}>{item.discount ? formatCurrency(item.discount) : '-'}</Text>
+              <Text style={[styles.cell, styles.amountCell]}>
+                {formatCurrency(item.amount * (item.quantity ?? 1) - (item.discount || 0))}
+              </Text>
+            </View>
+          ))}
+          {bill.items.length === 0 && <Text style={styles.emptyText}>No items on this bill.</Text>}
+
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Subtotal</Text>
+            <Text style={styles.totalValue}>{formatCurrency(subtotal)}</Text>
+          </View>
+          {billDiscount > 0 && (
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>Bill discount</Text>
+              <Text style={styles.totalValue}>-{formatCurrency(billDiscount)}</Text>
+            </View>
+          )}
+          <View style={styles.totalRow}>
+            <Text style={[styles.totalLabel, styles.grandTotal]}>Total</Text>
+            <Text style={[styles.totalValue, styles.grandTotal]}>{formatCurrency(netTotal)}</Text>
+          </View>
+        </View>
+
+        {/* Payments */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Payments</Text>
+          {(bill.payments ?? []).length === 0 ? (
+            <Text style={styles.emptyText}>No payments recorded.</Text>
+          ) : (
+            bill.payments!.map(payment => (
+              <View key={payment.id} style={styles.paymentRow}>
+                <View style={styles.nameCell}>
+                  <Text style={styles.itemName}>
+                    {payment.paymentDate.slice(0, 10)}
+                    {payment.receiptNumber ? `  ${payment.receiptNumber}` : ''}
+                  </Text>
+                  <Text style={styles.itemMeta}>
+                    {[payment.method, payment.reference, payment.receivedBy].filter(Boolean).join(' · ')}
+                  </Text>
+                </View>
+                <Text style={[styles.paymentAmount, payment.status !== 'completed' && styles.inactivePayment]}>
+                  {formatCurrency(payment.amount)}
+                  {payment.status !== 'completed' ? ` (${payment.status})` : ''}
+                </Text>
+                <TouchableOpacity
+                  style={styles.receiptButton}
+                  onPress={() => shareReceipt(payment)}
+                  disabled={isExporting}
+                >
+                  <Ionicons name="receipt-outline" size={20} color={Colors.purple[500]} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Paid</Text>
+            <Text style={styles.totalValue}>{formatCurrency(totalPaid)}</Text>
+          </View>
+          <View style={styles.totalRow}>
+            <Text style={[styles.totalLabel, styles.grandTotal]}>Balance</Text>
+            <Text style={[styles.totalValue, styles.grandTotal, balance > 0 && styles.balanceDue]}>
+              {formatCurrency(balance)}
+            </Text>
+          </View>
+        </View>
+
+        {/* Installment Plan */}
+        <InstallmentPlanCard bill={bill} onChanged={loadBill} />
+
+        {/* Status History */}
+        {statusHistory.length > 0 && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Status History</Text>
+            {statusHistory.map(change => (
+              <View key={change.id} style={styles.paymentRow}>
+                <View style={styles.nameCell}>
+                  <Text style={styles.itemName}>
+                    {change.fromStatus ?? 'new'} → {change.toStatus}
+                  </Text>
+                  {change.reason ? <Text style={styles.itemMeta}>{change.reason}</Text> : null}
+                </View>
+                <Text style={styles.itemMeta}>{change.changedAt?.slice(0, 16)}</Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.invoiceActions}>
+          <TouchableOpacity
+            style={[styles.invoiceButton, styles.invoiceButtonSpacing]}
+            onPress={() => exportInvoice('print')}
+            disabled={isExporting}
+          >
+            <Ionicons name="print" size={18} color="#fff" />
+            <Text style={styles.invoiceButtonText}>Print Invoice</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.invoiceButton}
+            onPress={() => exportInvoice('share')}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="share-social" size={18} color="#fff" />
+                <Text style={styles.invoiceButtonText}>Share PDF</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {bill.status !== 'cancelled' && bill.status !== 'paid' && (
+          <TouchableOpacity style={styles.cancelButton} onPress={cancelBill}>
+            <Text style={styles.cancelButtonText}>Cancel Bill</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: 'red',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  billName: {
+    fontSize: 18,
+    fontFamily: 'Bold',
+    color: '#333',
+    flex: 1,
+    marginRight: 8,
+  },
+  detailText: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  noteText: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#333',
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  headerRow: {
+    paddingVertical: 4,
+  },
+  headerText: {
+    fontFamily: 'SemiBold',
+    color: '#666',
+    fontSize: 12,
+  },
+  cell: {
+    width: 70,
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#333',
+  },
+  nameCell: {
+    flex: 1,
+  },
+  amountCell: {
+    width: 90,
+    textAlign: 'right',
+  },
+  itemName: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+  },
+  itemMeta: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#888',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontFamily: 'Regular',
+    paddingVertical: 8,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  totalLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#666',
+  },
+  totalValue: {
+    fontSize: 14,
+    fontFamily: 'SemiBold',
+    color: '#333',
+  },
+  grandTotal: {
+    fontSize: 16,
+    fontFamily: 'Bold',
+    color: '#333',
+  },
+  balanceDue: {
+    color: Colors.error.light,
+  },
+  paymentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  paymentAmount: {
+    fontSize: 14,
+    fontFamily: 'SemiBold',
+    color: Colors.success.light,
+  },
+  receiptButton: {
+    marginLeft: 10,
+    padding: 4,
+  },
+  inactivePayment: {
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  invoiceActions: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  invoiceButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    padding: 14,
+    borderRadius: 8,
+  },
+  invoiceButtonSpacing: {
+    marginRight: 8,
+  },
+  invoiceButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    marginLeft: 6,
+  },
+  cancelButton: {
+    backgroundColor: Colors.error.light,
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
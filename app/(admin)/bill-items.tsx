@@ -1,4 +1,5 @@
 import AdminHeader from '@/components/AdminHeader';
+import TermFilter from '@/components/TermFilter';
 import {
     addBillItem,
     deleteBillItem,
@@ -7,12 +8,14 @@ import {
     updateBillItem,
 } from '@/lib/operations/bill-items';
 import { getAllDepartments } from '@/lib/operations/departments';
+import { getCurrentTerm, getTerms } from '@/lib/operations/terms';
 import { formatCurrency } from '@/utils/formatters';
+import { formatMoneyInput, parseMoney } from '@/utils/money';
 import { Ionicons } from '@expo/vector-icons';
 import { Picker } from '@react-native-picker/picker';
 import { useFocusEffect } from '@react-navigation/native';
 import { useSQLiteContext } from 'expo-sqlite';
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -26,18 +29,14 @@ import {
     TouchableOpacity,
     View,
 } from 'react-native';
-import { BillItem } from '../../lib/db/schema';
-
-
-type Department = {
-  id?: number;
-  name: string;
-};
+import { BillItem, Department, TermWithYear } from '../../lib/db/schema';
 
 export default function BillItemsScreen ({ navigation }: any) {
   const db = useSQLiteContext();
   const [billItems, setBillItems] = useState<BillItem[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [termFilter, setTermFilter] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -53,9 +52,27 @@ export default function BillItemsScreen ({ navigation }: any) {
   useFocusEffect(
     useCallback(() => {
       loadData();
-    }, [db])
+    }, [db, termFilter])
   );
 
+  // Start with the current term's items
+  useEffect(() => {
+    loadTerms();
+  }, [db]);
+
+  const loadTerms = async () => {
+    try {
+      setTerms(await getTerms(db));
+      const currentTerm = await getCurrentTerm(db);
+      setTermFilter(currentTerm?.id ?? null);
+    } catch (error) {
+      console.error('Error loading terms:', error);
+    }
+  };
+
+  // Departments offered for a new item, those of the chosen term
+  const termDepartments = departments.filter(dept => !termFilter || dept.termId === termFilter);
+
   // Load data function to fetch departments and bill items
   const loadData = async () => {
     if (!db) return;
@@ -66,12 +83,8 @@ export default function BillItemsScreen ({ navigation }: any) {
       const departmentsData = await getAllDepartments(db);
       setDepartments(departmentsData);
       
-      if (departmentsData.length > 0 && selectedDepartmentId === null) {
-        setSelectedDepartmentId(departmentsData[0]?.id || null);
-      }
-      
       // Load bill items
-      const items = await getAllBillItems(db);
+      const items = await getAllBillItems(db, termFilter ?? undefined);
       setBillItems(items);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -95,10 +108,10 @@ export default function BillItemsScreen ({ navigation }: any) {
     setIsLoading(true);
     try {
       if (searchQuery.trim() === '') {
-        const items = await getAllBillItems(db);
+        const items = await getAllBillItems(db, termFilter ?? undefined);
         setBillItems(items);
       } else {
-        const items = await searchBillItems(db, searchQuery);
+        const items = await searchBillItems(db, searchQuery, termFilter ?? undefined);
         setBillItems(items);
       }
     } catch (error) {
@@ -113,7 +126,7 @@ export default function BillItemsScreen ({ navigation }: any) {
   const resetForm = () => {
     setItemName('');
     setItemAmount('');
-    setSelectedDepartmentId(departments.length > 0 ? departments[0]?.id ?? null : null);
+    setSelectedDepartmentId(termDepartments[0]?.id ?? null);
     setEditingItem(null);
   };
 
@@ -127,7 +140,7 @@ export default function BillItemsScreen ({ navigation }: any) {
   const handleEditItem = (item: BillItem) => {
     setEditingItem(item);
     setItemName(item.name);
-    setItemAmount(item.amount.toString());
+    setItemAmount(formatMoneyInput(item.amount));
     setSelectedDepartmentId(item.departmentId);
     setModalVisible(true);
   };
@@ -142,8 +155,8 @@ export default function BillItemsScreen ({ navigation }: any) {
       return;
     }
     
-    const amount = parseFloat(itemAmount);
-    if (isNaN(amount) || amount <= 0) {
+    const amount = parseMoney(itemAmount);
+    if (amount === null || amount <= 0) {
       Alert.alert('Error', 'Please enter a valid amount');
       return;
     }
@@ -205,7 +218,7 @@ export default function BillItemsScreen ({ navigation }: any) {
               setBillItems(prevItems => prevItems.filter(i => i.id !== item.id));
             } catch (error) {
               console.error('Error deleting bill item:', error);
-              Alert.alert('Error', 'Failed to delete bill item');
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete bill item');
             }
           },
         },
@@ -216,7 +229,7 @@ export default function BillItemsScreen ({ navigation }: any) {
   // Get department name by ID
   const getDepartmentName = (departmentId: number) => {
     const department = departments.find(dept => dept.id === departmentId);
-    return department ? department.name : 'Unknown Department';
+    return department ? `${department.name} (${department.term} ${department.year})` : 'Unknown Department';
   };
 
   // Render individual bill item
@@ -271,6 +284,10 @@ export default function BillItemsScreen ({ navigation }: any) {
         </TouchableOpacity>
       </View>
 
+      <View style={styles.termFilter}>
+        <TermFilter terms={terms} selectedTermId={termFilter} onSelect={setTermFilter} allLabel="All terms" />
+      </View>
+
       {/* Bill Items List */}
       <FlatList
         data={billItems}
@@ -328,10 +345,10 @@ export default function BillItemsScreen ({ navigation }: any) {
                 onValueChange={(itemValue: any) => setSelectedDepartmentId(itemValue)}
                 style={styles.picker}
               >
-                {departments.map((department) => (
+                {(editingItem ? departments : termDepartments).map((department) => (
                   <Picker.Item
                     key={department.id}
-                    label={department.name}
+                    label={`${department.name} (${department.term} ${department.year})`}
                     value={department.id}
                   />
                 ))}
@@ -380,6 +397,11 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#E5E5EA',
   },
+  termFilter: {
+    paddingHorizontal: 10,
+    paddingTop: 10,
+    backgroundColor: '#FFFFFF',
+  },
   searchInput: {
     flex: 1,
     height: 40,
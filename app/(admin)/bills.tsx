@@ -0,0 +1,707 @@
+// app/(admin)/bills.tsx
+import AdminHeader from '@/components/AdminHeader';
+import BillStatusBadge from '@/components/BillStatusBadge';
+import TermFilter from '@/components/TermFilter';
+import { getBillItemsByDepartmentId } from '@/lib/operations/bill-items';
+import { createBillWithItems, deleteBill, getFilteredBills } from '@/lib/operations/bills';
+import { getAllDepartments } from '@/lib/operations/departments';
+import { getCurrentSchoolSettings } from '@/lib/operations/settings';
+import { searchStudents } from '@/lib/operations/students';
+import { getCurrentTerm, getTerms } from '@/lib/operations/terms';
+import { formatCurrency } from '@/utils/formatters';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { CheckBox } from 'react-native-elements';
+import { Bill, BillFilters, BillItem, BillListItem, Department, Student, TermWithYear } from '../../lib/db/schema';
+
+const STATUS_FILTERS: (Bill['status'] | 'all')[] = ['all', 'pending', 'partial', 'overdue', 'paid', 'cancelled'];
+
+/**
+ * Bills Management Screen
+ * Features:
+ * - List bills filtered by term, status, department and due date, starting with the current term
+ * - Open a bill to see its items and payments
+ * - Create a bill for a single student from department bill items
+ */
+export default function BillsScreen() {
+  const db = useSQLiteContext();
+  const [bills, setBills] = useState<BillListItem[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Filter state
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<Bill['status'] | 'all'>('all');
+  const [termFilter, setTermFilter] = useState<number | null>(null);
+  const [departmentFilter, setDepartmentFilter] = useState<number | null>(null);
+  const [dueFrom, setDueFrom] = useState('');
+  const [dueTo, setDueTo] = useState('');
+
+  // Create form state
+  const [modalVisible, setModalVisible] = useState(false);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [formStudentId, setFormStudentId] = useState<number | null>(null);
+  const [formDepartmentId, setFormDepartmentId] = useState<number | null>(null);
+  const [departmentItems, setDepartmentItems] = useState<BillItem[]>([]);
+  const [selectedItemIds, setSelectedItemIds] = useState<number[]>([]);
+  const [billName, setBillName] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const { defaultDueDays } = getCurrentSchoolSettings();
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBills();
+    }, [db, statusFilter, termFilter, departmentFilter])
+  );
+
+  useEffect(() => {
+    loadDepartments();
+  }, []);
+
+  useEffect(() => {
+    if (formDepartmentId) {
+      loadDepartmentItems(formDepartmentId);
+    } else {
+      setDepartmentItems([]);
+      setSelectedItemIds([]);
+    }
+  }, [formDepartmentId]);
+
+  const loadDepartments = async () => {
+    try {
+      const allDepartments = await getAllDepartments(db);
+      setDepartments(allDepartments);
+      setTerms(await getTerms(db));
+      const currentTerm = await getCurrentTerm(db);
+      setTermFilter(currentTerm?.id ?? null);
+    } catch (error) {
+      console.error('Error loading departments:', error);
+    }
+  };
+
+  const loadBills = async () => {
+    try {
+      setLoading(true);
+      const filters: BillFilters = {
+        searchTerm: searchQuery || undefined,
+        status: statusFilter === 'all' ? undefined : statusFilter,
+        termId: termFilter ?? undefined,
+        departmentId: departmentFilter ?? undefined,
+        dueFrom: dueFrom.trim() || undefined,
+        dueTo: dueTo.trim() || undefined
+      };
+      const result = await getFilteredBills(db, filters);
+      setBills(result);
+    } catch (error) {
+      console.error('Error loading bills:', error);
+      Alert.alert('Error', 'Failed to load bills');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadDepartmentItems = async (departmentId: number) => {
+    try {
+      const items = await getBillItemsByDepartmentId(db, departmentId);
+      setDepartmentItems(items);
+      setSelectedItemIds(items.filter(item => item.isRequired).map(item => item.id!));
+    } catch (error) {
+      console.error('Error loading bill items:', error);
+      Alert.alert('Error', 'Failed to load bill items for this department');
+    }
+  };
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setDueFrom('');
+    setDueTo('');
+    setStatusFilter('all');
+    setTermFilter(null);
+    setDepartmentFilter(null);
+  };
+
+  const selectTerm = (termId: number | null) => {
+    setTermFilter(termId);
+    setDepartmentFilter(null);
+  };
+
+  const resetForm = () => {
+    setFormStudentId(null);
+    setFormDepartmentId(null);
+    setBillName('');
+    setDueDate('');
+    setNote('');
+  };
+
+  const openAddModal = async () => {
+    resetForm();
+    try {
+      const result = await searchStudents(db, {
+        searchOptions: { query: '', fields: [], sortBy: 'firstname', sortOrder: 'asc' }
+      });
+      setStudents(result.data);
+      setModalVisible(true);
+    } catch (error) {
+      console.error('Error loading students:', error);
+      Alert.alert('Error', 'Failed to load students');
+    }
+  };
+
+  const toggleItem = (id: number) => {
+    setSelectedItemIds(prev => prev.includes(id) ? prev.filter(itemId => itemId !== id) : [...prev, id]);
+  };
+
+  const saveBill = async () => {
+    if (!formStudentId || !formDepartmentId || !billName.trim()) {
+      Alert.alert('Error', 'Please select a student, a department and enter a bill name.');
+      return;
+    }
+    if (selectedItemIds.length === 0) {
+      Alert.alert('Error', 'Please select at least one bill item.');
+      return;
+    }
+    if (dueDate.trim() && isNaN(Date.parse(dueDate.trim()))) {
+      Alert.alert('Error', 'Please enter the due date as YYYY-MM-DD.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await createBillWithItems(db, {
+        studentId: formStudentId,
+        departmentId: formDepartmentId,
+        name: billName.trim(),
+        dueDate: dueDate.trim() || undefined,
+        note: note.trim() || undefined,
+        items: departmentItems
+          .filter(item => selectedItemIds.includes(item.id!))
+          .map(item => ({ billItemId: item.id!, amount: item.amount, quantity: 1 }))
+      });
+      setModalVisible(false);
+      resetForm();
+      await loadBills();
+    } catch (error) {
+      console.error('Error creating bill:', error);
+      Alert.alert('Error', 'Failed to create bill. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const confirmDelete = (bill: BillListItem) => {
+    Alert.alert(
+      'Confirm Delete',
+      `Are you sure you want to delete "${bill.name}" for ${bill.studentName}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteBill(db, bill.id!);
+              await loadBills();
+            } catch (error) {
+              console.error('Error deleting bill:', error);
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete bill');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const selectedTotal = departmentItems
+    .filter(item => selectedItemIds.includes(item.id!))
+    .reduce((sum, item) => sum + item.amount, 0);
+
+  const renderBillItem = ({ item }: { item: BillListItem }) => (
+    <TouchableOpacity
+      style={styles.billCard}
+      onPress={() => router.push({ pathname: '/bill-details', params: { id: String(item.id) } } as any)}
+    >
+      <View style={styles.billInfo}>
+        <View style={styles.billTitleRow}>
+          <Text style={styles.billName}>{item.name}</Text>
+          <BillStatusBadge status={item.status} />
+        </View>
+        <Text style={styles.billDetails}>{item.studentName} · {item.departmentName}</Text>
+        <Text style={styles.billDetails}>
+          {item.dueDate ? `Due ${item.dueDate.slice(0, 10)}` : 'No due date'}
+        </Text>
+        <Text style={styles.billAmount}>{formatCurrency(item.totalAmount - (item.discount || 0))}</Text>
+      </View>
+      <TouchableOpacity onPress={() => confirmDelete(item)} style={styles.deleteButton}>
+        <Ionicons name="trash" size={22} color="red" />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Bills" />
+      <View style={styles.container}>
+        {/* Filters */}
+        <View style={styles.filters}>
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search by bill or student name..."
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            onSubmitEditing={loadBills}
+            returnKeyType="search"
+          />
+
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            {STATUS_FILTERS.map(status => (
+              <TouchableOpacity
+                key={status}
+                style={[styles.chip, statusFilter === status && styles.chipActive]}
+                onPress={() => setStatusFilter(status)}
+              >
+                <Text style={[styles.chipText, statusFilter === status && styles.chipTextActive]}>
+                  {status === 'all' ? 'All' : status!.charAt(0).toUpperCase() + status!.slice(1)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <TermFilter terms={terms} selectedTermId={termFilter} onSelect={selectTerm} allLabel="All terms" />
+
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={departmentFilter}
+              onValueChange={(value) => setDepartmentFilter(value)}
+              style={styles.picker}
+            >
+              <Picker.Item label="All departments" value={null} />
+              {departments.filter(dept => !termFilter || dept.termId === termFilter).map(dept => (
+                <Picker.Item key={dept.id} label={`${dept.name} (${dept.term} ${dept.year})`} value={dept.id} />
+              ))}
+            </Picker>
+          </View>
+
+          <View style={styles.dateRow}>
+            <TextInput
+              style={[styles.searchInput, styles.dateInput]}
+              placeholder="Due from YYYY-MM-DD"
+              value={dueFrom}
+              onChangeText={setDueFrom}
+            />
+            <TextInput
+              style={[styles.searchInput, styles.dateInput]}
+              placeholder="Due to YYYY-MM-DD"
+              value={dueTo}
+              onChangeText={setDueTo}
+            />
+          </View>
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity onPress={loadBills} style={styles.searchButton}>
+              <Text style={styles.searchButtonText}>Apply</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={clearFilters} style={styles.clearButton}>
+              <Text style={styles.clearButtonText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#0000ff" />
+          </View>
+        ) : (
+          <FlatList
+            data={bills}
+            renderItem={renderBillItem}
+            keyExtractor={(item) => `bill-${item.id}`}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={
+              <View style={styles.emptyListContainer}>
+                <Text style={styles.emptyListText}>No bills found.</Text>
+              </View>
+            }
+          />
+        )}
+
+        <TouchableOpacity onPress={openAddModal} style={styles.addButton}>
+          <Ionicons name="add" size={24} color="white" />
+        </TouchableOpacity>
+
+        {/* Create Bill Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={modalVisible}
+          onRequestClose={() => setModalVisible(false)}
+        >
+          <Pressable style={styles.backdrop} onPress={() => setModalVisible(false)}>
+            <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+              <ScrollView>
+                <Text style={styles.modalTitle}>New Bill</Text>
+
+                <Text style={styles.inputLabel}>Student *</Text>
+                <View style={styles.pickerContainer}>
+                  <Picker
+                    selectedValue={formStudentId}
+                    onValueChange={(value) => setFormStudentId(value)}
+                    style={styles.picker}
+                  >
+                    <Picker.Item label="Select a student" value={null} />
+                    {students.map(student => (
+                      <Picker.Item
+                        key={student.id}
+                        label={`${student.firstname} ${student.othernames}`}
+                        value={student.id}
+                      />
+                    ))}
+                  </Picker>
+                </View>
+
+                <Text style={styles.inputLabel}>Department *</Text>
+                <View style={styles.pickerContainer}>
+                  <Picker
+                    selectedValue={formDepartmentId}
+                    onValueChange={(value) => setFormDepartmentId(value)}
+                    style={styles.picker}
+                  >
+                    <Picker.Item label="Select a department" value={null} />
+                    {departments.map(dept => (
+                      <Picker.Item key={dept.id} label={`${dept.name} (${dept.term} ${dept.year})`} value={dept.id} />
+                    ))}
+                  </Picker>
+                </View>
+
+                <Text style={styles.inputLabel}>Bill Name *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. Term 1 Fees"
+                  value={billName}
+                  onChangeText={setBillName}
+                />
+
+                <Text style={styles.inputLabel}>Due Date</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={defaultDueDays != null ? `Blank for ${defaultDueDays} days from today` : 'YYYY-MM-DD'}
+                  value={dueDate}
+                  onChangeText={setDueDate}
+                />
+
+                <Text style={styles.inputLabel}>Note</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Additional notes"
+                  value={note}
+                  onChangeText={setNote}
+                />
+
+                {formDepartmentId && (
+                  <>
+                    <Text style={styles.inputLabel}>Bill Items</Text>
+                    {departmentItems.length === 0 ? (
+                      <Text style={styles.emptyListText}>This department has no bill items.</Text>
+                    ) : (
+                      departmentItems.map(item => (
+                        <CheckBox
+                          key={item.id}
+                          title={`${item.name} — ${formatCurrency(item.amount)}${item.isRequired ? ' (required)' : ''}`}
+                          checked={selectedItemIds.includes(item.id!)}
+                          onPress={() => toggleItem(item.id!)}
+                          containerStyle={styles.checkbox}
+                        />
+                      ))
+                    )}
+                    <Text style={styles.totalText}>Total: {formatCurrency(selectedTotal)}</Text>
+                  </>
+                )}
+
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity onPress={() => setModalVisible(false)} style={styles.cancelButton}>
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={saveBill} style={styles.saveButton} disabled={isSaving}>
+                    {isSaving ? (
+                      <ActivityIndicator size="small" color="white" />
+                    ) : (
+                      <Text style={styles.saveButtonText}>Save</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </Pressable>
+          </Pressable>
+        </Modal>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  filters: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  searchInput: {
+    padding: 10,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 10,
+    backgroundColor: '#fff',
+  },
+  chipRow: {
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: Colors.purple[500],
+  },
+  chipText: {
+    color: '#333',
+    fontFamily: 'Medium',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 10,
+  },
+  picker: {
+    height: 50,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  dateInput: {
+    flex: 1,
+    marginRight: 5,
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  searchButton: {
+    flex: 1,
+    backgroundColor: '#0066cc',
+    padding: 10,
+    borderRadius: 5,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  searchButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'Medium',
+  },
+  clearButton: {
+    flex: 1,
+    backgroundColor: '#ccc',
+    padding: 10,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontFamily: 'Medium',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    padding: 16,
+    paddingBottom: 90,
+  },
+  billCard: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  billInfo: {
+    flex: 1,
+  },
+  billTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  billName: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    flex: 1,
+    marginRight: 8,
+  },
+  billDetails: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  billAmount: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#007AFF',
+    marginTop: 6,
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 8,
+    justifyContent: 'center',
+  },
+  emptyListContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyListText: {
+    fontSize: 16,
+    color: Colors.info['dark'],
+    textAlign: 'center',
+    fontFamily: 'Regular',
+  },
+  addButton: {
+    backgroundColor: '#28a745',
+    padding: 15,
+    borderRadius: 30,
+    position: 'absolute',
+    bottom: 20,
+    right: 20,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '90%',
+    maxHeight: '90%',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 5,
+  },
+  input: {
+    width: '100%',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 15,
+  },
+  checkbox: {
+    backgroundColor: 'transparent',
+    borderWidth: 0,
+    marginLeft: 0,
+    paddingLeft: 0,
+  },
+  totalText: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#007AFF',
+    marginTop: 8,
+    textAlign: 'right',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#ccc',
+    padding: 12,
+    borderRadius: 5,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: Colors.success['dark'],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
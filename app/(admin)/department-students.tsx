@@ -1,6 +1,8 @@
 import AdminHeader from '@/components/AdminHeader';
+import TermFilter from '@/components/TermFilter';
 import { getAllDepartments, getDepartmentWithBillItems } from '@/lib/operations/departments';
 import { getStudentsInDepartmentById } from '@/lib/operations/departments';
+import { getCurrentTerm, getTerms } from '@/lib/operations/terms';
 import { formatCurrency } from '@/utils/formatters';
 import { useSQLiteContext } from 'expo-sqlite';
 import React, { useEffect, useState } from 'react';
@@ -14,7 +16,7 @@ import {
   Dimensions,
 } from 'react-native';
 import { TabView, SceneMap, TabBar } from 'react-native-tab-view';
-import { Department, DepartmentWithBillItems, Student } from '../../lib/db/schema';
+import { Department, DepartmentWithBillItems, Student, TermWithYear } from '../../lib/db/schema';
 
 interface StudentWithBilling extends Student {
   totalAmount: number;
@@ -25,18 +27,34 @@ export default function DepartmentStudentsScreen() {
   const [index, setIndex] = useState(0);
   const [routes, setRoutes] = useState<{ key: string; title: string }[]>([]);
   const [departments, setDepartments] = useState<DepartmentWithBillItems[]>([]);
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [termFilter, setTermFilter] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load departments and their bill items
+  // Load the current term's departments and their bill items
   useEffect(() => {
-    loadDepartments();
+    loadTerms();
   }, []);
 
-  const loadDepartments = async () => {
+  const loadTerms = async () => {
+    try {
+      setTerms(await getTerms(db));
+      const currentTerm = await getCurrentTerm(db);
+      await loadDepartments(currentTerm?.id ?? null);
+    } catch (error) {
+      console.error('Error loading terms:', error);
+      setError('Failed to load terms');
+      setLoading(false);
+    }
+  };
+
+  const loadDepartments = async (termId: number | null) => {
     try {
       setLoading(true);
-      const allDepartments = await getAllDepartments(db);
+      setTermFilter(termId);
+      setIndex(0);
+      const allDepartments = await getAllDepartments(db, termId ?? undefined);
       
       // Get bill items for each department
       const departmentsWithItems = await Promise.all(
@@ -55,7 +73,7 @@ export default function DepartmentStudentsScreen() {
       // Create routes for TabView
       const newRoutes = validDepartments.map(dept => ({
         key: dept.id!.toString(),
-        title: dept.name
+        title: termId ? dept.name : `${dept.name} (${dept.term} ${dept.year})`
       }));
       setRoutes(newRoutes);
     } catch (error) {
@@ -108,6 +126,9 @@ export default function DepartmentStudentsScreen() {
   return (
     <SafeAreaView style={styles.safeArea}>
       <AdminHeader title="Department Students" />
+      <View style={styles.termFilter}>
+        <TermFilter terms={terms} selectedTermId={termFilter} onSelect={loadDepartments} allLabel="All terms" />
+      </View>
       <TabView
         navigationState={{ index, routes }}
         renderScene={renderScene}
@@ -199,6 +220,10 @@ const styles = StyleSheet.create({
   safeArea: {
     flex: 1,
   },
+  termFilter: {
+    paddingHorizontal: 16,
+    paddingTop: 10,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
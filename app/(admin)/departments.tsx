@@ -1,6 +1,10 @@
 // app/(admin)/index.tsx
 import AdminHeader from '@/components/AdminHeader';
+import DepartmentBillingWizard from '@/components/DepartmentBillingWizard';
+import TermFilter from '@/components/TermFilter';
 import * as DepartmentOperations from '@/lib/operations/departments';
+import { getCurrentTerm, getTerms } from '@/lib/operations/terms';
+import { formatMoneyInput, parseMoney } from '@/utils/money';
 import { Colors } from '@/utils/styles';
 import { Ionicons } from '@expo/vector-icons';
 import { useSQLiteContext } from 'expo-sqlite';
@@ -19,9 +23,10 @@ import {
   View,
   ScrollView
 } from 'react-native';
-import { Department, CreateDepartmentPayload } from '../../lib/db/schema';
+import { Department, CreateDepartmentPayload, TermWithYear } from '../../lib/db/schema';
 
 interface BillItemForm {
+  id?: number; // Set for items already saved, which are updated in place
   name: string;
   amount: string;
   description?: string;
@@ -38,26 +43,41 @@ export default function DepartmentsScreen() {
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [selectedDepartment, setSelectedDepartment] = useState<Department | null>(null);
   const [isEditing, setIsEditing] = useState(false);
+  const [billingDepartment, setBillingDepartment] = useState<Department | null>(null);
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [termFilter, setTermFilter] = useState<number | null>(null);
 
   // Form state
   const [departmentName, setDepartmentName] = useState('');
-  const [term, setTerm] = useState('');
-  const [year, setYear] = useState('');
+  const [termId, setTermId] = useState<number | null>(null);
   const [description, setDescription] = useState('');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [billItems, setBillItems] = useState<BillItemForm[]>([]);
 
-  // Fetch departments from the database on mount
+  // Fetch terms on mount, starting with the current term's departments
   useEffect(() => {
-    loadDepartments();
+    loadTerms();
   }, []);
 
+  const loadTerms = async () => {
+    try {
+      setTerms(await getTerms(db));
+      const currentTerm = await getCurrentTerm(db);
+      setTermFilter(currentTerm?.id ?? null);
+      await loadDepartments(currentTerm?.id ?? null);
+    } catch (error) {
+      console.error('Error loading terms:', error);
+      setError('Failed to load terms. Please try again later.');
+      setLoading(false);
+    }
+  };
+
   // Function to load departments from the database
-  const loadDepartments = async () => {
+  const loadDepartments = async (filterTermId: number | null = termFilter) => {
     setLoading(true);
     try {
-      const allDepartments = await DepartmentOperations.getAllDepartments(db);
+      const allDepartments = await DepartmentOperations.getAllDepartments(db, filterTermId ?? undefined);
       setDepartments(allDepartments);
     } catch (error) {
       console.error('Error loading departments:', error);
@@ -72,7 +92,7 @@ export default function DepartmentsScreen() {
     try {
       setLoading(true);
       if (searchQuery.trim()) {
-        const results = await DepartmentOperations.searchDepartments(db, searchQuery);
+        const results = await DepartmentOperations.searchDepartments(db, searchQuery, termFilter ?? undefined);
         setDepartments(results);
       } else {
         await loadDepartments();
@@ -85,6 +105,13 @@ export default function DepartmentsScreen() {
     }
   }
 
+  // Handle choosing a term to list
+  const selectTermFilter = (filterTermId: number | null) => {
+    setTermFilter(filterTermId);
+    setSearchQuery('');
+    loadDepartments(filterTermId);
+  };
+
   // Add new bill item
   const addBillItem = () => {
     setBillItems([...billItems, { name: '', amount: '' }]);
@@ -106,13 +133,13 @@ export default function DepartmentsScreen() {
   const saveDepartment = async () => {
     try {
       // Validate form
-      if (!departmentName || !term || !year) {
+      if (!departmentName || !termId) {
         Alert.alert('Error', 'Please fill in all required fields.');
         return;
       }
 
       // Validate bill items
-      const invalidBillItems = billItems.filter(item => !item.name || !item.amount || isNaN(Number(item.amount)));
+      const invalidBillItems = billItems.filter(item => !item.name || !item.amount || parseMoney(item.amount) === null);
       if (invalidBillItems.length > 0) {
         Alert.alert('Error', 'Please fill in all bill item fields correctly.');
         return;
@@ -121,14 +148,13 @@ export default function DepartmentsScreen() {
       setLoading(true);
       const departmentData: CreateDepartmentPayload = {
         name: departmentName,
-        term,
-        year,
+        termId,
         description: description || undefined,
         startDate: startDate || undefined,
         endDate: endDate || undefined,
         billItems: billItems.map(item => ({
           name: item.name,
-          amount: Number(item.amount),
+          amount: parseMoney(item.amount)!,
           description: item.description,
           category: item.category,
           isRequired: item.isRequired
@@ -136,10 +162,11 @@ export default function DepartmentsScreen() {
       };
 
       if (isEditing && selectedDepartment) {
-        // Update existing department
+        // Update existing department, keeping the IDs of its bill items
         await DepartmentOperations.updateDepartment(db, {
           ...selectedDepartment,
-          ...departmentData
+          ...departmentData,
+          billItems: departmentData.billItems!.map((item, index) => ({ ...item, id: billItems[index].id }))
         });
       } else {
         // Add new department
@@ -154,7 +181,7 @@ export default function DepartmentsScreen() {
       
     } catch (error) {
       console.error('Error saving department:', error);
-      setError('Failed to save department. Please try again later.');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save department');
     } finally {
       setLoading(false);
     }
@@ -163,8 +190,7 @@ export default function DepartmentsScreen() {
   // Reset form
   const resetForm = () => {
     setDepartmentName('');
-    setTerm('');
-    setYear('');
+    setTermId(termFilter);
     setDescription('');
     setStartDate('');
     setEndDate('');
@@ -182,18 +208,33 @@ export default function DepartmentsScreen() {
       setError(null);
     } catch (error) {
       console.error('Error deleting department:', error);
-      setError('Failed to delete department. Please try again later.');
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete department');
     } finally {
       setLoading(false);
     }
   }
 
-  // Handle selecting a department for editing
-  const handleEdit = (department: Department) => {
+  // Handle selecting a department for editing, with its current bill items
+  const handleEdit = async (department: Department) => {
+    try {
+      const withItems = await DepartmentOperations.getDepartmentWithBillItems(db, department.id!);
+      setBillItems((withItems?.billItems ?? []).map(item => ({
+        id: item.id,
+        name: item.name,
+        amount: formatMoneyInput(item.amount),
+        description: item.description ?? undefined,
+        category: item.category ?? undefined,
+        isRequired: !!item.isRequired
+      })));
+    } catch (error) {
+      console.error('Error loading bill items:', error);
+      Alert.alert('Error', 'Failed to load the bill items of this department');
+      return;
+    }
+
     setSelectedDepartment(department);
     setDepartmentName(department.name);
-    setTerm(department.term);
-    setYear(department.year);
+    setTermId(department.termId ?? null);
     setDescription(department.description || '');
     setStartDate(department.startDate || '');
     setEndDate(department.endDate || '');
@@ -223,6 +264,9 @@ export default function DepartmentsScreen() {
         </Text>
       </View>
       <View style={styles.departmentActions}>
+        <TouchableOpacity onPress={() => setBillingDepartment(item)} style={styles.actionButton}>
+          <Ionicons name="receipt" size={24} color="green" />
+        </TouchableOpacity>
         <TouchableOpacity onPress={() => handleEdit(item)} style={styles.actionButton}>
           <Ionicons name="pencil" size={24} color="blue" />
         </TouchableOpacity>
@@ -309,6 +353,7 @@ export default function DepartmentsScreen() {
               <Text style={styles.clearButtonText}>Clear</Text>
             </TouchableOpacity>
           </View>
+          <TermFilter terms={terms} selectedTermId={termFilter} onSelect={selectTermFilter} allLabel="All terms" />
         </View>
         
         <FlatList
@@ -346,21 +391,11 @@ export default function DepartmentsScreen() {
                 />
 
                 <Text style={styles.inputLabel}>Term *</Text>
-                <TextInput
-                  style={styles.input}
-                  placeholder="Enter term"
-                  value={term}
-                  onChangeText={setTerm}
-                />
-
-                <Text style={styles.inputLabel}>Year *</Text>
-                <TextInput
-                  style={styles.input}
-                  placeholder="Enter year"
-                  value={year}
-                  onChangeText={setYear}
-                  keyboardType="numeric"
-                />
+                {terms.length === 0 ? (
+                  <Text style={styles.noTermsText}>Add a term on the Terms screen first.</Text>
+                ) : (
+                  <TermFilter terms={terms} selectedTermId={termId} onSelect={setTermId} />
+                )}
 
                 <Text style={styles.inputLabel}>Description</Text>
                 <TextInput
@@ -458,6 +493,12 @@ export default function DepartmentsScreen() {
             </Pressable>
           </Pressable>
         </Modal>
+
+        <DepartmentBillingWizard
+          visible={billingDepartment !== null}
+          department={billingDepartment}
+          onClose={() => setBillingDepartment(null)}
+        />
       </View>
     </SafeAreaView>
   );
@@ -621,6 +662,12 @@ const styles = StyleSheet.create({
     marginBottom: 20,
     textAlign: 'center',
   },
+  noTermsText: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginBottom: 15,
+  },
   inputLabel: {
     fontSize: 14,
     fontFamily: 'Medium',
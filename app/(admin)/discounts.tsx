@@ -0,0 +1,679 @@
+// app/(admin)/discounts.tsx
+import AdminHeader from '@/components/AdminHeader';
+import TermFilter from '@/components/TermFilter';
+import { getAllDepartments } from '@/lib/operations/departments';
+import {
+  assignDiscountToStudent,
+  createDiscountScheme,
+  deleteDiscountScheme,
+  getBillItemCategories,
+  getDiscountSchemes,
+  getStudentDiscounts,
+  removeStudentDiscount,
+  updateDiscountScheme
+} from '@/lib/operations/discounts';
+import { searchStudents } from '@/lib/operations/students';
+import { getCurrentTerm, getTerms } from '@/lib/operations/terms';
+import { formatCurrency } from '@/utils/formatters';
+import { formatMoneyInput, parseMoney } from '@/utils/money';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect } from '@react-navigation/native';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Department, DiscountScheme, Student, StudentDiscountListItem, TermWithYear } from '../../lib/db/schema';
+
+/**
+ * Discounts Screen
+ * Features:
+ * - Manage scholarship and sponsorship discount schemes
+ * - Limit a scheme to bill item categories, e.g. tuition only
+ * - Grant schemes to students per department; new bills apply them automatically
+ * - List the discounts granted for a term, starting with the current term
+ * - Sibling rules apply by themselves to the second (or later) child of a family
+ */
+export default function DiscountsScreen() {
+  const db = useSQLiteContext();
+  const [schemes, setSchemes] = useState<DiscountScheme[]>([]);
+  const [assignments, setAssignments] = useState<StudentDiscountListItem[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [termFilter, setTermFilter] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Scheme form state
+  const [schemeModalVisible, setSchemeModalVisible] = useState(false);
+  const [editingScheme, setEditingScheme] = useState<DiscountScheme | null>(null);
+  const [schemeName, setSchemeName] = useState('');
+  const [schemeType, setSchemeType] = useState<DiscountScheme['type']>('percentage');
+  const [schemeValue, setSchemeValue] = useState('');
+  const [schemeCategories, setSchemeCategories] = useState<string[]>([]);
+  const [schemeDescription, setSchemeDescription] = useState('');
+  const [schemeSiblingRank, setSchemeSiblingRank] = useState('');
+
+  // Assignment form state
+  const [assignModalVisible, setAssignModalVisible] = useState(false);
+  const [assignStudentId, setAssignStudentId] = useState<number | null>(null);
+  const [assignSchemeId, setAssignSchemeId] = useState<number | null>(null);
+  const [assignDepartmentId, setAssignDepartmentId] = useState<number | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [db, termFilter])
+  );
+
+  useEffect(() => {
+    loadTerms();
+  }, [db]);
+
+  const loadTerms = async () => {
+    try {
+      setTerms(await getTerms(db));
+      const currentTerm = await getCurrentTerm(db);
+      setTermFilter(currentTerm?.id ?? null);
+    } catch (error) {
+      console.error('Error loading terms:', error);
+    }
+  };
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [schemeList, assignmentList, categoryList, studentList, departmentList] = await Promise.all([
+        getDiscountSchemes(db),
+        getStudentDiscounts(db, termFilter ?? undefined),
+        getBillItemCategories(db),
+        searchStudents(db, { searchOptions: { query: '', fields: [], sortBy: 'firstname', sortOrder: 'asc' } }),
+        getAllDepartments(db, termFilter ?? undefined)
+      ]);
+      setSchemes(schemeList);
+      setAssignments(assignmentList);
+      setCategories(categoryList);
+      setStudents(studentList.data);
+      setDepartments(departmentList);
+    } catch (error) {
+      console.error('Error loading discounts:', error);
+      Alert.alert('Error', 'Failed to load discounts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openSchemeModal = (scheme?: DiscountScheme) => {
+    setEditingScheme(scheme ?? null);
+    setSchemeName(scheme?.name ?? '');
+    setSchemeType(scheme?.type ?? 'percentage');
+    setSchemeValue(scheme ? (scheme.type === 'fixed' ? formatMoneyInput(scheme.value) : String(scheme.value)) : '');
+    setSchemeCategories(scheme?.categories ?? []);
+    setSchemeDescription(scheme?.description ?? '');
+    setSchemeSiblingRank(scheme?.siblingRank != null ? String(scheme.siblingRank) : '');
+    setSchemeModalVisible(true);
+  };
+
+  const toggleCategory = (category: string) => {
+    setSchemeCategories(prev =>
+      prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]
+    );
+  };
+
+  const saveScheme = async () => {
+    const scheme: DiscountScheme = {
+      id: editingScheme?.id,
+      name: schemeName,
+      type: schemeType,
+      value: (schemeType === 'fixed' ? parseMoney(schemeValue) : parseFloat(schemeValue)) ?? NaN,
+      categories: schemeCategories,
+      description: schemeDescription.trim() || undefined,
+      siblingRank: schemeSiblingRank.trim() ? Number(schemeSiblingRank) : null
+    };
+
+    try {
+      setIsSaving(true);
+      if (editingScheme) {
+        await updateDiscountScheme(db, scheme);
+      } else {
+        await createDiscountScheme(db, scheme);
+      }
+      setSchemeModalVisible(false);
+      await loadData();
+    } catch (error) {
+      console.error('Error saving discount scheme:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save discount scheme');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteScheme = (scheme: DiscountScheme) => {
+    Alert.alert(
+      'Remove Scheme',
+      `Remove "${scheme.name}"? Existing bills keep their discounts.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteDiscountScheme(db, scheme.id!);
+              await loadData();
+            } catch (error) {
+              console.error('Error removing discount scheme:', error);
+              Alert.alert('Error', 'Failed to remove discount scheme');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const openAssignModal = () => {
+    setAssignStudentId(null);
+    setAssignSchemeId(null);
+    setAssignDepartmentId(null);
+    setAssignModalVisible(true);
+  };
+
+  const saveAssignment = async () => {
+    if (!assignStudentId || !assignSchemeId || !assignDepartmentId) {
+      Alert.alert('Error', 'Please select a student, scheme and department');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await assignDiscountToStudent(db, {
+        studentId: assignStudentId,
+        schemeId: assignSchemeId,
+        departmentId: assignDepartmentId
+      });
+      setAssignModalVisible(false);
+      await loadData();
+    } catch (error) {
+      console.error('Error assigning discount:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to assign discount');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveAssignment = (assignment: StudentDiscountListItem) => {
+    Alert.alert(
+      'Remove Discount',
+      `Remove ${assignment.schemeName} from ${assignment.studentName}? Existing bills keep their discounts.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeStudentDiscount(db, assignment.id!);
+              await loadData();
+            } catch (error) {
+              console.error('Error removing student discount:', error);
+              Alert.alert('Error', 'Failed to remove discount');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const describeScheme = (scheme: DiscountScheme) => {
+    const value = scheme.type === 'percentage' ? `${scheme.value}% off` : `${formatCurrency(scheme.value)} off`;
+    const scope = scheme.categories.length > 0 ? scheme.categories.join(', ') : 'whole bill';
+    const sibling = scheme.siblingRank != null ? ` · child ${scheme.siblingRank} onward in a family` : '';
+    return `${value} · ${scope}${sibling}`;
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Discounts" />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#0000ff" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Discounts" />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {/* Schemes */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Schemes</Text>
+          <TouchableOpacity style={styles.addLink} onPress={() => openSchemeModal()}>
+            <Ionicons name="add-circle" size={20} color={Colors.purple[500]} />
+            <Text style={styles.addLinkText}>New Scheme</Text>
+          </TouchableOpacity>
+        </View>
+        {schemes.length === 0 ? (
+          <Text style={styles.emptyListText}>No discount schemes yet.</Text>
+        ) : (
+          schemes.map(scheme => (
+            <TouchableOpacity key={scheme.id} style={styles.card} onPress={() => openSchemeModal(scheme)}>
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardTitle}>{scheme.name}</Text>
+                <Text style={styles.cardDetails}>{describeScheme(scheme)}</Text>
+                {scheme.description ? <Text style={styles.cardDetails}>{scheme.description}</Text> : null}
+              </View>
+              <TouchableOpacity onPress={() => handleDeleteScheme(scheme)} style={styles.deleteButton}>
+                <Ionicons name="trash" size={20} color={Colors.error.light} />
+              </TouchableOpacity>
+            </TouchableOpacity>
+          ))
+        )}
+
+        {/* Student Assignments */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Students</Text>
+          <TouchableOpacity style={styles.addLink} onPress={openAssignModal} disabled={schemes.length === 0}>
+            <Ionicons name="add-circle" size={20} color={Colors.purple[500]} />
+            <Text style={styles.addLinkText}>Assign</Text>
+          </TouchableOpacity>
+        </View>
+        <TermFilter terms={terms} selectedTermId={termFilter} onSelect={setTermFilter} allLabel="All terms" />
+        {assignments.length === 0 ? (
+          <Text style={styles.emptyListText}>
+            {termFilter ? 'No students have discounts in this term.' : 'No students have discounts yet.'}
+          </Text>
+        ) : (
+          assignments.map(assignment => (
+            <View key={assignment.id} style={styles.card}>
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardTitle}>{assignment.studentName}</Text>
+                <Text style={styles.cardDetails}>{assignment.schemeName}</Text>
+                <Text style={styles.cardDetails}>{assignment.departmentName}</Text>
+              </View>
+              <TouchableOpacity onPress={() => handleRemoveAssignment(assignment)} style={styles.deleteButton}>
+                <Ionicons name="trash" size={20} color={Colors.error.light} />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Scheme Modal */}
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={schemeModalVisible}
+        onRequestClose={() => setSchemeModalVisible(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setSchemeModalVisible(false)}>
+          <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+            <ScrollView>
+              <Text style={styles.modalTitle}>{editingScheme ? 'Edit Scheme' : 'New Scheme'}</Text>
+
+              <Text style={styles.inputLabel}>Name *</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Staff child"
+                value={schemeName}
+                onChangeText={setSchemeName}
+              />
+
+              <Text style={styles.inputLabel}>Discount</Text>
+              <View style={styles.chipRow}>
+                {(['percentage', 'fixed'] as const).map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.chip, schemeType === option && styles.chipActive]}
+                    onPress={() => setSchemeType(option)}
+                  >
+                    <Text style={[styles.chipText, schemeType === option && styles.chipTextActive]}>
+                      {option === 'percentage' ? 'Percentage' : 'Fixed amount'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.inputLabel}>{schemeType === 'percentage' ? 'Percentage off *' : 'Amount off *'}</Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="decimal-pad"
+                placeholder={schemeType === 'percentage' ? 'e.g. 50' : formatMoneyInput(0)}
+                value={schemeValue}
+                onChangeText={setSchemeValue}
+              />
+
+              <Text style={styles.inputLabel}>Applies To</Text>
+              <Text style={styles.helpText}>
+                {schemeCategories.length === 0 ? 'The whole bill' : 'Only items in the selected categories'}
+              </Text>
+              <View style={[styles.chipRow, styles.wrapRow]}>
+                {categories.map(category => (
+                  <TouchableOpacity
+                    key={category}
+                    style={[styles.chip, styles.wrapChip, schemeCategories.includes(category) && styles.chipActive]}
+                    onPress={() => toggleCategory(category)}
+                  >
+                    <Text style={[styles.chipText, schemeCategories.includes(category) && styles.chipTextActive]}>
+                      {category}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.inputLabel}>Sibling Rule</Text>
+              <Text style={styles.helpText}>
+                Leave empty to grant the scheme by hand. Enter 2 to apply it to every second and later child of a family. A child only gets the rule with the highest number they have reached.
+              </Text>
+              <TextInput
+                style={styles.input}
+                keyboardType="number-pad"
+                placeholder="Not a sibling rule"
+                value={schemeSiblingRank}
+                onChangeText={setSchemeSiblingRank}
+              />
+
+              <Text style={styles.inputLabel}>Description</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Sponsored by the PTA"
+                value={schemeDescription}
+                onChangeText={setSchemeDescription}
+              />
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity onPress={() => setSchemeModalVisible(false)} style={styles.cancelButton}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={saveScheme} style={styles.saveButton} disabled={isSaving}>
+                  {isSaving ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
+      {/* Assignment Modal */}
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={assignModalVisible}
+        onRequestClose={() => setAssignModalVisible(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setAssignModalVisible(false)}>
+          <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+            <ScrollView>
+              <Text style={styles.modalTitle}>Assign Discount</Text>
+
+              <Text style={styles.inputLabel}>Student *</Text>
+              <View style={styles.pickerContainer}>
+                <Picker
+                  selectedValue={assignStudentId}
+                  onValueChange={(value) => setAssignStudentId(value)}
+                  style={styles.picker}
+                >
+                  <Picker.Item label="Select a student" value={null} />
+                  {students.map(student => (
+                    <Picker.Item
+                      key={student.id}
+                      label={`${student.firstname} ${student.othernames}`}
+                      value={student.id}
+                    />
+                  ))}
+                </Picker>
+              </View>
+
+              <Text style={styles.inputLabel}>Scheme *</Text>
+              <View style={styles.pickerContainer}>
+                <Picker
+                  selectedValue={assignSchemeId}
+                  onValueChange={(value) => setAssignSchemeId(value)}
+                  style={styles.picker}
+                >
+                  <Picker.Item label="Select a scheme" value={null} />
+                  {schemes.map(scheme => (
+                    <Picker.Item key={scheme.id} label={scheme.name} value={scheme.id} />
+                  ))}
+                </Picker>
+              </View>
+
+              <Text style={styles.inputLabel}>Department *</Text>
+              <View style={styles.pickerContainer}>
+                <Picker
+                  selectedValue={assignDepartmentId}
+                  onValueChange={(value) => setAssignDepartmentId(value)}
+                  style={styles.picker}
+                >
+                  <Picker.Item label="Select a department" value={null} />
+                  {departments.map(dept => (
+                    <Picker.Item key={dept.id} label={`${dept.name} (${dept.term} ${dept.year})`} value={dept.id} />
+                  ))}
+                </Picker>
+              </View>
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity onPress={() => setAssignModalVisible(false)} style={styles.cancelButton}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={saveAssignment} style={styles.saveButton} disabled={isSaving}>
+                  {isSaving ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: 'Bold',
+    color: '#333',
+  },
+  addLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addLinkText: {
+    marginLeft: 4,
+    fontSize: 14,
+    fontFamily: 'SemiBold',
+    color: Colors.purple[500],
+  },
+  card: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  cardDetails: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 8,
+    justifyContent: 'center',
+  },
+  emptyListText: {
+    fontSize: 16,
+    color: Colors.info['dark'],
+    textAlign: 'center',
+    fontFamily: 'Regular',
+    marginBottom: 12,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '90%',
+    maxHeight: '90%',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 5,
+  },
+  helpText: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginBottom: 8,
+  },
+  input: {
+    width: '100%',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 15,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginBottom: 15,
+  },
+  wrapRow: {
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  wrapChip: {
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: Colors.purple[500],
+  },
+  chipText: {
+    color: '#333',
+    fontFamily: 'Medium',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 10,
+  },
+  picker: {
+    height: 50,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#ccc',
+    padding: 12,
+    borderRadius: 5,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: Colors.success['dark'],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
@@ -1,7 +1,9 @@
 import AdminHeader from '@/components/AdminHeader';
+import TermFilter from '@/components/TermFilter';
 import { getAllDepartments } from '@/lib/operations/departments';
 import { bulkEnroll, getEnrollmentsByDepartment } from '@/lib/operations/enrollments';
 import { getAllStudents } from '@/lib/operations/students';
+import { getCurrentTerm, getTerms } from '@/lib/operations/terms';
 import { Colors } from '@/utils/styles';
 import { Ionicons } from '@expo/vector-icons';
 import { Picker } from '@react-native-picker/picker';
@@ -19,7 +21,7 @@ import {
   View
 } from 'react-native';
 import { CheckBox } from 'react-native-elements';
-import { BulkEnrollmentResult, Department, Student } from '../../lib/db/schema';
+import { BulkEnrollmentResult, Department, Student, TermWithYear } from '../../lib/db/schema';
 
 // Define interface for enrolled students
 interface EnrolledStudent {
@@ -34,6 +36,8 @@ export default function EnrollmentsScreen() {
   const db = useSQLiteContext();
   
   const [departments, setDepartments] = useState<Department[]>([]);
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [termFilter, setTermFilter] = useState<number | null>(null);
   const [students, setStudents] = useState<Student[]>([]);
   const [selectedDepartment, setSelectedDepartment] = useState<number | null>(null);
   const [selectedStudents, setSelectedStudents] = useState<number[]>([]);
@@ -60,17 +64,15 @@ export default function EnrollmentsScreen() {
   const loadData = async () => {
     try {
       setInitialLoading(true);
-      const [allDepartments, allStudents] = await Promise.all([
-        getAllDepartments(db),
+      const [allTerms, currentTerm, allStudents] = await Promise.all([
+        getTerms(db),
+        getCurrentTerm(db),
         getAllStudents(db)
       ]);
       
-      setDepartments(allDepartments);
+      setTerms(allTerms);
       setStudents(allStudents);
-      
-      if (allDepartments.length > 0 && allDepartments[0].id) {
-        setSelectedDepartment(allDepartments[0].id);
-      }
+      await loadDepartments(currentTerm?.id ?? null);
     } catch (error) {
       Alert.alert('Error', 'Failed to load data');
       console.error(error);
@@ -79,6 +81,24 @@ export default function EnrollmentsScreen() {
     }
   };
 
+  // List the departments of a term, or of every term, starting with the first
+  const loadDepartments = async (termId: number | null) => {
+    setTermFilter(termId);
+    const termDepartments = await getAllDepartments(db, termId ?? undefined);
+    setDepartments(termDepartments);
+    setSelectedDepartment(termDepartments[0]?.id ?? null);
+    setSelectedStudents([]);
+  };
+
+  const selectTerm = async (termId: number | null) => {
+    try {
+      await loadDepartments(termId);
+    } catch (error) {
+      console.error('Error loading departments:', error);
+      Alert.alert('Error', 'Failed to load departments');
+    }
+  };
+
   const loadEnrolledStudents = async () => {
     if (!selectedDepartment) return;
     
@@ -248,6 +268,7 @@ export default function EnrollmentsScreen() {
 
         {/* Department Selection */}
         <View style={styles.formGroup}>
+          <TermFilter terms={terms} selectedTermId={termFilter} onSelect={selectTerm} allLabel="All terms" />
           <Text style={styles.label}>Select Department</Text>
           <View style={styles.pickerContainer}>
             {departments.length > 0 ? (
@@ -0,0 +1,229 @@
+// app/(admin)/exports.tsx
+import AdminHeader from '@/components/AdminHeader';
+import TermFilter from '@/components/TermFilter';
+import { toCsv } from '@/lib/documents/csv';
+import {
+  billCsvColumns,
+  billItemCsvColumns,
+  departmentCsvColumns,
+  outstandingBillCsvColumns,
+  paymentCsvColumns,
+  studentCsvColumns
+} from '@/lib/documents/csv-exports';
+import { shareCsv } from '@/lib/documents/export';
+import { requirePermission } from '@/lib/operations/auth';
+import { getAllBillItems } from '@/lib/operations/bill-items';
+import { getFilteredBills } from '@/lib/operations/bills';
+import { getAllDepartments } from '@/lib/operations/departments';
+import { getOutstandingBills, getPaymentRegister } from '@/lib/operations/reports';
+import { getCurrentSchoolSettings } from '@/lib/operations/settings';
+import { searchStudents } from '@/lib/operations/students';
+import { getCurrentTerm, getTerms } from '@/lib/operations/terms';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import { SQLiteDatabase, useSQLiteContext } from 'expo-sqlite';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { CheckBox } from 'react-native-elements';
+import { TermWithYear } from '../../lib/db/schema';
+
+// A list or report that can be exported, with how to build its file for a term, or every term
+interface ExportDefinition {
+  key: string;
+  label: string;
+  description: string;
+  build: (db: SQLiteDatabase, options: { plainAmounts?: boolean }, termId?: number) => Promise<string>;
+}
+
+const EXPORTS: ExportDefinition[] = [
+  {
+    key: 'students',
+    label: 'Students',
+    description: 'Every active student with contact details and status',
+    build: async (db, options) =>
+      toCsv(
+        await searchStudents(db, { searchOptions: { query: '', fields: [], sortBy: 'firstname', sortOrder: 'asc' } }),
+        studentCsvColumns,
+        options
+      )
+  },
+  {
+    key: 'departments',
+    label: 'Departments',
+    description: 'Departments with their term and dates',
+    build: async (db, options, termId) => toCsv(await getAllDepartments(db, termId), departmentCsvColumns, options)
+  },
+  {
+    key: 'bill-items',
+    label: 'Bill Items',
+    description: 'Fee items and their amounts',
+    build: async (db, options, termId) => toCsv(await getAllBillItems(db, termId), billItemCsvColumns, options)
+  },
+  {
+    key: 'bills',
+    label: 'Bills',
+    description: 'All bills with totals, discounts and status',
+    build: async (db, options, termId) => toCsv(await getFilteredBills(db, { termId }), billCsvColumns, options)
+  },
+  {
+    key: 'payments',
+    label: 'Payments',
+    description: 'Payment register with receipt numbers, for reconciliation',
+    build: async (db, options, termId) => toCsv(await getPaymentRegister(db, { termId }), paymentCsvColumns, options)
+  },
+  {
+    key: 'outstanding-balances',
+    label: 'Outstanding Balances',
+    description: 'Unpaid bills with the amount still due',
+    build: async (db, options, termId) =>
+      toCsv(await getOutstandingBills(db, termId), outstandingBillCsvColumns, options)
+  }
+];
+
+/**
+ * Exports Screen
+ * Features:
+ * - Export students, departments, bill items, bills, payments and outstanding balances as CSV
+ * - Limit everything but students to a term, starting with the current term
+ * - Amounts as currency, or as plain numbers for spreadsheet formulas
+ * - Share the file to email, cloud storage or a spreadsheet app
+ */
+export default function ExportsScreen() {
+  const db = useSQLiteContext();
+  const [plainAmounts, setPlainAmounts] = useState(true);
+  const [exportingKey, setExportingKey] = useState<string | null>(null);
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [termFilter, setTermFilter] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadTerms();
+  }, [db]);
+
+  const loadTerms = async () => {
+    try {
+      setTerms(await getTerms(db));
+      const currentTerm = await getCurrentTerm(db);
+      setTermFilter(currentTerm?.id ?? null);
+    } catch (error) {
+      console.error('Error loading terms:', error);
+    }
+  };
+
+  const handleExport = async (item: ExportDefinition) => {
+    try {
+      requirePermission('data.export');
+      setExportingKey(item.key);
+      const csv = await item.build(db, { plainAmounts }, termFilter ?? undefined);
+      const date = new Date().toISOString().slice(0, 10);
+      const term = terms.find(candidate => candidate.id === termFilter);
+      const termSuffix = term && item.key !== 'students'
+        ? `-${term.name}-${term.academicYearName}`.replace(/[^A-Za-z0-9-]+/g, '-')
+        : '';
+      await shareCsv(csv, `${getCurrentSchoolSettings().schoolShortName}-${item.key}${termSuffix}-${date}`);
+    } catch (error) {
+      console.error(`Error exporting ${item.key}:`, error);
+      Alert.alert('Error', error instanceof Error ? error.message : `Failed to export ${item.label.toLowerCase()}`);
+    } finally {
+      setExportingKey(null);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Exports" />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <Text style={styles.helpText}>
+          Files are saved as CSV, which Excel, Numbers and Google Sheets open directly.
+        </Text>
+        <CheckBox
+          title="Write amounts as plain numbers"
+          checked={plainAmounts}
+          onPress={() => setPlainAmounts(!plainAmounts)}
+          containerStyle={styles.checkbox}
+        />
+        <Text style={styles.helpText}>Every export but Students covers only the chosen term:</Text>
+        <TermFilter terms={terms} selectedTermId={termFilter} onSelect={setTermFilter} allLabel="All terms" />
+
+        {EXPORTS.map(item => (
+          <TouchableOpacity
+            key={item.key}
+            style={styles.card}
+            onPress={() => handleExport(item)}
+            disabled={exportingKey !== null}
+          >
+            <View style={styles.cardInfo}>
+              <Text style={styles.cardTitle}>{item.label}</Text>
+              <Text style={styles.cardDetails}>{item.description}</Text>
+            </View>
+            {exportingKey === item.key ? (
+              <ActivityIndicator size="small" color={Colors.purple[500]} />
+            ) : (
+              <Ionicons name="share-outline" size={22} color={Colors.purple[500]} />
+            )}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  helpText: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+  },
+  checkbox: {
+    backgroundColor: 'transparent',
+    borderWidth: 0,
+    marginLeft: 0,
+    paddingHorizontal: 0,
+    marginBottom: 8,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  cardDetails: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+  },
+});
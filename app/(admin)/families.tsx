@@ -0,0 +1,386 @@
+// app/(admin)/families.tsx
+import AdminHeader from '@/components/AdminHeader';
+import { createFamily, deleteFamily, getFamilies, updateFamily } from '@/lib/operations/families';
+import { formatCurrency } from '@/utils/formatters';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Family, FamilyListItem } from '../../lib/db/schema';
+
+/**
+ * Families Screen
+ * Features:
+ * - List families with their number of students and what they owe
+ * - Add, edit and remove families and their guardian's contact details
+ * - Open a family to manage its students, statement and payments
+ */
+export default function FamiliesScreen() {
+  const db = useSQLiteContext();
+  const [families, setFamilies] = useState<FamilyListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Form state
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingFamily, setEditingFamily] = useState<Family | null>(null);
+  const [name, setName] = useState('');
+  const [guardianName, setGuardianName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [address, setAddress] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadFamilies();
+    }, [db])
+  );
+
+  const loadFamilies = async () => {
+    try {
+      setLoading(true);
+      setFamilies(await getFamilies(db));
+    } catch (error) {
+      console.error('Error loading families:', error);
+      Alert.alert('Error', 'Failed to load families');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (family?: Family) => {
+    setEditingFamily(family ?? null);
+    setName(family?.name ?? '');
+    setGuardianName(family?.guardianName ?? '');
+    setPhone(family?.phone ?? '');
+    setEmail(family?.email ?? '');
+    setAddress(family?.address ?? '');
+    setModalVisible(true);
+  };
+
+  const saveFamily = async () => {
+    const family: Family = {
+      id: editingFamily?.id,
+      name,
+      guardianName,
+      phone,
+      email: email.trim() || undefined,
+      address: address.trim() || undefined
+    };
+
+    try {
+      setIsSaving(true);
+      if (editingFamily) {
+        await updateFamily(db, family);
+      } else {
+        await createFamily(db, family);
+      }
+      setModalVisible(false);
+      await loadFamilies();
+    } catch (error) {
+      console.error('Error saving family:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save family');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (family: FamilyListItem) => {
+    Alert.alert(
+      'Remove Family',
+      `Remove the ${family.name} family? Its students and their bills are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteFamily(db, family.id!);
+              await loadFamilies();
+            } catch (error) {
+              console.error('Error removing family:', error);
+              Alert.alert('Error', 'Failed to remove family');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderFamily = ({ item }: { item: FamilyListItem }) => (
+    <TouchableOpacity
+      style={styles.familyCard}
+      onPress={() => router.push({ pathname: '/family-details', params: { id: String(item.id) } } as any)}
+    >
+      <View style={styles.familyInfo}>
+        <Text style={styles.familyName}>{item.name}</Text>
+        <Text style={styles.familyDetails}>{item.guardianName} · {item.phone}</Text>
+        <Text style={styles.familyDetails}>
+          {item.studentCount} {item.studentCount === 1 ? 'student' : 'students'}
+        </Text>
+      </View>
+      <View style={styles.familyActions}>
+        <Text style={[styles.balance, item.balance > 0 && styles.balanceOwed]}>{formatCurrency(item.balance)}</Text>
+        <View style={styles.iconRow}>
+          <TouchableOpacity onPress={() => openModal(item)} style={styles.iconButton}>
+            <Ionicons name="create" size={20} color={Colors.purple[500]} />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDelete(item)} style={styles.iconButton}>
+            <Ionicons name="trash" size={20} color={Colors.error.light} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Families" />
+      <View style={styles.container}>
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#0000ff" />
+          </View>
+        ) : (
+          <FlatList
+            data={families}
+            renderItem={renderFamily}
+            keyExtractor={(item) => `family-${item.id}`}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={
+              <View style={styles.emptyListContainer}>
+                <Text style={styles.emptyListText}>No families yet.</Text>
+              </View>
+            }
+          />
+        )}
+
+        <TouchableOpacity onPress={() => openModal()} style={styles.addButton}>
+          <Ionicons name="add" size={24} color="white" />
+        </TouchableOpacity>
+
+        {/* Family Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={modalVisible}
+          onRequestClose={() => setModalVisible(false)}
+        >
+          <Pressable style={styles.backdrop} onPress={() => setModalVisible(false)}>
+            <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+              <ScrollView>
+                <Text style={styles.modalTitle}>{editingFamily ? 'Edit Family' : 'New Family'}</Text>
+
+                <Text style={styles.inputLabel}>Family Name *</Text>
+                <TextInput style={styles.input} placeholder="e.g. Mensah" value={name} onChangeText={setName} />
+
+                <Text style={styles.inputLabel}>Guardian Name *</Text>
+                <TextInput style={styles.input} value={guardianName} onChangeText={setGuardianName} />
+
+                <Text style={styles.inputLabel}>Guardian Phone *</Text>
+                <TextInput style={styles.input} keyboardType="phone-pad" value={phone} onChangeText={setPhone} />
+
+                <Text style={styles.inputLabel}>Guardian Email</Text>
+                <TextInput
+                  style={styles.input}
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  value={email}
+                  onChangeText={setEmail}
+                />
+
+                <Text style={styles.inputLabel}>Address</Text>
+                <TextInput style={styles.input} value={address} onChangeText={setAddress} />
+
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity onPress={() => setModalVisible(false)} style={styles.cancelButton}>
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={saveFamily} style={styles.saveButton} disabled={isSaving}>
+                    {isSaving ? (
+                      <ActivityIndicator size="small" color="white" />
+                    ) : (
+                      <Text style={styles.saveButtonText}>Save</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </Pressable>
+          </Pressable>
+        </Modal>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    padding: 16,
+    paddingBottom: 90,
+  },
+  familyCard: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  familyInfo: {
+    flex: 1,
+  },
+  familyName: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  familyDetails: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  familyActions: {
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+  },
+  balance: {
+    fontSize: 14,
+    fontFamily: 'SemiBold',
+    color: Colors.success.light,
+  },
+  balanceOwed: {
+    color: Colors.error.light,
+  },
+  iconRow: {
+    flexDirection: 'row',
+  },
+  iconButton: {
+    padding: 6,
+    marginLeft: 4,
+  },
+  emptyListContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyListText: {
+    fontSize: 16,
+    color: Colors.info['dark'],
+    textAlign: 'center',
+    fontFamily: 'Regular',
+  },
+  addButton: {
+    backgroundColor: '#28a745',
+    padding: 15,
+    borderRadius: 30,
+    position: 'absolute',
+    bottom: 20,
+    right: 20,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '90%',
+    maxHeight: '90%',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 5,
+  },
+  input: {
+    width: '100%',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 15,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#ccc',
+    padding: 12,
+    borderRadius: 5,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: Colors.success['dark'],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
@@ -0,0 +1,499 @@
+// app/(admin)/family-details.tsx
+import AdminHeader from '@/components/AdminHeader';
+import {
+  addStudentToFamily,
+  getFamilyStatement,
+  previewFamilyPaymentAllocation,
+  recordFamilyPayment,
+  removeStudentFromFamily
+} from '@/lib/operations/families';
+import { searchStudents } from '@/lib/operations/students';
+import { formatCurrency } from '@/utils/formatters';
+import { formatMoneyInput, parseMoney } from '@/utils/money';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect } from '@react-navigation/native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { FamilyPaymentAllocation, FamilyStatement, Payment, Student } from '../../lib/db/schema';
+
+const PAYMENT_METHODS: NonNullable<Payment['method']>[] = ['cash', 'transfer', 'check', 'card', 'other'];
+
+/**
+ * Family detail screen:
+ * the guardian's contact details, the siblings with what each owes,
+ * and one payment from the guardian split across the siblings' open bills
+ */
+export default function FamilyDetailsScreen() {
+  const db = useSQLiteContext();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [statement, setStatement] = useState<FamilyStatement | null>(null);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [selectedStudentId, setSelectedStudentId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Payment form state
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<NonNullable<Payment['method']>>('cash');
+  const [reference, setReference] = useState('');
+  const [allocations, setAllocations] = useState<FamilyPaymentAllocation[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadFamily();
+    }, [db, id])
+  );
+
+  const loadFamily = async () => {
+    try {
+      setLoading(true);
+      const [familyStatement, studentList] = await Promise.all([
+        getFamilyStatement(db, Number(id)),
+        searchStudents(db, { searchOptions: { query: '', fields: [], sortBy: 'firstname', sortOrder: 'asc' } })
+      ]);
+      setStatement(familyStatement);
+      setStudents(studentList.data);
+    } catch (error) {
+      console.error('Error loading family:', error);
+      Alert.alert('Error', 'Failed to load family');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddStudent = async () => {
+    if (!selectedStudentId) {
+      Alert.alert('Error', 'Please select a student to add.');
+      return;
+    }
+
+    try {
+      await addStudentToFamily(db, Number(id), selectedStudentId);
+      setSelectedStudentId(null);
+      setAllocations([]);
+      await loadFamily();
+    } catch (error) {
+      console.error('Error adding student to family:', error);
+      Alert.alert('Error', 'Failed to add student to family');
+    }
+  };
+
+  const handleRemoveStudent = (student: Student) => {
+    Alert.alert(
+      'Remove Student',
+      `Remove ${student.firstname} ${student.othernames} from this family? Their bills are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeStudentFromFamily(db, student.id!);
+              setAllocations([]);
+              await loadFamily();
+            } catch (error) {
+              console.error('Error removing student from family:', error);
+              Alert.alert('Error', 'Failed to remove student from family');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handlePreview = async () => {
+    const value = parseMoney(amount);
+    if (value === null || value <= 0) {
+      Alert.alert('Error', 'Please enter an amount greater than zero.');
+      return;
+    }
+
+    try {
+      setAllocations(await previewFamilyPaymentAllocation(db, Number(id), value));
+    } catch (error) {
+      console.error('Error previewing family payment:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to split payment');
+    }
+  };
+
+  const handleRecordPayment = async () => {
+    try {
+      setIsSaving(true);
+      const payments = await recordFamilyPayment(db, Number(id), {
+        amount: parseMoney(amount) ?? NaN,
+        method,
+        reference: reference.trim() || undefined,
+        note: `Family payment from ${statement?.family.guardianName}`
+      });
+      Alert.alert(
+        'Payment Recorded',
+        `Recorded ${payments.length} ${payments.length === 1 ? 'payment' : 'payments'}: ` +
+          payments.map(payment => payment.receiptNumber).join(', ')
+      );
+      setAmount('');
+      setReference('');
+      setAllocations([]);
+      await loadFamily();
+    } catch (error) {
+      console.error('Error recording family payment:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to record payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (loading && !statement) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Family" />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007BFF" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!statement) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Family" />
+        <View style={styles.centered}>
+          <Text style={styles.emptyText}>Family not found.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const { family } = statement;
+  const memberIds = statement.statements.map(entry => entry.student.id);
+  const availableStudents = students.filter(student => !memberIds.includes(student.id));
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title={`${family.name} Family`} />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {/* Guardian */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{family.guardianName}</Text>
+          <Text style={styles.detailText}>{family.phone}</Text>
+          {family.email ? <Text style={styles.detailText}>{family.email}</Text> : null}
+          {family.address ? <Text style={styles.detailText}>{family.address}</Text> : null}
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>Family balance</Text>
+            <Text style={[styles.totalValue, statement.closingBalance > 0 && styles.owed]}>
+              {formatCurrency(statement.closingBalance)}
+            </Text>
+          </View>
+        </View>
+
+        {/* Students */}
+        <Text style={styles.sectionTitle}>Students</Text>
+        <View style={styles.card}>
+          {statement.statements.length === 0 ? (
+            <Text style={styles.emptyText}>No students in this family yet.</Text>
+          ) : (
+            statement.statements.map(({ student, closingBalance }) => (
+              <View key={student.id} style={styles.memberRow}>
+                <TouchableOpacity
+                  style={styles.memberInfo}
+                  onPress={() => router.push({ pathname: '/student-details', params: { id: String(student.id) } } as any)}
+                >
+                  <Text style={styles.memberName}>{student.firstname} {student.othernames}</Text>
+                  <Text style={[styles.detailText, closingBalance > 0 && styles.owed]}>
+                    Balance {formatCurrency(closingBalance)}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => handleRemoveStudent(student)} style={styles.iconButton}>
+                  <Ionicons name="remove-circle" size={22} color={Colors.error.light} />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={selectedStudentId}
+              onValueChange={(value) => setSelectedStudentId(value)}
+              style={styles.picker}
+            >
+              <Picker.Item label="Select a student to add" value={null} />
+              {availableStudents.map(student => (
+                <Picker.Item
+                  key={student.id}
+                  label={`${student.firstname} ${student.othernames}`}
+                  value={student.id}
+                />
+              ))}
+            </Picker>
+          </View>
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleAddStudent}>
+            <Text style={styles.secondaryButtonText}>Add to Family</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Family payment */}
+        <Text style={styles.sectionTitle}>Family Payment</Text>
+        <View style={styles.card}>
+          <Text style={styles.helpText}>
+            One payment is split across the students&apos; open bills, the bill due soonest first. Each bill gets its own receipt.
+          </Text>
+
+          <Text style={styles.inputLabel}>Amount *</Text>
+          <TextInput
+            style={styles.input}
+            keyboardType="decimal-pad"
+            placeholder={formatMoneyInput(0)}
+            value={amount}
+            onChangeText={(value) => {
+              setAmount(value);
+              setAllocations([]);
+            }}
+          />
+
+          <Text style={styles.inputLabel}>Method</Text>
+          <View style={styles.chipRow}>
+            {PAYMENT_METHODS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, method === option && styles.chipActive]}
+                onPress={() => setMethod(option)}
+              >
+                <Text style={[styles.chipText, method === option && styles.chipTextActive]}>{option}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.inputLabel}>Reference</Text>
+          <TextInput style={styles.input} value={reference} onChangeText={setReference} />
+
+          {allocations.length === 0 ? (
+            <TouchableOpacity style={styles.secondaryButton} onPress={handlePreview}>
+              <Text style={styles.secondaryButtonText}>Preview Split</Text>
+            </TouchableOpacity>
+          ) : (
+            <>
+              {allocations.map(allocation => (
+                <View key={allocation.billId} style={styles.allocationRow}>
+                  <View style={styles.memberInfo}>
+                    <Text style={styles.memberName}>{allocation.studentName}</Text>
+                    <Text style={styles.detailText}>
+                      {allocation.billName}
+                      {allocation.dueDate ? ` · due ${allocation.dueDate.slice(0, 10)}` : ''}
+                      {` · owes ${formatCurrency(allocation.balance)}`}
+                    </Text>
+                  </View>
+                  <Text style={styles.allocationAmount}>{formatCurrency(allocation.amount)}</Text>
+                </View>
+              ))}
+              <TouchableOpacity style={styles.primaryButton} onPress={handleRecordPayment} disabled={isSaving}>
+                {isSaving ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Record Payment</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 8,
+  },
+  detailText: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  helpText: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: Colors.info['dark'],
+    marginBottom: 12,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    marginTop: 12,
+    paddingTop: 12,
+  },
+  totalLabel: {
+    fontSize: 15,
+    fontFamily: 'Medium',
+    color: '#333',
+  },
+  totalValue: {
+    fontSize: 15,
+    fontFamily: 'Bold',
+    color: Colors.success.light,
+  },
+  owed: {
+    color: Colors.error.light,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 15,
+    fontFamily: 'Medium',
+    color: '#333',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginTop: 12,
+    marginBottom: 10,
+  },
+  picker: {
+    height: 50,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 5,
+  },
+  input: {
+    width: '100%',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 15,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 15,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: Colors.purple[500],
+  },
+  chipText: {
+    color: '#333',
+    fontFamily: 'Medium',
+    textTransform: 'capitalize',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  allocationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  allocationAmount: {
+    fontSize: 15,
+    fontFamily: 'SemiBold',
+    color: '#333',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: Colors.purple[500],
+    padding: 10,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: Colors.purple[500],
+    fontSize: 15,
+    fontFamily: 'Medium',
+  },
+  primaryButton: {
+    backgroundColor: Colors.success['dark'],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
@@ -1,16 +1,182 @@
 // app/(admin)/index.tsx
 import AdminHeader from '@/components/AdminHeader';
-import React from 'react';
-import { SafeAreaView, StyleSheet, Text, View } from 'react-native';
+import { getDashboardSummary } from '@/lib/operations/reports';
+import { formatCurrency } from '@/utils/formatters';
+import { Colors } from '@/utils/styles';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { DashboardSummary } from '../../lib/db/schema';
 
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/**
+ * Home dashboard
+ * Shows billed, collected and outstanding totals for the current term,
+ * collection rate per department, and the term's top debtors and bills due this week
+ */
 export default function HomeScreen() {
+  const db = useSQLiteContext();
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSummary();
+    }, [db])
+  );
+
+  const loadSummary = async () => {
+    try {
+      const result = await getDashboardSummary(db);
+      setSummary(result);
+      setError(null);
+    } catch (error) {
+      console.error('Error loading dashboard:', error);
+      setError('Failed to load dashboard');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadSummary();
+    setRefreshing(false);
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Home" />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={Colors.purple[500]} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !summary) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Home" />
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const termRate = summary.totalBilled > 0 ? summary.totalCollected / summary.totalBilled : 0;
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <AdminHeader title="Home" />
-      <View style={styles.container}>
-        <Text style={styles.title}>Home Screen</Text>
-        <Text>Welcome to the admin panel</Text>
-      </View>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.contentContainer}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {/* Term Totals */}
+        <Text style={styles.termTitle}>
+          {summary.currentTerm ? `${summary.currentTerm.name} ${summary.currentTerm.academicYearName}` : 'No term set up yet'}
+        </Text>
+        <View style={styles.totalsRow}>
+          <View style={styles.totalCard}>
+            <Text style={styles.totalLabel}>Billed</Text>
+            <Text style={styles.totalValue}>{formatCurrency(summary.totalBilled)}</Text>
+          </View>
+          <View style={styles.totalCard}>
+            <Text style={styles.totalLabel}>Collected</Text>
+            <Text style={[styles.totalValue, styles.collectedText]}>{formatCurrency(summary.totalCollected)}</Text>
+            <Text style={styles.totalMeta}>{formatRate(termRate)}</Text>
+          </View>
+          <View style={styles.totalCard}>
+            <Text style={styles.totalLabel}>Outstanding</Text>
+            <Text style={[styles.totalValue, styles.outstandingText]}>{formatCurrency(summary.totalOutstanding)}</Text>
+          </View>
+        </View>
+
+        {/* Collection Rate per Department */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Collection by Department</Text>
+          {summary.departments.length === 0 ? (
+            <Text style={styles.emptyText}>No departments this term.</Text>
+          ) : (
+            summary.departments.map(department => (
+              <View key={department.departmentId} style={styles.departmentRow}>
+                <View style={styles.departmentHeader}>
+                  <Text style={styles.rowTitle}>{department.departmentName}</Text>
+                  <Text style={styles.rowValue}>{formatRate(department.collectionRate)}</Text>
+                </View>
+                <View style={styles.progressTrack}>
+                  <View style={[styles.progressFill, { width: `${Math.min(department.collectionRate, 1) * 100}%` }]} />
+                </View>
+                <Text style={styles.rowMeta}>
+                  {formatCurrency(department.totalPaid)} of {formatCurrency(department.totalBilled)} · {department.activeEnrollments} enrolled
+                </Text>
+              </View>
+            ))
+          )}
+        </View>
+
+        {/* Top Debtors */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Top Debtors</Text>
+          {summary.topDebtors.length === 0 ? (
+            <Text style={styles.emptyText}>No outstanding balances this term.</Text>
+          ) : (
+            summary.topDebtors.map(debtor => (
+              <TouchableOpacity
+                key={debtor.studentId}
+                style={styles.listRow}
+                onPress={() => router.push({ pathname: '/student-details', params: { id: debtor.studentId } } as any)}
+              >
+                <View style={styles.listInfo}>
+                  <Text style={styles.rowTitle}>{debtor.studentName}</Text>
+                  <Text style={styles.rowMeta}>{debtor.billCount} unpaid {debtor.billCount === 1 ? 'bill' : 'bills'}</Text>
+                </View>
+                <Text style={[styles.rowValue, styles.outstandingText]}>{formatCurrency(debtor.amountDue)}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+
+        {/* Due This Week */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Due This Week</Text>
+          {summary.dueThisWeek.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing due in the next 7 days.</Text>
+          ) : (
+            summary.dueThisWeek.map(bill => (
+              <TouchableOpacity
+                key={bill.billId}
+                style={styles.listRow}
+                onPress={() => router.push({ pathname: '/bill-details', params: { id: bill.billId } } as any)}
+              >
+                <View style={styles.listInfo}>
+                  <Text style={styles.rowTitle}>{bill.studentName}</Text>
+                  <Text style={styles.rowMeta}>{bill.billName} · due {bill.dueDate?.slice(0, 10)}</Text>
+                </View>
+                <Text style={styles.rowValue}>{formatCurrency(bill.amountDue)}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+        </View>
+      </ScrollView>
     </SafeAreaView>
   );
 }
@@ -22,13 +188,126 @@ const styles = StyleSheet.create({
   },
   container: {
     flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
     justifyContent: 'center',
     alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    fontFamily: 'Medium',
+    color: Colors.error.light,
+    textAlign: 'center',
+  },
+  termTitle: {
+    fontSize: 18,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    marginBottom: 12,
+  },
+  totalCard: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginRight: 8,
+    elevation: 2,
+  },
+  totalLabel: {
+    fontSize: 12,
+    fontFamily: 'Medium',
+    color: '#666',
+    marginBottom: 4,
+  },
+  totalValue: {
+    fontSize: 15,
+    fontFamily: 'Bold',
+    color: '#333',
+  },
+  totalMeta: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  collectedText: {
+    color: Colors.success.light,
+  },
+  outstandingText: {
+    color: Colors.error.light,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
     padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 8,
+  },
+  departmentRow: {
+    marginBottom: 12,
+  },
+  departmentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.gray[200],
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: Colors.purple[500],
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  listInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 14,
+    fontFamily: 'SemiBold',
+    color: '#333',
+  },
+  rowValue: {
+    fontSize: 14,
+    fontFamily: 'SemiBold',
+    color: '#333',
   },
-  title: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    marginBottom: 16,
+  rowMeta: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
   },
-});
\ No newline at end of file
+});
@@ -0,0 +1,523 @@
+// app/(admin)/late-fees.tsx
+import AdminHeader from '@/components/AdminHeader';
+import { getAllDepartments } from '@/lib/operations/departments';
+import {
+  applyLateFees,
+  createLateFeeRule,
+  deleteLateFeeRule,
+  getLateFeeRules,
+  updateLateFeeRule
+} from '@/lib/operations/late-fees';
+import { refreshOverdueBills } from '@/lib/operations/payments';
+import { getCurrentSchoolSettings } from '@/lib/operations/settings';
+import { formatCurrency } from '@/utils/formatters';
+import { formatMoneyInput, parseMoney } from '@/utils/money';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect } from '@react-navigation/native';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { Department, LateFeeRule } from '../../lib/db/schema';
+
+/**
+ * Late Fee Rules Screen
+ * Features:
+ * - List, add, edit and remove late fee rules
+ * - Rules are school-wide or for one department
+ * - Charge due late fees now instead of waiting for the next app start
+ */
+export default function LateFeesScreen() {
+  const db = useSQLiteContext();
+  const [rules, setRules] = useState<LateFeeRule[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const { lateFeePolicy } = getCurrentSchoolSettings();
+
+  // Form state
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingRule, setEditingRule] = useState<LateFeeRule | null>(null);
+  const [name, setName] = useState('');
+  const [type, setType] = useState<LateFeeRule['type']>('flat');
+  const [amount, setAmount] = useState('');
+  const [graceDays, setGraceDays] = useState('30');
+  const [maxAmount, setMaxAmount] = useState('');
+  const [departmentId, setDepartmentId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRules();
+    }, [db])
+  );
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      const [ruleList, departmentList] = await Promise.all([getLateFeeRules(db), getAllDepartments(db)]);
+      setRules(ruleList);
+      setDepartments(departmentList);
+    } catch (error) {
+      console.error('Error loading late fee rules:', error);
+      Alert.alert('Error', 'Failed to load late fee rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (rule?: LateFeeRule) => {
+    setEditingRule(rule ?? null);
+    setName(rule?.name ?? '');
+    setType(rule?.type ?? 'flat');
+    setAmount(rule ? (rule.type === 'flat' ? formatMoneyInput(rule.amount) : String(rule.amount)) : '');
+    setGraceDays(rule ? String(rule.graceDays) : '30');
+    setMaxAmount(rule?.maxAmount != null ? formatMoneyInput(rule.maxAmount) : '');
+    setDepartmentId(rule?.departmentId ?? null);
+    setModalVisible(true);
+  };
+
+  const saveRule = async () => {
+    const rule: LateFeeRule = {
+      id: editingRule?.id,
+      name,
+      type,
+      amount: (type === 'flat' ? parseMoney(amount) : parseFloat(amount)) ?? NaN,
+      graceDays: Number(graceDays),
+      maxAmount: maxAmount.trim() ? parseMoney(maxAmount) ?? NaN : null,
+      departmentId
+    };
+
+    try {
+      setIsSaving(true);
+      if (editingRule) {
+        await updateLateFeeRule(db, rule);
+      } else {
+        await createLateFeeRule(db, rule);
+      }
+      setModalVisible(false);
+      await loadRules();
+    } catch (error) {
+      console.error('Error saving late fee rule:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save late fee rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = (rule: LateFeeRule) => {
+    Alert.alert(
+      'Remove Rule',
+      `Remove "${rule.name}"? Fees it has already charged stay on their bills.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteLateFeeRule(db, rule.id!);
+              await loadRules();
+            } catch (error) {
+              console.error('Error removing late fee rule:', error);
+              Alert.alert('Error', 'Failed to remove late fee rule');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const handleApplyNow = async () => {
+    try {
+      setIsApplying(true);
+      await refreshOverdueBills(db);
+      const fees = await applyLateFees(db);
+      const total = fees.reduce((sum, fee) => sum + fee.amount, 0);
+      Alert.alert(
+        'Late Fees',
+        fees.length === 0
+          ? 'No late fees are due.'
+          : `Charged ${fees.length} late ${fees.length === 1 ? 'fee' : 'fees'} totalling ${formatCurrency(total)}.`
+      );
+    } catch (error) {
+      console.error('Error applying late fees:', error);
+      Alert.alert('Error', 'Failed to apply late fees');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const describeRule = (rule: LateFeeRule) => {
+    const charge = rule.type === 'percentage' ? `${rule.amount}% of balance` : formatCurrency(rule.amount);
+    const cap = rule.maxAmount != null ? `, max ${formatCurrency(rule.maxAmount)}` : '';
+    return `${charge}${cap} after ${rule.graceDays} days overdue`;
+  };
+
+  const departmentName = (id?: number | null) =>
+    id == null ? 'All departments' : departments.find(dept => dept.id === id)?.name ?? `Department #${id}`;
+
+  const renderRule = ({ item }: { item: LateFeeRule }) => (
+    <TouchableOpacity style={styles.ruleCard} onPress={() => openModal(item)}>
+      <View style={styles.ruleInfo}>
+        <Text style={styles.ruleName}>{item.name}</Text>
+        <Text style={styles.ruleDetails}>{describeRule(item)}</Text>
+        <Text style={styles.ruleDetails}>{departmentName(item.departmentId)}</Text>
+      </View>
+      <TouchableOpacity onPress={() => handleDelete(item)} style={styles.deleteButton}>
+        <Ionicons name="trash" size={20} color={Colors.error.light} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Late Fees" />
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.helpText}>
+            A department&apos;s own rules replace the school-wide rules for its bills. Each rule is charged once per bill.
+          </Text>
+          {lateFeePolicy === 'off' ? (
+            <Text style={styles.helpText}>Late fees are switched off in Settings, so none are charged.</Text>
+          ) : (
+            <>
+              {lateFeePolicy === 'automatic' && (
+                <Text style={styles.helpText}>Late fees are also charged automatically whenever the app is opened.</Text>
+              )}
+              <TouchableOpacity style={styles.applyButton} onPress={handleApplyNow} disabled={isApplying}>
+                {isApplying ? (
+                  <ActivityIndicator size="small" color="white" />
+                ) : (
+                  <Text style={styles.applyButtonText}>Apply Late Fees Now</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#0000ff" />
+          </View>
+        ) : (
+          <FlatList
+            data={rules}
+            renderItem={renderRule}
+            keyExtractor={(item) => `rule-${item.id}`}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={
+              <View style={styles.emptyListContainer}>
+                <Text style={styles.emptyListText}>No late fee rules yet.</Text>
+              </View>
+            }
+          />
+        )}
+
+        <TouchableOpacity onPress={() => openModal()} style={styles.addButton}>
+          <Ionicons name="add" size={24} color="white" />
+        </TouchableOpacity>
+
+        {/* Rule Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={modalVisible}
+          onRequestClose={() => setModalVisible(false)}
+        >
+          <Pressable style={styles.backdrop} onPress={() => setModalVisible(false)}>
+            <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+              <ScrollView>
+                <Text style={styles.modalTitle}>{editingRule ? 'Edit Rule' : 'New Rule'}</Text>
+
+                <Text style={styles.inputLabel}>Name *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. 30 day penalty"
+                  value={name}
+                  onChangeText={setName}
+                />
+
+                <Text style={styles.inputLabel}>Charge</Text>
+                <View style={styles.chipRow}>
+                  {(['flat', 'percentage'] as const).map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.chip, type === option && styles.chipActive]}
+                      onPress={() => setType(option)}
+                    >
+                      <Text style={[styles.chipText, type === option && styles.chipTextActive]}>
+                        {option === 'flat' ? 'Flat amount' : 'Percentage'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={styles.inputLabel}>{type === 'flat' ? 'Amount *' : 'Percentage of balance *'}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={type === 'flat' ? formatMoneyInput(0) : 'e.g. 5'}
+                  keyboardType="decimal-pad"
+                  value={amount}
+                  onChangeText={setAmount}
+                />
+
+                <Text style={styles.inputLabel}>Grace Period (days)</Text>
+                <TextInput
+                  style={styles.input}
+                  keyboardType="number-pad"
+                  value={graceDays}
+                  onChangeText={setGraceDays}
+                />
+
+                <Text style={styles.inputLabel}>Maximum Fee</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="No maximum"
+                  keyboardType="decimal-pad"
+                  value={maxAmount}
+                  onChangeText={setMaxAmount}
+                />
+
+                <Text style={styles.inputLabel}>Applies To</Text>
+                <View style={styles.pickerContainer}>
+                  <Picker
+                    selectedValue={departmentId}
+                    onValueChange={(value) => setDepartmentId(value)}
+                    style={styles.picker}
+                  >
+                    <Picker.Item label="All departments" value={null} />
+                    {departments.map(dept => (
+                      <Picker.Item key={dept.id} label={`${dept.name} (${dept.term} ${dept.year})`} value={dept.id} />
+                    ))}
+                  </Picker>
+                </View>
+
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity onPress={() => setModalVisible(false)} style={styles.cancelButton}>
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={saveRule} style={styles.saveButton} disabled={isSaving}>
+                    {isSaving ? (
+                      <ActivityIndicator size="small" color="white" />
+                    ) : (
+                      <Text style={styles.saveButtonText}>Save</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </Pressable>
+          </Pressable>
+        </Modal>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  helpText: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginBottom: 10,
+  },
+  applyButton: {
+    backgroundColor: Colors.purple[500],
+    padding: 10,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  applyButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'Medium',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    padding: 16,
+    paddingBottom: 90,
+  },
+  ruleCard: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  ruleInfo: {
+    flex: 1,
+  },
+  ruleName: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  ruleDetails: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 8,
+    justifyContent: 'center',
+  },
+  emptyListContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyListText: {
+    fontSize: 16,
+    color: Colors.info['dark'],
+    textAlign: 'center',
+    fontFamily: 'Regular',
+  },
+  addButton: {
+    backgroundColor: '#28a745',
+    padding: 15,
+    borderRadius: 30,
+    position: 'absolute',
+    bottom: 20,
+    right: 20,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '90%',
+    maxHeight: '90%',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 5,
+  },
+  input: {
+    width: '100%',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 15,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginBottom: 15,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: Colors.purple[500],
+  },
+  chipText: {
+    color: '#333',
+    fontFamily: 'Medium',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 10,
+  },
+  picker: {
+    height: 50,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#ccc',
+    padding: 12,
+    borderRadius: 5,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: Colors.success['dark'],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
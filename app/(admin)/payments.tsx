@@ -0,0 +1,551 @@
+// app/(admin)/payments.tsx
+import AdminHeader from '@/components/AdminHeader';
+import TermFilter from '@/components/TermFilter';
+import { getFilteredBills } from '@/lib/operations/bills';
+import { sharePdf } from '@/lib/documents/export';
+import { renderReceiptHtml } from '@/lib/documents/receipt';
+import { getBillBalance, getPaymentWithDetails, recordPayment } from '@/lib/operations/payments';
+import { searchStudents } from '@/lib/operations/students';
+import { getCurrentTerm, getTerms } from '@/lib/operations/terms';
+import { useSession } from '@/lib/session/provider';
+import { formatCurrency } from '@/utils/formatters';
+import { parseMoney } from '@/utils/money';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { useFocusEffect } from '@react-navigation/native';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Keyboard,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { CheckBox } from 'react-native-elements';
+import { Bill, BillBalance, Payment, Student, TermWithYear } from '../../lib/db/schema';
+
+type OpenBill = Bill & { balance: BillBalance };
+
+const PAYMENT_METHODS: NonNullable<Payment['method']>[] = ['cash', 'transfer', 'check', 'card', 'other'];
+
+/**
+ * Payment recording screen
+ * Features:
+ * - Pick a student and see their open bills with balances, for the current term or any other
+ * - Record a payment against a bill
+ * - Live remaining balance, with overpayment only when accepted as credit
+ * - Received by filled in with the signed-in user's name
+ */
+export default function PaymentsScreen() {
+  const db = useSQLiteContext();
+  const { user } = useSession();
+
+  const [students, setStudents] = useState<Student[]>([]);
+  const [studentFilter, setStudentFilter] = useState('');
+  const [selectedStudentId, setSelectedStudentId] = useState<number | null>(null);
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [termFilter, setTermFilter] = useState<number | null>(null);
+  const [openBills, setOpenBills] = useState<OpenBill[]>([]);
+  const [selectedBillId, setSelectedBillId] = useState<number | null>(null);
+  const [initialLoading, setInitialLoading] = useState(true);
+  const [billsLoading, setBillsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Form state
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<NonNullable<Payment['method']>>('cash');
+  const [reference, setReference] = useState('');
+  const [receivedBy, setReceivedBy] = useState(user?.displayName ?? '');
+  const [note, setNote] = useState('');
+  const [allowCredit, setAllowCredit] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadStudents();
+    }, [db])
+  );
+
+  useEffect(() => {
+    loadTerms();
+  }, [db]);
+
+  useEffect(() => {
+    if (selectedStudentId) {
+      loadOpenBills(selectedStudentId);
+    } else {
+      setOpenBills([]);
+    }
+    setSelectedBillId(null);
+  }, [selectedStudentId, termFilter]);
+
+  const loadTerms = async () => {
+    try {
+      setTerms(await getTerms(db));
+      const currentTerm = await getCurrentTerm(db);
+      setTermFilter(currentTerm?.id ?? null);
+    } catch (error) {
+      console.error('Error loading terms:', error);
+    }
+  };
+
+  const loadStudents = async () => {
+    try {
+      const result = await searchStudents(db, {
+        searchOptions: { query: '', fields: [], sortBy: 'firstname', sortOrder: 'asc' }
+      });
+      setStudents(result.data);
+    } catch (error) {
+      console.error('Error loading students:', error);
+      Alert.alert('Error', 'Failed to load students');
+    } finally {
+      setInitialLoading(false);
+    }
+  };
+
+  const loadOpenBills = async (studentId: number) => {
+    try {
+      setBillsLoading(true);
+      const bills = await getFilteredBills(db, { studentId, termId: termFilter ?? undefined });
+      const unsettled = bills.filter(bill => bill.status !== 'paid' && bill.status !== 'cancelled');
+
+      const withBalances = await Promise.all(
+        unsettled.map(async (bill) => {
+          const balance = await getBillBalance(db, bill.id!);
+          return { ...bill, balance: balance! };
+        })
+      );
+      setOpenBills(withBalances);
+    } catch (error) {
+      console.error('Error loading bills:', error);
+      Alert.alert('Error', 'Failed to load bills for this student');
+    } finally {
+      setBillsLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setAmount('');
+    setMethod('cash');
+    setReference('');
+    setNote('');
+    setAllowCredit(false);
+  };
+
+  const filteredStudents = students.filter(student =>
+    `${student.firstname} ${student.othernames} ${student.phone}`
+      .toLowerCase()
+      .includes(studentFilter.trim().toLowerCase())
+  );
+
+  const selectedBill = openBills.find(bill => bill.id === selectedBillId) || null;
+  const paymentAmount = parseMoney(amount) ?? 0;
+  const hasValidAmount = paymentAmount > 0;
+  const remainingBalance = selectedBill
+    ? selectedBill.balance.balance - (hasValidAmount ? paymentAmount : 0)
+    : 0;
+  const isOverpayment = !!selectedBill && hasValidAmount && remainingBalance < 0;
+  const canSave = !!selectedBill && hasValidAmount && (!isOverpayment || allowCredit) && !isSaving;
+
+  const shareReceipt = async (paymentId: number) => {
+    try {
+      const payment = await getPaymentWithDetails(db, paymentId);
+      if (!payment) return;
+      await sharePdf(renderReceiptHtml(payment), payment.receiptNumber ?? `receipt-${paymentId}`);
+    } catch (error) {
+      console.error('Error sharing receipt:', error);
+      Alert.alert('Error', 'Failed to share receipt');
+    }
+  };
+
+  const handleRecordPayment = async () => {
+    Keyboard.dismiss();
+
+    if (!selectedBill || !selectedStudentId) {
+      Alert.alert('Error', 'Please select a bill');
+      return;
+    }
+    if (!hasValidAmount) {
+      Alert.alert('Error', 'Please enter a valid amount');
+      return;
+    }
+    if (isOverpayment && !allowCredit) {
+      Alert.alert('Error', 'Amount exceeds the outstanding balance');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const payment = await recordPayment(
+        db,
+        {
+          billId: selectedBill.id!,
+          amount: paymentAmount,
+          method,
+          reference: reference.trim() || undefined,
+          receivedBy: receivedBy.trim() || undefined,
+          note: note.trim() || undefined
+        },
+        { allowOverpayment: allowCredit }
+      );
+
+      Alert.alert(
+        'Success',
+        `Payment of ${formatCurrency(paymentAmount)} recorded. Receipt ${payment.receiptNumber}.`,
+        [
+          { text: 'OK' },
+          { text: 'Share Receipt', onPress: () => shareReceipt(payment.id!) }
+        ]
+      );
+      resetForm();
+      await loadOpenBills(selectedStudentId);
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to record payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (initialLoading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Record Payment" />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Record Payment" />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {/* Student Selection */}
+        <Text style={styles.label}>Student</Text>
+        <TextInput
+          style={styles.input}
+          placeholder="Filter students by name or phone..."
+          value={studentFilter}
+          onChangeText={setStudentFilter}
+        />
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={selectedStudentId}
+            onValueChange={(value) => setSelectedStudentId(value)}
+            style={styles.picker}
+          >
+            <Picker.Item label="Select a student" value={null} />
+            {filteredStudents.map(student => (
+              <Picker.Item
+                key={student.id}
+                label={`${student.firstname} ${student.othernames}`}
+                value={student.id}
+              />
+            ))}
+          </Picker>
+        </View>
+
+        {/* Open Bills */}
+        {selectedStudentId && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Open Bills</Text>
+            <TermFilter terms={terms} selectedTermId={termFilter} onSelect={setTermFilter} allLabel="All terms" />
+            {billsLoading ? (
+              <ActivityIndicator size="small" color="#007AFF" />
+            ) : openBills.length === 0 ? (
+              <Text style={styles.emptyText}>
+                {termFilter ? 'This student has no open bills in this term.' : 'This student has no open bills.'}
+              </Text>
+            ) : (
+              openBills.map(bill => (
+                <TouchableOpacity
+                  key={bill.id}
+                  style={[styles.billCard, bill.id === selectedBillId && styles.billCardSelected]}
+                  onPress={() => setSelectedBillId(bill.id!)}
+                >
+                  <View style={styles.billInfo}>
+                    <Text style={styles.billName}>{bill.name}</Text>
+                    <Text style={styles.billDetails}>
+                      Total {formatCurrency(bill.balance.totalAmount)} · Paid {formatCurrency(bill.balance.totalPaid)}
+                    </Text>
+                    {bill.dueDate && <Text style={styles.billDetails}>Due {bill.dueDate.slice(0, 10)}</Text>}
+                  </View>
+                  <Text style={styles.billBalance}>{formatCurrency(bill.balance.balance)}</Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        )}
+
+        {/* Payment Form */}
+        {selectedBill && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Payment</Text>
+
+            <Text style={styles.label}>Amount *</Text>
+            <TextInput
+              style={[styles.input, isOverpayment && !allowCredit && styles.inputError]}
+              placeholder="Enter amount"
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="decimal-pad"
+            />
+
+            <View style={styles.balanceRow}>
+              <Text style={styles.balanceLabel}>Remaining balance</Text>
+              <Text style={[styles.balanceValue, remainingBalance < 0 && styles.creditValue]}>
+                {remainingBalance < 0
+                  ? `${formatCurrency(-remainingBalance)} credit`
+                  : formatCurrency(remainingBalance)}
+              </Text>
+            </View>
+
+            {isOverpayment && (
+              <CheckBox
+                title="Accept the excess as credit on this bill"
+                checked={allowCredit}
+                onPress={() => setAllowCredit(!allowCredit)}
+                containerStyle={styles.checkbox}
+              />
+            )}
+
+            <Text style={styles.label}>Method</Text>
+            <View style={styles.methodButtons}>
+              {PAYMENT_METHODS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.methodButton, method === option && styles.methodButtonActive]}
+                  onPress={() => setMethod(option)}
+                >
+                  <Text style={[styles.methodButtonText, method === option && styles.methodButtonTextActive]}>
+                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Reference</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Transaction or cheque number"
+              value={reference}
+              onChangeText={setReference}
+            />
+
+            <Text style={styles.label}>Received By</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Name of the receiving clerk"
+              value={receivedBy}
+              onChangeText={setReceivedBy}
+            />
+
+            <Text style={styles.label}>Note</Text>
+            <TextInput
+              style={[styles.input, styles.textArea]}
+              placeholder="Additional notes"
+              value={note}
+              onChangeText={setNote}
+              multiline
+              numberOfLines={3}
+            />
+
+            <TouchableOpacity
+              style={[styles.saveButton, !canSave && styles.disabledButton]}
+              onPress={handleRecordPayment}
+              disabled={!canSave}
+            >
+              {isSaving ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <>
+                  <Ionicons name="cash-outline" size={20} color="white" />
+                  <Text style={styles.saveButtonText}>Record Payment</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 6,
+    marginTop: 8,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#D1D1D6',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 16,
+    marginBottom: 8,
+  },
+  inputError: {
+    borderColor: '#F44336',
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#D1D1D6',
+    borderRadius: 8,
+    backgroundColor: '#fff',
+    marginBottom: 8,
+  },
+  picker: {
+    height: 50,
+  },
+  section: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    fontFamily: 'Regular',
+  },
+  billCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  billCardSelected: {
+    borderColor: Colors.purple[500],
+  },
+  billInfo: {
+    flex: 1,
+  },
+  billName: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+  },
+  billDetails: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  billBalance: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#007AFF',
+  },
+  balanceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  balanceLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#666',
+  },
+  balanceValue: {
+    fontSize: 18,
+    fontFamily: 'Bold',
+    color: '#333',
+  },
+  creditValue: {
+    color: Colors.warning.light,
+  },
+  checkbox: {
+    backgroundColor: 'transparent',
+    borderWidth: 0,
+    marginLeft: 0,
+    paddingLeft: 0,
+  },
+  methodButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  methodButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 4,
+    backgroundColor: '#e9e9ee',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  methodButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  methodButtonText: {
+    color: '#333',
+  },
+  methodButtonTextActive: {
+    color: '#fff',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.success.light,
+    padding: 14,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    marginLeft: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#a0a0a0',
+  },
+});
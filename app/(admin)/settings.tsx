@@ -0,0 +1,626 @@
+// app/(admin)/settings.tsx
+import AdminHeader from '@/components/AdminHeader';
+import TermFilter from '@/components/TermFilter';
+import { DEFAULT_DATABASE_NAME, getDatabaseName, setDatabaseName } from '@/lib/db/init';
+import { getSchoolSettings, updateSchoolSettings } from '@/lib/operations/settings';
+import { getTerms } from '@/lib/operations/terms';
+import { amountToWords, CurrencyFormat, formatCurrency } from '@/utils/formatters';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { formatReceiptNumber, LateFeePolicy, SchoolSettings, TermWithYear } from '../../lib/db/schema';
+
+const LATE_FEE_POLICIES: { label: string; value: LateFeePolicy; description: string }[] = [
+  { label: 'Off', value: 'off', description: 'Late fees are never charged.' },
+  { label: 'Manual', value: 'manual', description: 'Late fees are charged from the Late Fees screen.' },
+  { label: 'Automatic', value: 'automatic', description: 'Late fees are charged whenever the app is opened.' }
+];
+
+// Currencies schools using the app are likely to need; any other can be entered by hand
+const CURRENCY_PRESETS: { label: string; format: CurrencyFormat }[] = [
+  {
+    label: 'Ghana cedi',
+    format: {
+      currencyCode: 'GHS',
+      currencySymbol: 'GH₵',
+      symbolPosition: 'before',
+      thousandsSeparator: ',',
+      decimalSeparator: '.',
+      decimalPlaces: 2,
+      currencyName: 'Ghana cedi',
+      currencyNamePlural: 'Ghana cedis',
+      minorUnitName: 'pesewa',
+      minorUnitNamePlural: 'pesewas'
+    }
+  },
+  {
+    label: 'CFA franc (XOF)',
+    format: {
+      currencyCode: 'XOF',
+      currencySymbol: 'F CFA',
+      symbolPosition: 'after',
+      thousandsSeparator: ' ',
+      decimalSeparator: ',',
+      decimalPlaces: 0,
+      currencyName: 'CFA franc',
+      currencyNamePlural: 'CFA francs',
+      minorUnitName: '',
+      minorUnitNamePlural: ''
+    }
+  }
+];
+
+const THOUSANDS_SEPARATORS = [
+  { label: '1,000', value: ',' },
+  { label: '1.000', value: '.' },
+  { label: '1 000', value: ' ' },
+  { label: '1000', value: '' }
+];
+
+const DECIMAL_SEPARATORS = [
+  { label: '0.50', value: '.' },
+  { label: '0,50', value: ',' }
+];
+
+const DECIMAL_PLACES = [0, 2, 3];
+
+// Shown in the preview: one million two hundred and thirty-four thousand five hundred and sixty-seven minor units
+const PREVIEW_AMOUNT = 123456789;
+
+/**
+ * Settings Screen
+ * Features:
+ * - Set the school's name, logo and contact details shown on documents
+ * - Set receipt and invoice number prefixes, the default due date, late fee policy and current term
+ * - Choose the school's currency from a preset or enter its details, previewing amounts and amounts in words
+ * - Choose the database file this device opens
+ */
+export default function SettingsScreen() {
+  const db = useSQLiteContext();
+  const [settings, setSettings] = useState<SchoolSettings | null>(null);
+  const [dueDays, setDueDays] = useState('');
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [databaseName, setDatabaseNameText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    getSchoolSettings(db)
+      .then(loaded => {
+        setSettings(loaded);
+        setDueDays(loaded.defaultDueDays != null ? String(loaded.defaultDueDays) : '');
+      })
+      .catch(error => {
+        console.error('Error loading settings:', error);
+        Alert.alert('Error', 'Failed to load settings');
+      });
+    getTerms(db)
+      .then(setTerms)
+      .catch(error => console.error('Error loading terms:', error));
+    getDatabaseName().then(setDatabaseNameText);
+  }, [db]);
+
+  const update = (changes: Partial<SchoolSettings>) => {
+    setSettings(current => current && { ...current, ...changes });
+  };
+
+  const saveSettings = async () => {
+    if (!settings) return;
+
+    if (dueDays.trim() && !/^\d+$/.test(dueDays.trim())) {
+      Alert.alert('Error', 'Please enter the days until bills are due as a whole number.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const { id, updatedAt, ...changes } = settings;
+      setSettings(await updateSchoolSettings(db, {
+        ...changes,
+        schoolName: changes.schoolName.trim(),
+        schoolShortName: changes.schoolShortName.trim(),
+        schoolAddress: changes.schoolAddress.trim(),
+        schoolPhone: changes.schoolPhone.trim(),
+        receiptPrefix: changes.receiptPrefix.trim().toUpperCase(),
+        invoicePrefix: changes.invoicePrefix.trim().toUpperCase(),
+        defaultDueDays: dueDays.trim() ? Number(dueDays) : null
+      }));
+      Alert.alert('Saved', 'The settings have been saved.');
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const pickLogo = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: 'image/*', copyToCacheDirectory: true });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      const base64 = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.Base64 });
+      update({ schoolLogo: `data:${asset.mimeType ?? 'image/png'};base64,${base64}` });
+    } catch (error) {
+      console.error('Error reading logo:', error);
+      Alert.alert('Error', 'Failed to read the image');
+    }
+  };
+
+  const switchDatabase = async () => {
+    try {
+      const name = databaseName.trim();
+      await setDatabaseName(name);
+      Alert.alert(
+        'Data File Changed',
+        `The app will open ${name} the next time it starts. A file that does not exist yet starts empty; restore a backup into it if needed.`
+      );
+    } catch (error) {
+      console.error('Error changing data file:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to change the data file');
+    }
+  };
+
+  const renderChips = <T extends string | number>(
+    options: { label: string; value: T }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.label}
+          style={[styles.chip, selected === option.value && styles.chipActive]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={[styles.chipText, selected === option.value && styles.chipTextActive]}>{option.label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  if (!settings) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Settings" />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#0000ff" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Settings" />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>School</Text>
+
+          <Text style={styles.inputLabel}>Name *</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="As printed on receipts and invoices"
+            value={settings.schoolName}
+            onChangeText={text => update({ schoolName: text })}
+          />
+
+          <Text style={styles.inputLabel}>Short Name *</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Shown at the top of every screen, e.g. MEC"
+            maxLength={12}
+            value={settings.schoolShortName}
+            onChangeText={text => update({ schoolShortName: text })}
+          />
+
+          <Text style={styles.inputLabel}>Address</Text>
+          <TextInput
+            style={[styles.input, styles.multilineInput]}
+            multiline
+            value={settings.schoolAddress}
+            onChangeText={text => update({ schoolAddress: text })}
+          />
+
+          <Text style={styles.inputLabel}>Phone</Text>
+          <TextInput
+            style={styles.input}
+            keyboardType="phone-pad"
+            value={settings.schoolPhone}
+            onChangeText={text => update({ schoolPhone: text })}
+          />
+
+          <Text style={styles.inputLabel}>Logo</Text>
+          <View style={styles.logoRow}>
+            {settings.schoolLogo ? (
+              <Image source={{ uri: settings.schoolLogo }} style={styles.logo} resizeMode="contain" />
+            ) : (
+              <View style={[styles.logo, styles.logoPlaceholder]}>
+                <Ionicons name="image" size={28} color={Colors.gray[500]} />
+              </View>
+            )}
+            <TouchableOpacity style={styles.secondaryButton} onPress={pickLogo}>
+              <Text style={styles.secondaryButtonText}>{settings.schoolLogo ? 'Change' : 'Choose Image'}</Text>
+            </TouchableOpacity>
+            {settings.schoolLogo && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={() => update({ schoolLogo: null })}>
+                <Text style={styles.secondaryButtonText}>Remove</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Documents & Billing</Text>
+
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Text style={styles.inputLabel}>Receipt Prefix</Text>
+              <TextInput
+                style={styles.input}
+                autoCapitalize="characters"
+                maxLength={8}
+                value={settings.receiptPrefix}
+                onChangeText={text => update({ receiptPrefix: text })}
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Text style={styles.inputLabel}>Invoice Prefix</Text>
+              <TextInput
+                style={styles.input}
+                autoCapitalize="characters"
+                maxLength={8}
+                value={settings.invoicePrefix}
+                onChangeText={text => update({ invoicePrefix: text })}
+              />
+            </View>
+          </View>
+          <Text style={styles.helpText}>
+            e.g. {formatReceiptNumber(new Date().getFullYear(), 42, settings.receiptPrefix.toUpperCase())} and{' '}
+            {settings.invoicePrefix.toUpperCase()}-000042. Receipts already issued keep their numbers.
+          </Text>
+
+          <Text style={styles.inputLabel}>Days Until Bills Are Due</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Leave blank for no default due date"
+            keyboardType="number-pad"
+            value={dueDays}
+            onChangeText={setDueDays}
+          />
+
+          <Text style={styles.inputLabel}>Late Fees</Text>
+          {renderChips(LATE_FEE_POLICIES, settings.lateFeePolicy, value => update({ lateFeePolicy: value }))}
+          <Text style={styles.helpText}>
+            {LATE_FEE_POLICIES.find(policy => policy.value === settings.lateFeePolicy)?.description}
+          </Text>
+
+          <Text style={styles.inputLabel}>Current Term</Text>
+          <TermFilter
+            terms={terms}
+            selectedTermId={settings.currentTermId}
+            onSelect={termId => update({ currentTermId: termId })}
+            allLabel="By date"
+          />
+          <Text style={styles.helpText}>
+            By date uses the term running today. Terms are set up on the Terms screen.
+          </Text>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Currency</Text>
+
+          <Text style={styles.inputLabel}>Start from</Text>
+          <View style={styles.chipRow}>
+            {CURRENCY_PRESETS.map(preset => (
+              <TouchableOpacity
+                key={preset.format.currencyCode}
+                style={[styles.chip, settings.currencyCode === preset.format.currencyCode && styles.chipActive]}
+                onPress={() => update(preset.format)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    settings.currencyCode === preset.format.currencyCode && styles.chipTextActive
+                  ]}
+                >
+                  {preset.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Text style={styles.inputLabel}>Code</Text>
+              <TextInput
+                style={styles.input}
+                autoCapitalize="characters"
+                maxLength={3}
+                value={settings.currencyCode}
+                onChangeText={text => update({ currencyCode: text.toUpperCase() })}
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Text style={styles.inputLabel}>Symbol</Text>
+              <TextInput
+                style={styles.input}
+                value={settings.currencySymbol}
+                onChangeText={text => update({ currencySymbol: text })}
+              />
+            </View>
+          </View>
+
+          <Text style={styles.inputLabel}>Symbol position</Text>
+          {renderChips(
+            [
+              { label: 'Before the amount', value: 'before' as const },
+              { label: 'After the amount', value: 'after' as const }
+            ],
+            settings.symbolPosition,
+            value => update({ symbolPosition: value })
+          )}
+
+          <Text style={styles.inputLabel}>Thousands</Text>
+          {renderChips(THOUSANDS_SEPARATORS, settings.thousandsSeparator, value => update({ thousandsSeparator: value }))}
+
+          <Text style={styles.inputLabel}>Decimal places</Text>
+          {renderChips(
+            DECIMAL_PLACES.map(places => ({ label: String(places), value: places })),
+            settings.decimalPlaces,
+            value => update({ decimalPlaces: value })
+          )}
+          <Text style={styles.helpText}>
+            Cannot be changed once bills, payments, flat late fees or fixed discounts have been recorded, as every amount is stored in the smallest unit.
+          </Text>
+
+          {settings.decimalPlaces > 0 && (
+            <>
+              <Text style={styles.inputLabel}>Decimals</Text>
+              {renderChips(DECIMAL_SEPARATORS, settings.decimalSeparator, value => update({ decimalSeparator: value }))}
+            </>
+          )}
+
+          <View style={styles.row}>
+            <View style={styles.rowField}>
+              <Text style={styles.inputLabel}>Name</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Ghana cedi"
+                value={settings.currencyName}
+                onChangeText={text => update({ currencyName: text })}
+              />
+            </View>
+            <View style={styles.rowField}>
+              <Text style={styles.inputLabel}>Plural</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Ghana cedis"
+                value={settings.currencyNamePlural}
+                onChangeText={text => update({ currencyNamePlural: text })}
+              />
+            </View>
+          </View>
+
+          {settings.decimalPlaces > 0 && (
+            <View style={styles.row}>
+              <View style={styles.rowField}>
+                <Text style={styles.inputLabel}>Minor unit</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. pesewa"
+                  value={settings.minorUnitName}
+                  onChangeText={text => update({ minorUnitName: text })}
+                />
+              </View>
+              <View style={styles.rowField}>
+                <Text style={styles.inputLabel}>Plural</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. pesewas"
+                  value={settings.minorUnitNamePlural}
+                  onChangeText={text => update({ minorUnitNamePlural: text })}
+                />
+              </View>
+            </View>
+          )}
+
+          <View style={styles.preview}>
+            <Text style={styles.previewAmount}>{formatCurrency(PREVIEW_AMOUNT, settings)}</Text>
+            <Text style={styles.previewWords}>{amountToWords(PREVIEW_AMOUNT, settings)}</Text>
+          </View>
+        </View>
+
+        <TouchableOpacity style={styles.saveButton} onPress={saveSettings} disabled={isSaving}>
+          {isSaving ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.saveButtonText}>Save Settings</Text>
+          )}
+        </TouchableOpacity>
+
+        <View style={[styles.card, styles.dataFileCard]}>
+          <Text style={styles.cardTitle}>Data File</Text>
+          <Text style={styles.helpText}>
+            The database file this device opens. Give another school on the same device its own file to keep their
+            records apart.
+          </Text>
+          <TextInput
+            style={styles.input}
+            placeholder={DEFAULT_DATABASE_NAME}
+            autoCapitalize="none"
+            autoCorrect={false}
+            value={databaseName}
+            onChangeText={setDatabaseNameText}
+          />
+          <TouchableOpacity style={styles.secondaryButton} onPress={switchDatabase}>
+            <Text style={styles.secondaryButtonText}>Use This File</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 5,
+  },
+  input: {
+    width: '100%',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 15,
+  },
+  multilineInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  logoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  logo: {
+    width: 64,
+    height: 64,
+    borderRadius: 5,
+  },
+  logoPlaceholder: {
+    backgroundColor: Colors.gray[200],
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: Colors.purple[500],
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: Colors.purple[500],
+    fontSize: 14,
+    fontFamily: 'SemiBold',
+  },
+  dataFileCard: {
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rowField: {
+    flex: 1,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: Colors.purple[500],
+  },
+  chipText: {
+    color: '#333',
+    fontFamily: 'Medium',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  helpText: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: -5,
+    marginBottom: 15,
+  },
+  preview: {
+    backgroundColor: Colors.gray[200],
+    borderRadius: 8,
+    padding: 12,
+  },
+  previewAmount: {
+    fontSize: 20,
+    fontFamily: 'Bold',
+    color: Colors.purple[800],
+  },
+  previewWords: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 4,
+  },
+  saveButton: {
+    backgroundColor: Colors.success['dark'],
+    padding: 14,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
@@ -0,0 +1,374 @@
+// app/(admin)/student-details.tsx
+import AdminHeader from '@/components/AdminHeader';
+import { getStudentStatement } from '@/lib/operations/statements';
+import { formatCurrency } from '@/utils/formatters';
+import { Colors } from '@/utils/styles';
+import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams } from 'expo-router';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { StudentStatement } from '../../lib/db/schema';
+
+/**
+ * Student detail screen with an account statement:
+ * opening balance, bills and payments in date order with a running balance, and closing balance
+ */
+export default function StudentDetailsScreen() {
+  const db = useSQLiteContext();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [statement, setStatement] = useState<StudentStatement | null>(null);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadStatement();
+    }, [db, id])
+  );
+
+  const loadStatement = async () => {
+    const from = fromDate.trim();
+    const to = toDate.trim();
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      Alert.alert('Error', 'Please enter dates as YYYY-MM-DD.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const result = await getStudentStatement(db, Number(id), {
+        fromDate: from || undefined,
+        toDate: to || undefined
+      });
+      setStatement(result);
+      setError(null);
+    } catch (error) {
+      console.error('Error loading statement:', error);
+      setError('Failed to load student statement');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearRange = () => {
+    setFromDate('');
+    setToDate('');
+  };
+
+  if (loading && !statement) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Student" />
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#007BFF" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !statement) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <AdminHeader title="Student" />
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const { student } = statement;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Student" />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        {/* Student Info */}
+        <View style={styles.card}>
+          <Text style={styles.studentName}>{student.firstname} {student.othernames}</Text>
+          <Text style={styles.detailText}>Phone: {student.phone}</Text>
+          <Text style={styles.detailText}>Address: {student.address}</Text>
+          <Text style={styles.detailText}>
+            Status: {(student.status || 'active').charAt(0).toUpperCase() + (student.status || 'active').slice(1)}
+          </Text>
+        </View>
+
+        {/* Date Range */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Statement Period</Text>
+          <View style={styles.dateRow}>
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              placeholder="From YYYY-MM-DD"
+              value={fromDate}
+              onChangeText={setFromDate}
+            />
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              placeholder="To YYYY-MM-DD"
+              value={toDate}
+              onChangeText={setToDate}
+            />
+          </View>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={styles.applyButton} onPress={loadStatement}>
+              <Text style={styles.applyButtonText}>Apply</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.clearButton} onPress={clearRange}>
+              <Text style={styles.clearButtonText}>Clear</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Ledger */}
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Statement</Text>
+
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Opening balance</Text>
+            <Text style={styles.summaryValue}>{formatCurrency(statement.openingBalance)}</Text>
+          </View>
+
+          <View style={[styles.ledgerRow, styles.ledgerHeader]}>
+            <Text style={[styles.dateCell, styles.headerText]}>Date</Text>
+            <Text style={[styles.descriptionCell, styles.headerText]}>Description</Text>
+            <Text style={[styles.amountCell, styles.headerText]}>Debit</Text>
+            <Text style={[styles.amountCell, styles.headerText]}>Credit</Text>
+            <Text style={[styles.amountCell, styles.headerText]}>Balance</Text>
+          </View>
+
+          {statement.entries.length === 0 && (
+            <Text style={styles.emptyText}>No transactions in this period.</Text>
+          )}
+
+          {statement.entries.map((entry, index) => (
+            <View key={`${entry.type}-${entry.paymentId ?? entry.billId}-${index}`} style={styles.ledgerRow}>
+              <Text style={styles.dateCell}>{entry.date.slice(0, 10)}</Text>
+              <View style={styles.descriptionCell}>
+                <Text style={styles.entryText}>{entry.description}</Text>
+                {entry.reference ? <Text style={styles.referenceText}>Ref: {entry.reference}</Text> : null}
+              </View>
+              <Text style={styles.amountCell}>{entry.debit ? formatCurrency(entry.debit) : ''}</Text>
+              <Text style={[styles.amountCell, styles.creditText]}>
+                {entry.credit ? formatCurrency(entry.credit) : ''}
+              </Text>
+              <Text style={styles.amountCell}>{formatCurrency(entry.balance)}</Text>
+            </View>
+          ))}
+
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Total billed</Text>
+            <Text style={styles.summaryValue}>{formatCurrency(statement.totalDebits)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Total paid</Text>
+            <Text style={styles.summaryValue}>{formatCurrency(statement.totalCredits)}</Text>
+          </View>
+          <View style={styles.summaryRow}>
+            <Text style={[styles.summaryLabel, styles.closingText]}>
+              {statement.closingBalance < 0 ? 'Closing balance (credit)' : 'Closing balance (owed)'}
+            </Text>
+            <Text style={[styles.summaryValue, styles.closingText, statement.closingBalance > 0 && styles.owedText]}>
+              {formatCurrency(Math.abs(statement.closingBalance))}
+            </Text>
+          </View>
+        </View>
+
+        {/* Installment Plans */}
+        {statement.installmentPlans.map(plan => (
+          <View key={plan.billId} style={styles.card}>
+            <Text style={styles.sectionTitle}>Installments · {plan.billName}</Text>
+            {plan.installments.map(installment => (
+              <View key={installment.id} style={styles.ledgerRow}>
+                <Text style={styles.dateCell}>{installment.dueDate.slice(0, 10)}</Text>
+                <Text style={[styles.descriptionCell, styles.entryText]}>
+                  #{installment.sequence} · {installment.status}
+                </Text>
+                <Text style={styles.amountCell}>{formatCurrency(installment.amount)}</Text>
+                <Text style={[styles.amountCell, installment.status === 'overdue' && styles.owedText]}>
+                  {formatCurrency(installment.balance)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: 'red',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  studentName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 6,
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  dateRow: {
+    flexDirection: 'row',
+  },
+  input: {
+    backgroundColor: '#f9f9f9',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 4,
+    padding: 10,
+    fontSize: 14,
+  },
+  dateInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  applyButton: {
+    flex: 1,
+    backgroundColor: '#007BFF',
+    padding: 10,
+    borderRadius: 4,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+  clearButton: {
+    flex: 1,
+    backgroundColor: '#e0e0e0',
+    padding: 10,
+    borderRadius: 4,
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    color: '#333',
+    fontWeight: 'bold',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  summaryLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  summaryValue: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  closingText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  owedText: {
+    color: Colors.error.light,
+  },
+  ledgerHeader: {
+    borderTopWidth: 1,
+    borderTopColor: '#e0e0e0',
+  },
+  ledgerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  headerText: {
+    fontWeight: 'bold',
+    color: '#666',
+  },
+  dateCell: {
+    width: 76,
+    fontSize: 12,
+    color: '#333',
+  },
+  descriptionCell: {
+    flex: 1,
+    paddingRight: 4,
+  },
+  entryText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  referenceText: {
+    fontSize: 11,
+    color: '#888',
+  },
+  amountCell: {
+    width: 72,
+    fontSize: 12,
+    color: '#333',
+    textAlign: 'right',
+  },
+  creditText: {
+    color: Colors.success.light,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+});
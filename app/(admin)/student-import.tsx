@@ -0,0 +1,296 @@
+// app/(admin)/student-import.tsx
+import AdminHeader from '@/components/AdminHeader';
+import { importStudents, previewStudentImport, STUDENT_IMPORT_COLUMNS } from '@/lib/operations/student-import';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { router } from 'expo-router';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { CheckBox } from 'react-native-elements';
+import { StudentImportRow } from '../../lib/db/schema';
+
+/**
+ * Student Import Screen
+ * Features:
+ * - Pick a CSV exported from a spreadsheet
+ * - Preview every row with its validation errors and probable duplicates
+ * - Import the valid rows in one go
+ */
+export default function StudentImportScreen() {
+  const db = useSQLiteContext();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<StudentImportRow[]>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const validRows = rows.filter(row => row.errors.length === 0);
+  const duplicateRows = validRows.filter(row => row.duplicateOf);
+  const rowsToImport = includeDuplicates ? validRows : validRows.filter(row => !row.duplicateOf);
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['text/csv', 'text/comma-separated-values', 'application/vnd.ms-excel', 'text/plain'],
+        copyToCacheDirectory: true
+      });
+      if (result.canceled) return;
+
+      setIsReading(true);
+      const file = result.assets[0];
+      const text = await FileSystem.readAsStringAsync(file.uri, { encoding: FileSystem.EncodingType.UTF8 });
+      setRows(await previewStudentImport(db, text));
+      setFileName(file.name);
+      setIncludeDuplicates(false);
+    } catch (error) {
+      console.error('Error reading student CSV:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = () => {
+    Alert.alert(
+      'Import Students',
+      `Add ${rowsToImport.length} ${rowsToImport.length === 1 ? 'student' : 'students'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Import',
+          onPress: async () => {
+            try {
+              setIsImporting(true);
+              const added = await importStudents(db, rowsToImport.map(row => row.student));
+              Alert.alert('Success', `Imported ${added.length} students`, [
+                { text: 'OK', onPress: () => router.back() }
+              ]);
+            } catch (error) {
+              console.error('Error importing students:', error);
+              Alert.alert('Error', 'Failed to import students. No students were added.');
+            } finally {
+              setIsImporting(false);
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderRow = ({ item }: { item: StudentImportRow }) => {
+    const hasErrors = item.errors.length > 0;
+    const skipped = hasErrors || (!!item.duplicateOf && !includeDuplicates);
+
+    return (
+      <View style={[styles.rowCard, skipped && styles.rowSkipped]}>
+        <View style={styles.rowHeader}>
+          <Text style={styles.rowNumber}>Row {item.row}</Text>
+          <Ionicons
+            name={hasErrors ? 'close-circle' : item.duplicateOf ? 'alert-circle' : 'checkmark-circle'}
+            size={18}
+            color={hasErrors ? Colors.error.light : item.duplicateOf ? Colors.warning.light : Colors.success.light}
+          />
+        </View>
+        <Text style={styles.rowName}>
+          {item.student.firstname || '—'} {item.student.othernames}
+        </Text>
+        <Text style={styles.rowDetails}>
+          {item.student.phone || 'No phone'} · {item.student.address || 'No address'} · {item.student.status}
+        </Text>
+        {item.errors.map(error => (
+          <Text key={error} style={styles.errorText}>{error}</Text>
+        ))}
+        {!hasErrors && item.duplicateOf ? (
+          <Text style={styles.warningText}>Probable duplicate of {item.duplicateOf}</Text>
+        ) : null}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Import Students" />
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.helpText}>
+            Choose a CSV file whose first row names the columns: {STUDENT_IMPORT_COLUMNS.join(', ')}. Status is optional and
+            defaults to active.
+          </Text>
+          <TouchableOpacity style={styles.pickButton} onPress={handlePickFile} disabled={isReading}>
+            {isReading ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.pickButtonText}>{fileName ? 'Choose Another File' : 'Choose CSV File'}</Text>
+            )}
+          </TouchableOpacity>
+
+          {fileName ? (
+            <>
+              <Text style={styles.summaryText}>
+                {fileName}: {rows.length} rows · {validRows.length - duplicateRows.length} ready ·{' '}
+                {duplicateRows.length} probable duplicates · {rows.length - validRows.length} with errors
+              </Text>
+              {duplicateRows.length > 0 && (
+                <CheckBox
+                  title="Import probable duplicates too"
+                  checked={includeDuplicates}
+                  onPress={() => setIncludeDuplicates(!includeDuplicates)}
+                  containerStyle={styles.checkbox}
+                />
+              )}
+            </>
+          ) : null}
+        </View>
+
+        <FlatList
+          data={rows}
+          renderItem={renderRow}
+          keyExtractor={(item) => `row-${item.row}`}
+          contentContainerStyle={styles.listContainer}
+        />
+
+        {fileName ? (
+          <TouchableOpacity
+            style={[styles.importButton, rowsToImport.length === 0 && styles.importButtonDisabled]}
+            onPress={handleImport}
+            disabled={rowsToImport.length === 0 || isImporting}
+          >
+            {isImporting ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.importButtonText}>Import {rowsToImport.length} Students</Text>
+            )}
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  helpText: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginBottom: 10,
+  },
+  pickButton: {
+    backgroundColor: Colors.purple[500],
+    padding: 10,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  pickButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'Medium',
+  },
+  summaryText: {
+    fontSize: 13,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginTop: 10,
+  },
+  checkbox: {
+    backgroundColor: 'transparent',
+    borderWidth: 0,
+    marginLeft: 0,
+    paddingHorizontal: 0,
+  },
+  listContainer: {
+    padding: 16,
+    paddingBottom: 90,
+  },
+  rowCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  rowSkipped: {
+    opacity: 0.6,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowNumber: {
+    fontSize: 12,
+    fontFamily: 'Medium',
+    color: Colors.gray[500],
+  },
+  rowName: {
+    fontSize: 15,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginTop: 2,
+  },
+  rowDetails: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: Colors.error.light,
+    marginTop: 4,
+  },
+  warningText: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: Colors.warning.light,
+    marginTop: 4,
+  },
+  importButton: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 20,
+    backgroundColor: '#28a745',
+    padding: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    elevation: 5,
+  },
+  importButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  importButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
@@ -3,6 +3,7 @@ import { Student } from '@/lib/db/schema';
 import * as StudentOperations from '@/lib/operations/students';
 import { Colors } from '@/utils/styles';
 import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
 import { useSQLiteContext } from 'expo-sqlite';
 import { debounce } from 'lodash';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -160,26 +161,7 @@ export default function StudentManagement() {
 
   // Validate form before submission
   const validateForm = (): boolean => {
-    const errors: Record<string, string> = {};
-    
-    if (!formData.firstname.trim()) {
-      errors.firstname = 'First name is required';
-    }
-    
-    if (!formData.othernames.trim()) {
-      errors.othernames = 'Other names are required';
-    }
-    
-    if (!formData.phone.trim()) {
-      errors.phone = 'Phone number is required';
-    } else if (!/^\+?[0-9]{10,15}$/.test(formData.phone.trim())) {
-      errors.phone = 'Please enter a valid phone number';
-    }
-    
-    if (!formData.address.trim()) {
-      errors.address = 'Address is required';
-    }
-    
+    const errors = StudentOperations.validateStudent(formData);
     setFormErrors(errors);
     return Object.keys(errors).length === 0;
   };
@@ -252,13 +234,10 @@ export default function StudentManagement() {
     );
   };
 
-  // View student details
+  // View student details and account statement
   const handleViewStudent = (student: Student) => {
-    Alert.alert(
-      `${student.firstname} ${student.othernames}`,
-      `Phone: ${student.phone}\nAddress: ${student.address}\nStatus: ${student.status || 'Active'}`,
-      [{ text: 'Close' }]
-    );
+    if (!student.id) return;
+    router.push({ pathname: '/student-details', params: { id: String(student.id) } } as any);
   };
 
   // Render each student item in the list
@@ -332,6 +311,13 @@ export default function StudentManagement() {
           >
             <Ionicons name="add" size={24} color="#fff" />
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.addButton, styles.importButton]}
+            onPress={() => router.push('/student-import' as any)}
+          >
+            <Ionicons name="cloud-upload" size={24} color="#fff" />
+          </TouchableOpacity>
              
           <View style={styles.searchContainer}>
             <Ionicons name="search" size={20} color="#666" style={styles.searchIcon} />
@@ -545,6 +531,9 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     borderRadius: 4,
   },
+  importButton: {
+    marginLeft: 8,
+  },
   addButtonText: {
     color: '#fff',
     fontWeight: 'bold',
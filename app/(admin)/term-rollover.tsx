@@ -0,0 +1,360 @@
+// app/(admin)/term-rollover.tsx
+import AdminHeader from '@/components/AdminHeader';
+import TermFilter from '@/components/TermFilter';
+import { getAllDepartments } from '@/lib/operations/departments';
+import { previewTermRollover, rolloverTerm } from '@/lib/operations/rollover';
+import { getCurrentTerm, getNextTerm, getTerms } from '@/lib/operations/terms';
+import { formatCurrency } from '@/utils/formatters';
+import { Colors } from '@/utils/styles';
+import { router } from 'expo-router';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import {
+  Department,
+  RolloverDepartmentPlan,
+  RolloverEnrollmentMode,
+  TermRolloverPreview,
+  TermWithYear
+} from '../../lib/db/schema';
+
+const MODES: { value: RolloverEnrollmentMode; label: string }[] = [
+  { value: 'carry', label: 'Carry over' },
+  { value: 'promote', label: 'Promote' },
+  { value: 'none', label: 'Leave' },
+];
+
+/**
+ * Term Rollover Screen
+ * Sets up a new term from an old one: copies its departments and fees, and moves its students
+ * into the same department or promotes them to the next one. Nothing is saved until the preview is confirmed.
+ */
+export default function TermRolloverScreen() {
+  const db = useSQLiteContext();
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [fromTermId, setFromTermId] = useState<number | null>(null);
+  const [toTermId, setToTermId] = useState<number | null>(null);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [plans, setPlans] = useState<Record<number, RolloverDepartmentPlan>>({});
+  const [preview, setPreview] = useState<TermRolloverPreview | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    loadTerms();
+  }, [db]);
+
+  const loadTerms = async () => {
+    try {
+      setTerms(await getTerms(db));
+      const currentTerm = await getCurrentTerm(db);
+      if (currentTerm) {
+        await selectFromTerm(currentTerm.id!);
+      }
+    } catch (error) {
+      console.error('Error loading terms:', error);
+      Alert.alert('Error', 'Failed to load terms');
+    }
+  };
+
+  // Choosing the old term suggests the term after it, and carries every department over by default
+  const selectFromTerm = async (termId: number | null) => {
+    setFromTermId(termId);
+    setPreview(null);
+    if (!termId) {
+      setDepartments([]);
+      setPlans({});
+      return;
+    }
+
+    try {
+      const [termDepartments, nextTerm] = await Promise.all([getAllDepartments(db, termId), getNextTerm(db, termId)]);
+      setDepartments(termDepartments);
+      setPlans(Object.fromEntries(termDepartments.map(department => [department.id!, { mode: 'carry' } as RolloverDepartmentPlan])));
+      setToTermId(nextTerm?.id ?? null);
+    } catch (error) {
+      console.error('Error loading departments:', error);
+      Alert.alert('Error', 'Failed to load departments');
+    }
+  };
+
+  const selectToTerm = (termId: number | null) => {
+    setToTermId(termId);
+    setPreview(null);
+  };
+
+  const updatePlan = (departmentId: number, plan: RolloverDepartmentPlan) => {
+    setPlans(current => ({ ...current, [departmentId]: plan }));
+    setPreview(null);
+  };
+
+  const loadPreview = async () => {
+    if (!fromTermId || !toTermId) {
+      Alert.alert('Error', 'Choose the term to roll over and the term to roll into.');
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setPreview(await previewTermRollover(db, { fromTermId, toTermId, departments: plans }));
+    } catch (error) {
+      console.error('Error previewing rollover:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to preview the rollover');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const confirmRollover = () => {
+    if (!preview) return;
+
+    Alert.alert(
+      'Roll Over Term',
+      `Set up ${preview.toTerm.name} ${preview.toTerm.academicYearName} from ${preview.fromTerm.name} ${preview.fromTerm.academicYearName}? ` +
+        `${preview.enrollmentsCompleted} enrollments of the old term will be marked completed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Roll Over', onPress: runRollover }
+      ]
+    );
+  };
+
+  const runRollover = async () => {
+    try {
+      setIsWorking(true);
+      const result = await rolloverTerm(db, { fromTermId: fromTermId!, toTermId: toTermId!, departments: plans });
+      Alert.alert(
+        'Done',
+        `Created ${result.departmentsCreated} departments with ${result.billItemsCopied} fee items and ` +
+          `enrolled ${result.enrollmentsCreated} students in ${result.toTerm.name} ${result.toTerm.academicYearName}.`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error rolling over term:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to roll over the term');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderDepartmentPlan = (department: Department) => {
+    const plan = plans[department.id!] ?? { mode: 'none' };
+    return (
+      <View key={department.id} style={styles.departmentRow}>
+        <Text style={styles.departmentName}>{department.name}</Text>
+        <View style={styles.chipRow}>
+          {MODES.map(mode => (
+            <TouchableOpacity
+              key={mode.value}
+              style={[styles.chip, plan.mode === mode.value && styles.chipActive]}
+              onPress={() => updatePlan(department.id!, { mode: mode.value })}
+            >
+              <Text style={[styles.chipText, plan.mode === mode.value && styles.chipTextActive]}>{mode.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {plan.mode === 'promote' && (
+          <>
+            <Text style={styles.helpText}>Students move up to:</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+              {departments.filter(other => other.id !== department.id).map(other => (
+                <TouchableOpacity
+                  key={other.id}
+                  style={[styles.chip, plan.promoteToDepartmentId === other.id && styles.chipActive]}
+                  onPress={() => updatePlan(department.id!, { mode: 'promote', promoteToDepartmentId: other.id })}
+                >
+                  <Text style={[styles.chipText, plan.promoteToDepartmentId === other.id && styles.chipTextActive]}>
+                    {other.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Term Rollover" />
+      <ScrollView style={styles.container} contentContainerStyle={styles.contentContainer}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>From</Text>
+          <TermFilter terms={terms} selectedTermId={fromTermId} onSelect={selectFromTerm} />
+          <Text style={styles.cardTitle}>Into</Text>
+          <TermFilter terms={terms.filter(term => term.id !== fromTermId)} selectedTermId={toTermId} onSelect={selectToTerm} />
+          {terms.length < 2 && (
+            <Text style={styles.helpText}>Add the new term on the Terms screen first.</Text>
+          )}
+        </View>
+
+        {fromTermId && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Students</Text>
+            <Text style={styles.helpText}>
+              Every department and its fees are copied. Choose where each department&apos;s students go;
+              their enrollments in the old term are marked completed.
+            </Text>
+            {departments.length === 0 ? (
+              <Text style={styles.emptyText}>This term has no departments.</Text>
+            ) : (
+              departments.map(renderDepartmentPlan)
+            )}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.button} onPress={loadPreview} disabled={isWorking}>
+          {isWorking && !preview ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.buttonText}>Preview</Text>
+          )}
+        </TouchableOpacity>
+
+        {preview && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>
+              Into {preview.toTerm.name} {preview.toTerm.academicYearName}
+            </Text>
+            {preview.departments.map(row => (
+              <View key={row.departmentId} style={styles.previewRow}>
+                <Text style={styles.departmentName}>{row.departmentName}</Text>
+                <Text style={styles.helpText}>
+                  {row.existingDepartmentId
+                    ? 'Already set up; kept as it is'
+                    : `${row.billItemCount} fee items, ${formatCurrency(row.billItemTotal)}`}
+                </Text>
+                <Text style={styles.helpText}>
+                  {row.mode === 'none'
+                    ? 'Students stay behind'
+                    : `${row.studentCount} students into ${row.targetDepartmentName}`}
+                </Text>
+              </View>
+            ))}
+            <Text style={styles.summaryText}>
+              {preview.departmentsCreated} new departments, {preview.billItemsCopied} fee items, {preview.enrollmentsCreated} enrollments;
+              {' '}{preview.enrollmentsCompleted} old enrollments completed
+            </Text>
+
+            <TouchableOpacity style={[styles.button, styles.confirmButton]} onPress={confirmRollover} disabled={isWorking}>
+              {isWorking ? (
+                <ActivityIndicator size="small" color="white" />
+              ) : (
+                <Text style={styles.buttonText}>Roll Over</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f9f9f9',
+  },
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  helpText: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 10,
+  },
+  departmentRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  departmentName: {
+    fontSize: 15,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginBottom: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: Colors.purple[500],
+  },
+  chipText: {
+    color: '#333',
+    fontFamily: 'Medium',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  previewRow: {
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  summaryText: {
+    fontSize: 14,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginTop: 12,
+  },
+  button: {
+    backgroundColor: Colors.purple[500],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  confirmButton: {
+    backgroundColor: Colors.success['dark'],
+    marginTop: 16,
+    marginBottom: 0,
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'Medium',
+  },
+});
@@ -0,0 +1,624 @@
+// app/(admin)/terms.tsx
+import AdminHeader from '@/components/AdminHeader';
+import { hasPermission } from '@/lib/operations/auth';
+import { getSchoolSettings, updateSchoolSettings } from '@/lib/operations/settings';
+import {
+  addAcademicYear,
+  addTerm,
+  deleteAcademicYear,
+  deleteTerm,
+  getAcademicYears,
+  getCurrentTerm,
+  getTerms,
+  updateAcademicYear,
+  updateTerm
+} from '@/lib/operations/terms';
+import { useSession } from '@/lib/session/provider';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { AcademicYear, TermWithYear } from '../../lib/db/schema';
+
+/**
+ * Academic Years & Terms Screen
+ * Features:
+ * - List academic years, newest first, with their terms in order
+ * - Add, edit and remove years and terms; departments take their term and year names from these
+ * - Set which term is current, or let it follow the term dates
+ * - Start a term rollover to set up a new term from an old one
+ */
+export default function TermsScreen() {
+  const db = useSQLiteContext();
+  const { user } = useSession();
+  const canPinTerm = hasPermission('settings.manage', user);
+  const [years, setYears] = useState<AcademicYear[]>([]);
+  const [terms, setTerms] = useState<TermWithYear[]>([]);
+  const [currentTermId, setCurrentTermId] = useState<number | null>(null);
+  const [pinnedTermId, setPinnedTermId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Year form state
+  const [yearModalVisible, setYearModalVisible] = useState(false);
+  const [editingYear, setEditingYear] = useState<AcademicYear | null>(null);
+  const [yearName, setYearName] = useState('');
+  const [yearStart, setYearStart] = useState('');
+  const [yearEnd, setYearEnd] = useState('');
+
+  // Term form state
+  const [termModalVisible, setTermModalVisible] = useState(false);
+  const [editingTerm, setEditingTerm] = useState<TermWithYear | null>(null);
+  const [termYear, setTermYear] = useState<AcademicYear | null>(null);
+  const [termName, setTermName] = useState('');
+  const [termSequence, setTermSequence] = useState('1');
+  const [termStart, setTermStart] = useState('');
+  const [termEnd, setTermEnd] = useState('');
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTerms();
+    }, [db])
+  );
+
+  const loadTerms = async () => {
+    try {
+      setLoading(true);
+      const [yearList, termList, currentTerm, settings] = await Promise.all([
+        getAcademicYears(db),
+        getTerms(db),
+        getCurrentTerm(db),
+        getSchoolSettings(db)
+      ]);
+      setYears(yearList);
+      setTerms(termList);
+      setCurrentTermId(currentTerm?.id ?? null);
+      setPinnedTermId(settings.currentTermId);
+    } catch (error) {
+      console.error('Error loading terms:', error);
+      Alert.alert('Error', 'Failed to load academic years and terms');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openYearModal = (year?: AcademicYear) => {
+    setEditingYear(year ?? null);
+    setYearName(year?.name ?? '');
+    setYearStart(year?.startDate ?? '');
+    setYearEnd(year?.endDate ?? '');
+    setYearModalVisible(true);
+  };
+
+  const saveYear = async () => {
+    const year: AcademicYear = {
+      id: editingYear?.id,
+      name: yearName,
+      startDate: yearStart.trim() || null,
+      endDate: yearEnd.trim() || null
+    };
+
+    try {
+      setIsSaving(true);
+      if (editingYear) {
+        await updateAcademicYear(db, year);
+      } else {
+        await addAcademicYear(db, year);
+      }
+      setYearModalVisible(false);
+      await loadTerms();
+    } catch (error) {
+      console.error('Error saving academic year:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save academic year');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openTermModal = (year: AcademicYear, term?: TermWithYear) => {
+    const yearTerms = terms.filter(item => item.academicYearId === year.id);
+    setTermYear(year);
+    setEditingTerm(term ?? null);
+    setTermName(term?.name ?? '');
+    setTermSequence(String(term?.sequence ?? yearTerms.length + 1));
+    setTermStart(term?.startDate ?? '');
+    setTermEnd(term?.endDate ?? '');
+    setTermModalVisible(true);
+  };
+
+  const saveTerm = async () => {
+    if (!termYear) return;
+
+    const term = {
+      id: editingTerm?.id,
+      academicYearId: termYear.id!,
+      name: termName,
+      sequence: Number(termSequence),
+      startDate: termStart.trim() || null,
+      endDate: termEnd.trim() || null
+    };
+
+    try {
+      setIsSaving(true);
+      if (editingTerm) {
+        await updateTerm(db, term);
+      } else {
+        await addTerm(db, term);
+      }
+      setTermModalVisible(false);
+      await loadTerms();
+    } catch (error) {
+      console.error('Error saving term:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save term');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteYear = (year: AcademicYear) => {
+    Alert.alert('Remove Academic Year', `Remove ${year.name}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteAcademicYear(db, year.id!);
+            await loadTerms();
+          } catch (error) {
+            console.error('Error removing academic year:', error);
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to remove academic year');
+          }
+        }
+      }
+    ]);
+  };
+
+  const handleDeleteTerm = (term: TermWithYear) => {
+    Alert.alert('Remove Term', `Remove ${term.name} ${term.academicYearName}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteTerm(db, term.id!);
+            await loadTerms();
+          } catch (error) {
+            console.error('Error removing term:', error);
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to remove term');
+          }
+        }
+      }
+    ]);
+  };
+
+  // Pin a term as the current one, or unpin it to go back to following the dates
+  const togglePinnedTerm = async (term: TermWithYear) => {
+    try {
+      await updateSchoolSettings(db, { currentTermId: pinnedTermId === term.id ? null : term.id! });
+      await loadTerms();
+    } catch (error) {
+      console.error('Error setting current term:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to set the current term');
+    }
+  };
+
+  const formatDates = (startDate?: string | null, endDate?: string | null) =>
+    startDate || endDate ? `${startDate ?? '?'} to ${endDate ?? '?'}` : 'No dates set';
+
+  const renderTerm = (year: AcademicYear, term: TermWithYear) => (
+    <TouchableOpacity key={term.id} style={styles.termRow} onPress={() => openTermModal(year, term)}>
+      <View style={styles.termInfo}>
+        <View style={styles.termTitleRow}>
+          <Text style={styles.termName}>{term.name}</Text>
+          {term.id === currentTermId && (
+            <View style={styles.currentBadge}>
+              <Text style={styles.currentBadgeText}>{term.id === pinnedTermId ? 'Current (set)' : 'Current'}</Text>
+            </View>
+          )}
+        </View>
+        <Text style={styles.details}>{formatDates(term.startDate, term.endDate)}</Text>
+      </View>
+      {canPinTerm && (
+        <TouchableOpacity onPress={() => togglePinnedTerm(term)} style={styles.iconButton}>
+          <Ionicons name={term.id === pinnedTermId ? 'star' : 'star-outline'} size={20} color={Colors.purple[500]} />
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity onPress={() => handleDeleteTerm(term)} style={styles.iconButton}>
+        <Ionicons name="trash" size={20} color={Colors.error.light} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Terms" />
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.helpText}>
+            Every department runs in a term. The current term follows the term dates unless one is set with the star.
+          </Text>
+          <TouchableOpacity style={styles.rolloverButton} onPress={() => router.push('/term-rollover' as any)}>
+            <Text style={styles.rolloverButtonText}>Roll Over a Term</Text>
+          </TouchableOpacity>
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#0000ff" />
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.listContainer}>
+            {years.length === 0 && (
+              <View style={styles.emptyListContainer}>
+                <Text style={styles.emptyListText}>No academic years yet.</Text>
+              </View>
+            )}
+            {years.map(year => (
+              <View key={year.id} style={styles.card}>
+                <View style={styles.yearHeader}>
+                  <TouchableOpacity style={styles.termInfo} onPress={() => openYearModal(year)}>
+                    <Text style={styles.yearName}>{year.name}</Text>
+                    <Text style={styles.details}>{formatDates(year.startDate, year.endDate)}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDeleteYear(year)} style={styles.iconButton}>
+                    <Ionicons name="trash" size={20} color={Colors.error.light} />
+                  </TouchableOpacity>
+                </View>
+
+                {terms.filter(term => term.academicYearId === year.id).map(term => renderTerm(year, term))}
+
+                <TouchableOpacity onPress={() => openTermModal(year)} style={styles.addTermButton}>
+                  <Ionicons name="add-circle-outline" size={18} color={Colors.purple[500]} />
+                  <Text style={styles.addTermText}>Add Term</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+        )}
+
+        <TouchableOpacity onPress={() => openYearModal()} style={styles.addButton}>
+          <Ionicons name="add" size={24} color="white" />
+        </TouchableOpacity>
+
+        {/* Academic Year Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={yearModalVisible}
+          onRequestClose={() => setYearModalVisible(false)}
+        >
+          <Pressable style={styles.backdrop} onPress={() => setYearModalVisible(false)}>
+            <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+              <ScrollView>
+                <Text style={styles.modalTitle}>{editingYear ? 'Edit Academic Year' : 'New Academic Year'}</Text>
+
+                <Text style={styles.inputLabel}>Name *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. 2025/2026"
+                  value={yearName}
+                  onChangeText={setYearName}
+                />
+
+                <Text style={styles.inputLabel}>Start Date</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  value={yearStart}
+                  onChangeText={setYearStart}
+                />
+
+                <Text style={styles.inputLabel}>End Date</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  value={yearEnd}
+                  onChangeText={setYearEnd}
+                />
+
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity onPress={() => setYearModalVisible(false)} style={styles.cancelButton}>
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={saveYear} style={styles.saveButton} disabled={isSaving}>
+                    {isSaving ? (
+                      <ActivityIndicator size="small" color="white" />
+                    ) : (
+                      <Text style={styles.saveButtonText}>Save</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </Pressable>
+          </Pressable>
+        </Modal>
+
+        {/* Term Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={termModalVisible}
+          onRequestClose={() => setTermModalVisible(false)}
+        >
+          <Pressable style={styles.backdrop} onPress={() => setTermModalVisible(false)}>
+            <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+              <ScrollView>
+                <Text style={styles.modalTitle}>
+                  {editingTerm ? 'Edit Term' : 'New Term'} ({termYear?.name})
+                </Text>
+
+                <Text style={styles.inputLabel}>Name *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. Term 1"
+                  value={termName}
+                  onChangeText={setTermName}
+                />
+
+                <Text style={styles.inputLabel}>Order in Year *</Text>
+                <TextInput
+                  style={styles.input}
+                  keyboardType="number-pad"
+                  value={termSequence}
+                  onChangeText={setTermSequence}
+                />
+
+                <Text style={styles.inputLabel}>Start Date</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  value={termStart}
+                  onChangeText={setTermStart}
+                />
+
+                <Text style={styles.inputLabel}>End Date</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="YYYY-MM-DD"
+                  value={termEnd}
+                  onChangeText={setTermEnd}
+                />
+
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity onPress={() => setTermModalVisible(false)} style={styles.cancelButton}>
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={saveTerm} style={styles.saveButton} disabled={isSaving}>
+                    {isSaving ? (
+                      <ActivityIndicator size="small" color="white" />
+                    ) : (
+                      <Text style={styles.saveButtonText}>Save</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </Pressable>
+          </Pressable>
+        </Modal>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  helpText: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginBottom: 10,
+  },
+  rolloverButton: {
+    backgroundColor: Colors.purple[500],
+    padding: 10,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  rolloverButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'Medium',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    padding: 16,
+    paddingBottom: 90,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  yearHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  yearName: {
+    fontSize: 18,
+    fontFamily: 'SemiBold',
+    color: '#333',
+  },
+  termRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  termInfo: {
+    flex: 1,
+  },
+  termTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  termName: {
+    fontSize: 15,
+    fontFamily: 'Medium',
+    color: '#333',
+  },
+  currentBadge: {
+    backgroundColor: Colors.success.light,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginLeft: 8,
+  },
+  currentBadgeText: {
+    color: '#fff',
+    fontSize: 11,
+    fontFamily: 'SemiBold',
+  },
+  details: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  addTermButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingTop: 10,
+  },
+  addTermText: {
+    color: Colors.purple[500],
+    fontFamily: 'Medium',
+    marginLeft: 6,
+  },
+  emptyListContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyListText: {
+    fontSize: 16,
+    color: Colors.info['dark'],
+    textAlign: 'center',
+    fontFamily: 'Regular',
+  },
+  addButton: {
+    backgroundColor: '#28a745',
+    padding: 15,
+    borderRadius: 30,
+    position: 'absolute',
+    bottom: 20,
+    right: 20,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '90%',
+    maxHeight: '90%',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 5,
+  },
+  input: {
+    width: '100%',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 15,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#ccc',
+    padding: 12,
+    borderRadius: 5,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: Colors.success['dark'],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
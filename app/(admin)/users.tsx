@@ -0,0 +1,423 @@
+// app/(admin)/users.tsx
+import AdminHeader from '@/components/AdminHeader';
+import { ROLE_LABELS } from '@/lib/operations/auth';
+import { createUser, getUsers, updateUser } from '@/lib/operations/users';
+import { Colors } from '@/utils/styles';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { User, UserRole } from '../../lib/db/schema';
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Everything, including user accounts and restoring backups',
+  bursar: 'Students, departments, bills and payments, exports and the audit log',
+  cashier: 'Record payments and view records',
+  viewer: 'View records only'
+};
+
+/**
+ * Users Screen
+ * Features:
+ * - List user accounts with their role and last sign in
+ * - Add users, change their name and role, reset their password or PIN
+ * - Deactivate users who should no longer sign in
+ */
+export default function UsersScreen() {
+  const db = useSQLiteContext();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Form state
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [role, setRole] = useState<UserRole>('cashier');
+  const [isActive, setIsActive] = useState(true);
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadUsers();
+    }, [db])
+  );
+
+  const loadUsers = async () => {
+    try {
+      setLoading(true);
+      setUsers(await getUsers(db));
+    } catch (error) {
+      console.error('Error loading users:', error);
+      Alert.alert('Error', 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openModal = (user?: User) => {
+    setEditingUser(user ?? null);
+    setUsername(user?.username ?? '');
+    setDisplayName(user?.displayName ?? '');
+    setRole(user?.role ?? 'cashier');
+    setIsActive(user?.isActive ?? true);
+    setPassword('');
+    setModalVisible(true);
+  };
+
+  const saveUser = async () => {
+    const user: User = {
+      id: editingUser?.id,
+      username,
+      displayName,
+      role,
+      isActive
+    };
+
+    try {
+      setIsSaving(true);
+      if (editingUser) {
+        await updateUser(db, user, password || undefined);
+      } else {
+        await createUser(db, user, password);
+      }
+      setModalVisible(false);
+      await loadUsers();
+    } catch (error) {
+      console.error('Error saving user:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save user');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderUser = ({ item }: { item: User }) => (
+    <TouchableOpacity style={[styles.userCard, !item.isActive && styles.inactiveCard]} onPress={() => openModal(item)}>
+      <Ionicons name="person-circle" size={36} color={item.isActive ? Colors.purple[500] : Colors.gray[500]} />
+      <View style={styles.userInfo}>
+        <Text style={styles.userName}>{item.displayName}</Text>
+        <Text style={styles.userDetails}>
+          {item.username} · {ROLE_LABELS[item.role]}
+          {!item.isActive && ' · Deactivated'}
+        </Text>
+        <Text style={styles.userDetails}>
+          {item.lastLoginAt ? `Last signed in ${item.lastLoginAt.slice(0, 10)}` : 'Never signed in'}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <AdminHeader title="Users" />
+      <View style={styles.container}>
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#0000ff" />
+          </View>
+        ) : (
+          <FlatList
+            data={users}
+            renderItem={renderUser}
+            keyExtractor={(item) => `user-${item.id}`}
+            contentContainerStyle={styles.listContainer}
+            ListEmptyComponent={
+              <View style={styles.emptyListContainer}>
+                <Text style={styles.emptyListText}>No users yet.</Text>
+              </View>
+            }
+          />
+        )}
+
+        <TouchableOpacity onPress={() => openModal()} style={styles.addButton}>
+          <Ionicons name="add" size={24} color="white" />
+        </TouchableOpacity>
+
+        {/* User Modal */}
+        <Modal
+          animationType="slide"
+          transparent={true}
+          visible={modalVisible}
+          onRequestClose={() => setModalVisible(false)}
+        >
+          <Pressable style={styles.backdrop} onPress={() => setModalVisible(false)}>
+            <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+              <ScrollView>
+                <Text style={styles.modalTitle}>{editingUser ? 'Edit User' : 'New User'}</Text>
+
+                <Text style={styles.inputLabel}>Username *</Text>
+                <TextInput
+                  style={[styles.input, editingUser && styles.inputDisabled]}
+                  placeholder="e.g. jdoe"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  editable={!editingUser}
+                  value={username}
+                  onChangeText={setUsername}
+                />
+
+                <Text style={styles.inputLabel}>Name *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Full name"
+                  value={displayName}
+                  onChangeText={setDisplayName}
+                />
+
+                <Text style={styles.inputLabel}>{editingUser ? 'New Password or PIN' : 'Password or PIN *'}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={editingUser ? 'Leave blank to keep the current one' : 'At least 4 characters'}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  value={password}
+                  onChangeText={setPassword}
+                />
+
+                <Text style={styles.inputLabel}>Role</Text>
+                <View style={styles.chipRow}>
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map(option => (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.chip, role === option && styles.chipActive]}
+                      onPress={() => setRole(option)}
+                    >
+                      <Text style={[styles.chipText, role === option && styles.chipTextActive]}>
+                        {ROLE_LABELS[option]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <Text style={styles.helpText}>{ROLE_DESCRIPTIONS[role]}</Text>
+
+                {editingUser && (
+                  <TouchableOpacity style={styles.toggleRow} onPress={() => setIsActive(!isActive)}>
+                    <Ionicons
+                      name={isActive ? 'checkbox' : 'square-outline'}
+                      size={22}
+                      color={Colors.purple[500]}
+                    />
+                    <Text style={styles.toggleText}>Can sign in</Text>
+                  </TouchableOpacity>
+                )}
+
+                <View style={styles.modalButtons}>
+                  <TouchableOpacity onPress={() => setModalVisible(false)} style={styles.cancelButton}>
+                    <Text style={styles.cancelButtonText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={saveUser} style={styles.saveButton} disabled={isSaving}>
+                    {isSaving ? (
+                      <ActivityIndicator size="small" color="white" />
+                    ) : (
+                      <Text style={styles.saveButtonText}>Save</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </Pressable>
+          </Pressable>
+        </Modal>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    padding: 16,
+    paddingBottom: 90,
+  },
+  userCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  inactiveCard: {
+    opacity: 0.6,
+  },
+  userInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  userName: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 4,
+  },
+  userDetails: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  emptyListContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  emptyListText: {
+    fontSize: 16,
+    color: Colors.info['dark'],
+    textAlign: 'center',
+    fontFamily: 'Regular',
+  },
+  addButton: {
+    backgroundColor: '#28a745',
+    padding: 15,
+    borderRadius: 30,
+    position: 'absolute',
+    bottom: 20,
+    right: 20,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '90%',
+    maxHeight: '90%',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 5,
+  },
+  input: {
+    width: '100%',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 15,
+  },
+  inputDisabled: {
+    backgroundColor: '#f0f0f0',
+    color: '#666',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 5,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipActive: {
+    backgroundColor: Colors.purple[500],
+  },
+  chipText: {
+    color: '#333',
+    fontFamily: 'Medium',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  helpText: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginBottom: 15,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  toggleText: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginLeft: 8,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#ccc',
+    padding: 12,
+    borderRadius: 5,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: Colors.success['dark'],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
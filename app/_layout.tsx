@@ -1,4 +1,5 @@
 import { DatabaseProvider } from '@/lib/db/provider';
+import { SessionProvider, useSession } from '@/lib/session/provider';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
@@ -19,6 +20,22 @@ function LoadingScreen() {
   );
 }
 
+// Everything but the login screen needs a signed-in user
+function RootNavigator() {
+  const { user } = useSession();
+
+  return (
+    <Stack>
+      <Stack.Protected guard={!!user}>
+        <Stack.Screen name="(admin)" options={{ headerShown: false }} />
+      </Stack.Protected>
+      <Stack.Protected guard={!user}>
+        <Stack.Screen name="login" options={{ headerShown: false }} />
+      </Stack.Protected>
+      <Stack.Screen name="+not-found" />
+    </Stack>
+  );
+}
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
@@ -38,13 +55,12 @@ export default function RootLayout() {
   return (
     <Suspense fallback={<LoadingScreen />}>
       <DatabaseProvider>
+      <SessionProvider>
       <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-            <Stack>
-              <Stack.Screen name="(admin)" options={{ headerShown: false }} />
-              <Stack.Screen name="+not-found" />
-            </Stack>
+            <RootNavigator />
             <StatusBar style="auto" />
       </ThemeProvider>
+      </SessionProvider>
       </DatabaseProvider>
     </Suspense>
   );
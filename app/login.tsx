@@ -0,0 +1,208 @@
+// app/login.tsx
+import { getCurrentSchoolSettings } from '@/lib/operations/settings';
+import { createFirstAdmin, hasUsers } from '@/lib/operations/users';
+import { useSession } from '@/lib/session/provider';
+import { Colors } from '@/utils/styles';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+/**
+ * Login Screen
+ * Features:
+ * - Sign in with a username and password or PIN
+ * - On first run, create the administrator account instead
+ */
+export default function LoginScreen() {
+  const db = useSQLiteContext();
+  const { signIn } = useSession();
+  const [needsSetup, setNeedsSetup] = useState<boolean | null>(null);
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    hasUsers(db)
+      .then(exists => setNeedsSetup(!exists))
+      .catch(error => {
+        console.error('Error checking for users:', error);
+        setNeedsSetup(false);
+      });
+  }, [db]);
+
+  const handleSubmit = async () => {
+    if (!username.trim() || !password) {
+      Alert.alert('Error', 'Please enter your username and password.');
+      return;
+    }
+    if (needsSetup && password !== confirmPassword) {
+      Alert.alert('Error', 'The passwords do not match.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      if (needsSetup) {
+        await createFirstAdmin(db, { username, displayName }, password);
+      }
+      await signIn(username, password);
+    } catch (error) {
+      console.error('Error signing in:', error);
+      Alert.alert('Sign In Failed', error instanceof Error ? error.message : 'Failed to sign in');
+      setPassword('');
+      setConfirmPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (needsSetup === null) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#0000ff" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Text style={styles.brand}>{getCurrentSchoolSettings().schoolShortName}</Text>
+        <Text style={styles.title}>{needsSetup ? 'Set Up Administrator' : 'Sign In'}</Text>
+        {needsSetup && (
+          <Text style={styles.helpText}>
+            Create the first account. It can add other users and choose what each of them may do.
+          </Text>
+        )}
+
+        <Text style={styles.inputLabel}>Username</Text>
+        <TextInput
+          style={styles.input}
+          autoCapitalize="none"
+          autoCorrect={false}
+          value={username}
+          onChangeText={setUsername}
+        />
+
+        {needsSetup && (
+          <>
+            <Text style={styles.inputLabel}>Name</Text>
+            <TextInput style={styles.input} value={displayName} onChangeText={setDisplayName} />
+          </>
+        )}
+
+        <Text style={styles.inputLabel}>Password or PIN</Text>
+        <TextInput
+          style={styles.input}
+          secureTextEntry
+          autoCapitalize="none"
+          value={password}
+          onChangeText={setPassword}
+          onSubmitEditing={needsSetup ? undefined : handleSubmit}
+        />
+
+        {needsSetup && (
+          <>
+            <Text style={styles.inputLabel}>Confirm Password or PIN</Text>
+            <TextInput
+              style={styles.input}
+              secureTextEntry
+              autoCapitalize="none"
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+            />
+          </>
+        )}
+
+        <TouchableOpacity style={styles.submitButton} onPress={handleSubmit} disabled={isSubmitting}>
+          {isSubmitting ? (
+            <ActivityIndicator size="small" color="white" />
+          ) : (
+            <Text style={styles.submitButtonText}>{needsSetup ? 'Create Account' : 'Sign In'}</Text>
+          )}
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  brand: {
+    fontFamily: 'Bold',
+    fontSize: 32,
+    color: '#007AFF',
+    textAlign: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontFamily: 'SemiBold',
+    color: Colors.purple[800],
+    textAlign: 'center',
+    marginTop: 8,
+    marginBottom: 20,
+  },
+  helpText: {
+    fontSize: 13,
+    fontFamily: 'Regular',
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 5,
+  },
+  input: {
+    width: '100%',
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 15,
+    backgroundColor: '#fff',
+  },
+  submitButton: {
+    backgroundColor: Colors.purple[500],
+    padding: 14,
+    borderRadius: 5,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
@@ -1,4 +1,7 @@
 // components/AdminHeader.tsx
+import { hasPermission, ROLE_LABELS } from '@/lib/operations/auth';
+import { getCurrentSchoolSettings } from '@/lib/operations/settings';
+import { useSession } from '@/lib/session/provider';
 import { Colors } from '@/utils/styles';
 import { Ionicons } from '@expo/vector-icons';
 import { router } from 'expo-router';
@@ -11,17 +14,20 @@ interface HeaderProps {
 
 const AdminHeader: React.FC<HeaderProps> = ({ title }) => {
   const [menuVisible, setMenuVisible] = useState(false);
+  const { user, signOut } = useSession();
 
   const handleNavigate = (route: '/' | '/students' 
-    | '/departments' | '/enrollments' | '/bill-items' | '/department-students' ) => {
+    | '/departments' | '/terms' | '/enrollments' | '/bill-items' | '/department-students' | '/payments'
+    | '/bills' | '/aging-report' | '/late-fees'
+    | '/discounts' | '/families' | '/exports' | '/backup' | '/audit-log' | '/users' | '/settings' ) => {
     setMenuVisible(false);
     router.push(route as any);
   };
 
   return (
     <View style={styles.container}>
-      {/* MEC Label */}
-      <Text style={styles.mec}>MEC</Text>
+      {/* School Label */}
+      <Text style={styles.schoolLabel}>{getCurrentSchoolSettings().schoolShortName}</Text>
 
       {/* Title */}
       <Text style={styles.title}>{title}</Text>
@@ -40,6 +46,13 @@ const AdminHeader: React.FC<HeaderProps> = ({ title }) => {
       >
         <Pressable style={styles.overlay} onPress={() => setMenuVisible(false)}>
           <View style={styles.menu}>
+            {user && (
+              <View style={styles.userInfo}>
+                <Text style={styles.userName}>{user.displayName}</Text>
+                <Text style={styles.userRole}>{ROLE_LABELS[user.role]}</Text>
+              </View>
+            )}
+
             <TouchableOpacity onPress={() => handleNavigate('/')} style={styles.menuItemContainer}>
               <Ionicons name="home" size={20} color="black" />
               <Text style={styles.menuItemText}>Home</Text>
@@ -55,6 +68,11 @@ const AdminHeader: React.FC<HeaderProps> = ({ title }) => {
               <Text style={styles.menuItemText}>Departments</Text>
             </TouchableOpacity>
 
+            <TouchableOpacity onPress={() => handleNavigate('/terms')} style={styles.menuItemContainer}>
+              <Ionicons name="calendar" size={20} color="black" />
+              <Text style={styles.menuItemText}>Terms</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity onPress={() => handleNavigate('/enrollments')} style={styles.menuItemContainer}>
               <Ionicons name="folder" size={20} color="black" />
               <Text style={styles.menuItemText}>Enrollments</Text>
@@ -69,6 +87,78 @@ const AdminHeader: React.FC<HeaderProps> = ({ title }) => {
               <Ionicons name="file-tray" size={20} color="black" />
               <Text style={styles.menuItemText}>Departmett Studentsett Studentsett Studentsent Students</Text>
             </TouchableOpacity>
+
+            <TouchableOpacity onPress={() => handleNavigate('/bills')} style={styles.menuItemContainer}>
+              <Ionicons name="receipt" size={20} color="black" />
+              <Text style={styles.menuItemText}>Bills</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={() => handleNavigate('/payments')} style={styles.menuItemContainer}>
+              <Ionicons name="cash" size={20} color="black" />
+              <Text style={styles.menuItemText}>Payments</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={() => handleNavigate('/aging-report')} style={styles.menuItemContainer}>
+              <Ionicons name="hourglass" size={20} color="black" />
+              <Text style={styles.menuItemText}>Aging Report</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={() => handleNavigate('/late-fees')} style={styles.menuItemContainer}>
+              <Ionicons name="alarm" size={20} color="black" />
+              <Text style={styles.menuItemText}>Late Fees</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={() => handleNavigate('/discounts')} style={styles.menuItemContainer}>
+              <Ionicons name="pricetag" size={20} color="black" />
+              <Text style={styles.menuItemText}>Discounts</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={() => handleNavigate('/families')} style={styles.menuItemContainer}>
+              <Ionicons name="people" size={20} color="black" />
+              <Text style={styles.menuItemText}>Families</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={() => handleNavigate('/exports')} style={styles.menuItemContainer}>
+              <Ionicons name="download" size={20} color="black" />
+              <Text style={styles.menuItemText}>Exports</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity onPress={() => handleNavigate('/backup')} style={styles.menuItemContainer}>
+              <Ionicons name="cloud-upload" size={20} color="black" />
+              <Text style={styles.menuItemText}>Backup & Restore</Text>
+            </TouchableOpacity>
+
+            {hasPermission('audit.view', user) && (
+              <TouchableOpacity onPress={() => handleNavigate('/audit-log')} style={styles.menuItemContainer}>
+                <Ionicons name="document-text" size={20} color="black" />
+                <Text style={styles.menuItemText}>Audit Log</Text>
+              </TouchableOpacity>
+            )}
+
+            {hasPermission('users.manage', user) && (
+              <TouchableOpacity onPress={() => handleNavigate('/users')} style={styles.menuItemContainer}>
+                <Ionicons name="person-circle" size={20} color="black" />
+                <Text style={styles.menuItemText}>Users</Text>
+              </TouchableOpacity>
+            )}
+
+            {hasPermission('settings.manage', user) && (
+              <TouchableOpacity onPress={() => handleNavigate('/settings')} style={styles.menuItemContainer}>
+                <Ionicons name="settings" size={20} color="black" />
+                <Text style={styles.menuItemText}>Settings</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              onPress={() => {
+                setMenuVisible(false);
+                signOut();
+              }}
+              style={styles.menuItemContainer}
+            >
+              <Ionicons name="log-out" size={20} color="black" />
+              <Text style={styles.menuItemText}>Sign Out</Text>
+            </TouchableOpacity>
           </View>
         </Pressable>
       </Modal>
@@ -87,7 +177,7 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#ddd',
   },
-  mec: {
+  schoolLabel: {
     fontFamily: 'Bold',
     fontSize: 20,
     color: '#007AFF',
@@ -139,6 +229,21 @@ const styles = StyleSheet.create({
     fontSize: 16,
     marginLeft: 12,
   },
+  userInfo: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: Colors.gray[200],
+  },
+  userName: {
+    fontSize: 15,
+    fontFamily: 'SemiBold',
+    color: '#333',
+  },
+  userRole: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+  },
 });
 
 export default AdminHeader;
\ No newline at end of file
@@ -0,0 +1,43 @@
+// components/BillStatusBadge.tsx
+import { Bill } from '@/lib/db/schema';
+import { Colors } from '@/utils/styles';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+const STATUS_COLORS: Record<NonNullable<Bill['status']>, string> = {
+  pending: Colors.info.light,
+  partial: Colors.warning.light,
+  paid: Colors.success.light,
+  overdue: Colors.error.light,
+  cancelled: Colors.gray[600],
+};
+
+interface BillStatusBadgeProps {
+  status?: Bill['status'];
+}
+
+const BillStatusBadge: React.FC<BillStatusBadgeProps> = ({ status = 'pending' }) => {
+  const color = STATUS_COLORS[status] ?? Colors.gray[600];
+
+  return (
+    <View style={[styles.badge, { backgroundColor: color }]}>
+      <Text style={styles.text}>{status.charAt(0).toUpperCase() + status.slice(1)}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    alignSelf: 'flex-start',
+  },
+  text: {
+    color: '#fff',
+    fontSize: 12,
+    fontFamily: 'SemiBold',
+  },
+});
+
+export default BillStatusBadge;
@@ -0,0 +1,460 @@
+// components/DepartmentBillingWizard.tsx
+import { BillItem, BulkBillPreview, BulkBillResult, Department, DepartmentBillItemInput } from '@/lib/db/schema';
+import { getBillItemsByDepartmentId } from '@/lib/operations/bill-items';
+import { createBillsForDepartment, previewBillsForDepartment } from '@/lib/operations/bills';
+import { getCurrentSchoolSettings } from '@/lib/operations/settings';
+import { formatCurrency } from '@/utils/formatters';
+import { formatMoneyInput, parseMoney } from '@/utils/money';
+import { Colors } from '@/utils/styles';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { CheckBox } from 'react-native-elements';
+
+interface LineForm {
+  selected: boolean;
+  amount: string;
+  quantity: string;
+}
+
+interface DepartmentBillingWizardProps {
+  visible: boolean;
+  department: Department | null;
+  onClose: () => void;
+}
+
+type WizardStep = 'items' | 'preview' | 'done';
+
+/**
+ * Guided flow for billing every student enrolled in a department:
+ * choose items and overrides, preview per-student totals, then commit.
+ */
+const DepartmentBillingWizard: React.FC<DepartmentBillingWizardProps> = ({ visible, department, onClose }) => {
+  const db = useSQLiteContext();
+  const [step, setStep] = useState<WizardStep>('items');
+  const [billItems, setBillItems] = useState<BillItem[]>([]);
+  const [lines, setLines] = useState<Record<number, LineForm>>({});
+  const [billName, setBillName] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const { defaultDueDays } = getCurrentSchoolSettings();
+  const [preview, setPreview] = useState<BulkBillPreview | null>(null);
+  const [result, setResult] = useState<BulkBillResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (visible && department?.id) {
+      loadBillItems(department);
+    }
+  }, [visible, department?.id]);
+
+  const loadBillItems = async (dept: Department) => {
+    try {
+      setLoading(true);
+      setStep('items');
+      setPreview(null);
+      setResult(null);
+      setBillName(`${dept.name} ${dept.term} ${dept.year} Fees`);
+      setDueDate('');
+
+      const items = await getBillItemsByDepartmentId(db, dept.id!);
+      setBillItems(items);
+      setLines(
+        Object.fromEntries(
+          items.map(item => [
+            item.id!,
+            { selected: !!item.isRequired, amount: formatMoneyInput(item.amount), quantity: '1' }
+          ])
+        )
+      );
+    } catch (error) {
+      console.error('Error loading bill items:', error);
+      Alert.alert('Error', 'Failed to load bill items for this department');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateLine = (id: number, changes: Partial<LineForm>) => {
+    setLines(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  };
+
+  // Build the operation input from the ticked lines, or null if any line is invalid
+  const buildItems = (): DepartmentBillItemInput[] | null => {
+    const items: DepartmentBillItemInput[] = [];
+    for (const item of billItems) {
+      const line = lines[item.id!];
+      if (!line?.selected) continue;
+
+      const amount = parseMoney(line.amount);
+      const quantity = Number(line.quantity);
+      if (amount === null || amount < 0) return null;
+      if (!Number.isInteger(quantity) || quantity < 1) return null;
+
+      items.push({ billItemId: item.id!, amount, quantity });
+    }
+    return items;
+  };
+
+  const handlePreview = async () => {
+    if (!department?.id) return;
+
+    const items = buildItems();
+    if (!items) {
+      Alert.alert('Error', 'Please enter a valid amount and a whole-number quantity for every selected item.');
+      return;
+    }
+    if (items.length === 0) {
+      Alert.alert('Error', 'Please select at least one bill item.');
+      return;
+    }
+    if (!billName.trim()) {
+      Alert.alert('Error', 'Please enter a bill name.');
+      return;
+    }
+    if (dueDate.trim() && isNaN(Date.parse(dueDate.trim()))) {
+      Alert.alert('Error', 'Please enter the due date as YYYY-MM-DD.');
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const billPreview = await previewBillsForDepartment(db, department.id, items);
+      setPreview(billPreview);
+      setStep('preview');
+    } catch (error) {
+      console.error('Error previewing bills:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to preview bills');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!department?.id) return;
+
+    const items = buildItems();
+    if (!items) return;
+
+    try {
+      setLoading(true);
+      const billResult = await createBillsForDepartment(db, department.id, items, billName.trim(), {
+        dueDate: dueDate.trim() || undefined
+      });
+      setResult(billResult);
+      setStep('done');
+    } catch (error) {
+      console.error('Error creating department bills:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create bills');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedTotal = billItems.reduce((sum, item) => {
+    const line = lines[item.id!];
+    if (!line?.selected) return sum;
+    const amount = parseMoney(line.amount) ?? 0;
+    const quantity = Number(line.quantity) || 0;
+    return sum + amount * quantity;
+  }, 0);
+
+  const renderItemsStep = () => (
+    <>
+      <Text style={styles.inputLabel}>Bill Name *</Text>
+      <TextInput style={styles.input} value={billName} onChangeText={setBillName} placeholder="Enter bill name" />
+
+      <Text style={styles.inputLabel}>Due Date</Text>
+      <TextInput style={styles.input} value={dueDate} onChangeText={setDueDate} placeholder={defaultDueDays != null ? `Blank for ${defaultDueDays} days from today` : 'YYYY-MM-DD'} />
+
+      <Text style={styles.sectionTitle}>Bill Items</Text>
+      {billItems.length === 0 && <Text style={styles.emptyText}>This department has no bill items.</Text>}
+      {billItems.map(item => {
+        const line = lines[item.id!];
+        if (!line) return null;
+        return (
+          <View key={item.id} style={styles.lineContainer}>
+            <CheckBox
+              title={`${item.name}${item.isRequired ? ' (required)' : ''}`}
+              checked={line.selected}
+              onPress={() => updateLine(item.id!, { selected: !line.selected })}
+              containerStyle={styles.checkbox}
+            />
+            {line.selected && (
+              <View style={styles.lineInputs}>
+                <View style={styles.lineInputGroup}>
+                  <Text style={styles.smallLabel}>Amount</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={line.amount}
+                    onChangeText={(value) => updateLine(item.id!, { amount: value })}
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                <View style={styles.lineInputGroup}>
+                  <Text style={styles.smallLabel}>Quantity</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={line.quantity}
+                    onChangeText={(value) => updateLine(item.id!, { quantity: value })}
+                    keyboardType="number-pad"
+                  />
+                </View>
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      <Text style={styles.totalText}>Per student: {formatCurrency(selectedTotal)}</Text>
+
+      <View style={styles.buttons}>
+        <TouchableOpacity onPress={onClose} style={styles.secondaryButton}>
+          <Text style={styles.secondaryButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={handlePreview} style={styles.primaryButton}>
+          <Text style={styles.primaryButtonText}>Preview</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderPreviewStep = () => (
+    <>
+      <Text style={styles.sectionTitle}>{preview?.students.length ?? 0} students will be billed</Text>
+      {preview?.students.length === 0 && (
+        <Text style={styles.emptyText}>No students are actively enrolled in this department.</Text>
+      )}
+      {preview?.students.map(student => (
+        <View key={student.studentId} style={styles.previewRow}>
+          <Text style={styles.previewName}>{student.studentName}</Text>
+          {student.discount > 0 && (
+            <Text style={styles.previewDiscount}>-{formatCurrency(student.discount)}</Text>
+          )}
+          <Text style={styles.previewAmount}>{formatCurrency(student.totalAmount)}</Text>
+        </View>
+      ))}
+      <Text style={styles.totalText}>Total to bill: {formatCurrency(preview?.totalAmount ?? 0)}</Text>
+
+      <View style={styles.buttons}>
+        <TouchableOpacity onPress={() => setStep('items')} style={styles.secondaryButton}>
+          <Text style={styles.secondaryButtonText}>Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={handleCommit}
+          style={[styles.primaryButton, !preview?.students.length && styles.disabledButton]}
+          disabled={!preview?.students.length}
+        >
+          <Text style={styles.primaryButtonText}>Create Bills</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderDoneStep = () => (
+    <>
+      <Text style={styles.sectionTitle}>Billing complete</Text>
+      <View style={styles.previewRow}>
+        <Text style={styles.previewName}>Bills created</Text>
+        <Text style={styles.previewAmount}>{result?.billsCreated ?? 0}</Text>
+      </View>
+      <View style={styles.previewRow}>
+        <Text style={styles.previewName}>Total billed</Text>
+        <Text style={styles.previewAmount}>{formatCurrency(result?.totalAmount ?? 0)}</Text>
+      </View>
+      {result && result.errors.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, styles.errorTitle]}>{result.errors.length} failed</Text>
+          {result.errors.map(error => (
+            <Text key={error.studentId} style={styles.errorText}>
+              Student {error.studentId}: {error.error}
+            </Text>
+          ))}
+        </>
+      )}
+      <View style={styles.buttons}>
+        <TouchableOpacity onPress={onClose} style={styles.primaryButton}>
+          <Text style={styles.primaryButtonText}>Done</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  return (
+    <Modal animationType="slide" transparent={true} visible={visible} onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={step === 'done' ? onClose : undefined}>
+        <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+          <ScrollView>
+            <Text style={styles.modalTitle}>Bill {department?.name}</Text>
+            {loading ? (
+              <ActivityIndicator size="large" color="#0000ff" />
+            ) : step === 'items' ? (
+              renderItemsStep()
+            ) : step === 'preview' ? (
+              renderPreviewStep()
+            ) : (
+              renderDoneStep()
+            )}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '90%',
+    maxHeight: '90%',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginVertical: 10,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+    marginBottom: 5,
+  },
+  smallLabel: {
+    fontSize: 12,
+    fontFamily: 'Medium',
+    color: '#666',
+    marginBottom: 4,
+  },
+  input: {
+    width: '100%',
+    padding: 10,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#666',
+  },
+  lineContainer: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    marginBottom: 8,
+    paddingHorizontal: 8,
+  },
+  checkbox: {
+    backgroundColor: 'transparent',
+    borderWidth: 0,
+    marginLeft: 0,
+    paddingLeft: 0,
+  },
+  lineInputs: {
+    flexDirection: 'row',
+  },
+  lineInputGroup: {
+    flex: 1,
+    marginRight: 8,
+  },
+  totalText: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#007AFF',
+    marginTop: 8,
+    textAlign: 'right',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  previewName: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#333',
+  },
+  previewDiscount: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: Colors.success.light,
+    marginRight: 8,
+  },
+  previewAmount: {
+    fontSize: 14,
+    fontFamily: 'SemiBold',
+    color: '#333',
+  },
+  errorTitle: {
+    color: Colors.error.light,
+  },
+  errorText: {
+    fontSize: 13,
+    color: Colors.error.light,
+    marginBottom: 4,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: '#ccc',
+    padding: 12,
+    borderRadius: 5,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: Colors.success['dark'],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+  disabledButton: {
+    backgroundColor: '#a0a0a0',
+  },
+});
+
+export default DepartmentBillingWizard;
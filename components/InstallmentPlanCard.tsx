@@ -0,0 +1,437 @@
+// components/InstallmentPlanCard.tsx
+import { BillWithItems, InstallmentWithStatus } from '@/lib/db/schema';
+import {
+  createInstallmentPlan,
+  deleteInstallmentPlan,
+  getInstallmentSchedule,
+  splitIntoInstallments
+} from '@/lib/operations/installments';
+import { formatCurrency } from '@/utils/formatters';
+import { formatMoneyInput, parseMoney, sumMoney } from '@/utils/money';
+import { Colors } from '@/utils/styles';
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+
+const INSTALLMENT_COUNTS = [2, 3, 4];
+
+const STATUS_COLORS: Record<InstallmentWithStatus['status'], string> = {
+  pending: Colors.info.light,
+  partial: Colors.warning.light,
+  paid: Colors.success.light,
+  overdue: Colors.error.light,
+};
+
+interface InstallmentRow {
+  amount: string;
+  dueDate: string;
+}
+
+interface InstallmentPlanCardProps {
+  bill: BillWithItems;
+  onChanged: () => void;
+}
+
+// Due dates a month apart, starting today
+const monthlyDueDates = (count: number): string[] => {
+  const start = new Date();
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(start.getFullYear(), start.getMonth() + index, start.getDate());
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  });
+};
+
+/**
+ * A bill's installment plan, with a form to split the bill into installments
+ */
+const InstallmentPlanCard: React.FC<InstallmentPlanCardProps> = ({ bill, onChanged }) => {
+  const db = useSQLiteContext();
+  const [schedule, setSchedule] = useState<InstallmentWithStatus[]>([]);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [rows, setRows] = useState<InstallmentRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const netTotal = bill.totalAmount - (bill.discount || 0);
+  const canPlan = bill.status !== 'cancelled' && bill.status !== 'paid';
+
+  useEffect(() => {
+    loadSchedule();
+  }, [bill]);
+
+  const loadSchedule = async () => {
+    try {
+      setSchedule(await getInstallmentSchedule(db, bill.id!));
+    } catch (error) {
+      console.error('Error loading installment plan:', error);
+    }
+  };
+
+  const fillRows = (count: number) => {
+    setRows(splitIntoInstallments(netTotal, monthlyDueDates(count)).map(installment => ({
+      amount: formatMoneyInput(installment.amount),
+      dueDate: installment.dueDate,
+    })));
+  };
+
+  const openModal = () => {
+    if (schedule.length > 0) {
+      setRows(schedule.map(installment => ({
+        amount: formatMoneyInput(installment.amount),
+        dueDate: installment.dueDate.slice(0, 10),
+      })));
+    } else {
+      fillRows(3);
+    }
+    setModalVisible(true);
+  };
+
+  const updateRow = (index: number, changes: Partial<InstallmentRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const savePlan = async () => {
+    try {
+      setIsSaving(true);
+      await createInstallmentPlan(db, bill.id!, rows.map(row => ({
+        amount: parseMoney(row.amount) ?? NaN,
+        dueDate: row.dueDate.trim(),
+      })));
+      setModalVisible(false);
+      onChanged();
+    } catch (error) {
+      console.error('Error saving installment plan:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save installment plan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removePlan = () => {
+    Alert.alert('Remove Plan', 'Remove the installment plan? The bill will be due in full.', [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteInstallmentPlan(db, bill.id!);
+            onChanged();
+          } catch (error) {
+            console.error('Error removing installment plan:', error);
+            Alert.alert('Error', 'Failed to remove installment plan');
+          }
+        }
+      }
+    ]);
+  };
+
+  if (schedule.length === 0 && !canPlan) {
+    return null;
+  }
+
+  const rowsTotal = sumMoney(rows.map(row => parseMoney(row.amount) ?? 0));
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Installment Plan</Text>
+
+      {schedule.length === 0 ? (
+        <Text style={styles.emptyText}>This bill is due in one payment.</Text>
+      ) : (
+        schedule.map(installment => (
+          <View key={installment.id} style={styles.row}>
+            <View style={styles.info}>
+              <Text style={styles.title}>
+                #{installment.sequence} · due {installment.dueDate.slice(0, 10)}
+              </Text>
+              <Text style={styles.meta}>
+                Paid {formatCurrency(installment.paidAmount)} of {formatCurrency(installment.amount)}
+              </Text>
+            </View>
+            <View style={[styles.badge, { backgroundColor: STATUS_COLORS[installment.status] }]}>
+              <Text style={styles.badgeText}>
+                {installment.status.charAt(0).toUpperCase() + installment.status.slice(1)}
+              </Text>
+            </View>
+          </View>
+        ))
+      )}
+
+      {canPlan && (
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.actionButton} onPress={openModal}>
+            <Text style={styles.actionText}>{schedule.length === 0 ? 'Split into Installments' : 'Edit Plan'}</Text>
+          </TouchableOpacity>
+          {schedule.length > 0 && (
+            <TouchableOpacity style={[styles.actionButton, styles.removeButton]} onPress={removePlan}>
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={modalVisible}
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <Pressable style={styles.backdrop} onPress={() => setModalVisible(false)}>
+          <Pressable style={styles.modalContent} onPress={e => e.stopPropagation()}>
+            <ScrollView>
+              <Text style={styles.modalTitle}>Installment Plan</Text>
+              <Text style={styles.meta}>Bill total {formatCurrency(netTotal)}</Text>
+
+              <View style={styles.chipRow}>
+                {INSTALLMENT_COUNTS.map(count => (
+                  <TouchableOpacity
+                    key={count}
+                    style={[styles.chip, rows.length === count && styles.chipActive]}
+                    onPress={() => fillRows(count)}
+                  >
+                    <Text style={[styles.chipText, rows.length === count && styles.chipTextActive]}>
+                      {count} parts
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {rows.map((row, index) => (
+                <View key={index} style={styles.inputRow}>
+                  <Text style={styles.inputLabel}>#{index + 1}</Text>
+                  <TextInput
+                    style={[styles.input, styles.amountInput]}
+                    keyboardType="decimal-pad"
+                    value={row.amount}
+                    onChangeText={value => updateRow(index, { amount: value })}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.dateInput]}
+                    placeholder="YYYY-MM-DD"
+                    value={row.dueDate}
+                    onChangeText={value => updateRow(index, { dueDate: value })}
+                  />
+                </View>
+              ))}
+
+              <Text style={[styles.totalText, Math.abs(rowsTotal - netTotal) >= 0.005 && styles.mismatchText]}>
+                Plan total: {formatCurrency(rowsTotal)}
+              </Text>
+
+              <View style={styles.modalButtons}>
+                <TouchableOpacity onPress={() => setModalVisible(false)} style={styles.cancelButton}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={savePlan} style={styles.saveButton} disabled={isSaving}>
+                  {isSaving ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <Text style={styles.saveButtonText}>Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontFamily: 'Regular',
+    color: '#666',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 12,
+    fontFamily: 'Regular',
+    color: '#666',
+    marginTop: 2,
+  },
+  badge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontFamily: 'SemiBold',
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    backgroundColor: Colors.purple[500],
+    padding: 10,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  actionText: {
+    color: '#fff',
+    fontFamily: 'SemiBold',
+  },
+  removeButton: {
+    backgroundColor: '#ccc',
+    marginLeft: 10,
+  },
+  removeText: {
+    color: '#333',
+    fontFamily: 'SemiBold',
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    width: '90%',
+    maxHeight: '90%',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 20,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontFamily: 'Bold',
+    color: '#333',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    marginVertical: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: Colors.purple[500],
+  },
+  chipText: {
+    color: '#333',
+    fontFamily: 'Medium',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  inputLabel: {
+    width: 28,
+    fontSize: 14,
+    fontFamily: 'Medium',
+    color: '#333',
+  },
+  input: {
+    padding: 10,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 5,
+  },
+  amountInput: {
+    flex: 1,
+    marginRight: 8,
+  },
+  dateInput: {
+    flex: 1.3,
+  },
+  totalText: {
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+    color: '#007AFF',
+    marginTop: 8,
+    textAlign: 'right',
+  },
+  mismatchText: {
+    color: Colors.error.light,
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#ccc',
+    padding: 12,
+    borderRadius: 5,
+    marginRight: 10,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: Colors.success['dark'],
+    padding: 12,
+    borderRadius: 5,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontFamily: 'SemiBold',
+  },
+});
+
+export default InstallmentPlanCard;
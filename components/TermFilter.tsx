@@ -0,0 +1,59 @@
+// components/TermFilter.tsx
+import { TermWithYear } from '@/lib/db/schema';
+import { Colors } from '@/utils/styles';
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+interface TermFilterProps {
+  terms: TermWithYear[];
+  selectedTermId: number | null;
+  onSelect: (termId: number | null) => void;
+  allLabel?: string; // Label of the chip for no term; leave out to require a term
+}
+
+/**
+ * A row of chips to pick a term, newest first
+ */
+const TermFilter: React.FC<TermFilterProps> = ({ terms, selectedTermId, onSelect, allLabel }) => {
+  const renderChip = (termId: number | null, label: string) => (
+    <TouchableOpacity
+      key={termId ?? 'all'}
+      style={[styles.chip, selectedTermId === termId && styles.chipActive]}
+      onPress={() => onSelect(termId)}
+    >
+      <Text style={[styles.chipText, selectedTermId === termId && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+      {allLabel !== undefined && renderChip(null, allLabel)}
+      {terms.map(term => renderChip(term.id!, `${term.name} ${term.academicYearName}`))}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipRow: {
+    marginBottom: 10,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: Colors.purple[500],
+  },
+  chipText: {
+    color: '#333',
+    fontFamily: 'Medium',
+  },
+  chipTextActive: {
+    color: '#fff',
+  },
+});
+
+export default TermFilter;
@@ -0,0 +1,53 @@
+import { isWriteInFlight } from '@/lib/db/transaction';
+import { applyLateFees } from '@/lib/operations/late-fees';
+import { refreshOverdueBills } from '@/lib/operations/payments';
+import { getCurrentSchoolSettings } from '@/lib/operations/settings';
+import { useSQLiteContext } from 'expo-sqlite';
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+
+/**
+ * Keep overdue bill statuses and late fees up to date: runs the overdue check,
+ * then the late fee rules, when the app starts and every time it returns to the foreground.
+ * Late fees are only charged here under the automatic policy; under the manual one they are
+ * charged from the Late Fees screen. A run is skipped while another write is in flight, e.g. when
+ * the app comes back from the share sheet or document picker mid-restore; the next one catches up.
+ */
+export function useOverdueScheduler() {
+  const db = useSQLiteContext();
+  const running = useRef(false);
+
+  useEffect(() => {
+    const run = async () => {
+      if (running.current || isWriteInFlight()) return;
+      running.current = true;
+      try {
+        const { checked, changes } = await refreshOverdueBills(db);
+        if (changes.length > 0) {
+          console.log(`Overdue check: ${changes.length} of ${checked} bills changed status`);
+        }
+
+        if (getCurrentSchoolSettings().lateFeePolicy === 'automatic') {
+          const fees = await applyLateFees(db);
+          if (fees.length > 0) {
+            console.log(`Late fees: charged ${fees.length} fees`);
+          }
+        }
+      } catch (error) {
+        console.error('Overdue check or late fees failed:', error);
+      } finally {
+        running.current = false;
+      }
+    };
+
+    run();
+
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        run();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [db]);
+}
@@ -0,0 +1,221 @@
+// lib/db/backup.ts
+import * as SQLite from 'expo-sqlite';
+import { recordAudit, setAuditActor } from '../operations/audit';
+import { requirePermission, setCurrentUser } from '../operations/auth';
+import { loadSchoolSettings } from '../operations/settings';
+import { DATABASE_VERSION, migrations, runMigrations } from './migrations';
+import { beginTransaction } from './transaction';
+
+export const BACKUP_FORMAT = 'mec-connect-backup';
+
+/**
+ * A JSON snapshot of every table. The header records the schema version the rows
+ * were taken at, so a restore can bring them up to the app's current schema.
+ */
+export interface DatabaseBackup {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  createdAt: string;
+  tables: Record<string, Record<string, unknown>[]>;
+}
+
+/**
+ * Get the names of the app's tables, leaving out SQLite's own
+ */
+async function getTableNames(db: SQLite.SQLiteDatabase): Promise<string[]> {
+  const rows = await db.getAllAsync<{ name: string }>(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`
+  );
+  return rows.map(row => row.name);
+}
+
+/**
+ * Snapshot every table into a backup. This includes the user accounts with their password hashes,
+ * so the backup file must be kept as safe as the device.
+ * @param db Database instance
+ * @returns Backup with a schema version header
+ */
+export async function createBackup(db: SQLite.SQLiteDatabase): Promise<DatabaseBackup> {
+  requirePermission('data.export');
+
+  try {
+    const version = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const tables: DatabaseBackup['tables'] = {};
+
+    for (const table of await getTableNames(db)) {
+      tables[table] = await db.getAllAsync<Record<string, unknown>>(`SELECT * FROM "${table}"`);
+    }
+
+    return {
+      format: BACKUP_FORMAT,
+      schemaVersion: version?.user_version ?? 0,
+      createdAt: new Date().toISOString(),
+      tables
+    };
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check that parsed JSON is a backup this app can restore
+ * @param data Parsed backup file
+ * @returns The backup
+ */
+export function validateBackup(data: unknown): DatabaseBackup {
+  const backup = data as Partial<DatabaseBackup> | null;
+
+  if (!backup || typeof backup !== 'object' || backup.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not an MEC Connect backup');
+  }
+  if (!Number.isInteger(backup.schemaVersion) || backup.schemaVersion! < 1) {
+    throw new Error('The backup does not record a valid schema version');
+  }
+  if (backup.schemaVersion! > DATABASE_VERSION) {
+    throw new Error(
+      `The backup is from a newer version of the app (schema ${backup.schemaVersion}); update the app to restore it`
+    );
+  }
+  if (!migrations.some(migration => migration.version === backup.schemaVersion)) {
+    throw new Error(`No migration path from schema version ${backup.schemaVersion}`);
+  }
+  if (!backup.tables || typeof backup.tables !== 'object') {
+    throw new Error('The backup has no table data');
+  }
+  for (const [table, rows] of Object.entries(backup.tables)) {
+    if (!Array.isArray(rows)) {
+      throw new Error(`The backup data for ${table} is not a list of rows`);
+    }
+  }
+
+  return backup as DatabaseBackup;
+}
+
+/**
+ * Insert a table's rows, naming each row's own columns
+ */
+async function insertRows(db: SQLite.SQLiteDatabase, table: string, rows: Record<string, unknown>[]) {
+  for (const row of rows) {
+    const columns = Object.keys(row);
+    if (columns.length === 0) continue;
+
+    await db.runAsync(
+      `INSERT INTO "${table}" (${columns.map(column => `"${column}"`).join(', ')})
+       VALUES (${columns.map(() => '?').join(', ')})`,
+      ...columns.map(column => row[column] as SQLite.SQLiteBindValue)
+    );
+  }
+}
+
+/**
+ * Add the backup's audit entries that the log does not already have, e.g. when it comes from
+ * another device, keeping every entry already on this one. Entries get new IDs in this log.
+ */
+async function mergeAuditLog(db: SQLite.SQLiteDatabase, rows: Record<string, unknown>[]): Promise<number> {
+  let merged = 0;
+  for (const row of rows) {
+    const values = ['entity', 'entityId', 'action', 'before', 'after', 'actor', 'createdAt']
+      .map(column => (row[column] ?? null) as SQLite.SQLiteBindValue);
+    const result = await db.runAsync(
+      `INSERT INTO audit_log (entity, entityId, action, before, after, actor, createdAt)
+       SELECT ?, ?, ?, ?, ?, ?, ?
+       WHERE NOT EXISTS (
+         SELECT 1 FROM audit_log
+         WHERE entity = ? AND entityId IS ? AND action = ? AND before IS ? AND after IS ? AND actor = ? AND createdAt IS ?
+       )`,
+      ...values,
+      ...values
+    );
+    merged += result.changes;
+  }
+  return merged;
+}
+
+/**
+ * Replace all data with a backup. The audit log is kept rather than replaced:
+ * the backup's entries are merged into it, and the restore itself is recorded.
+ * The backup is first loaded into a scratch database built by the migrations up to its
+ * schema version, then migrated to the current version; only if all of that succeeds
+ * are the current tables emptied and refilled, in one transaction.
+ * The user accounts are replaced with the backup's, so the signed-in user is signed out afterwards:
+ * their account may no longer exist or may have another role.
+ * @param db Database instance
+ * @param backup A backup checked with validateBackup
+ * @returns Number of tables and rows restored
+ */
+export async function restoreBackup(
+  db: SQLite.SQLiteDatabase,
+  backup: DatabaseBackup
+): Promise<{ tables: number; rows: number }> {
+  requirePermission('data.restore');
+
+  const scratch = await SQLite.openDatabaseAsync(':memory:');
+
+  try {
+    // Rebuild the backup's schema and load its rows, then bring it up to date
+    await runMigrations(scratch, backup.schemaVersion);
+    const backupTables = await getTableNames(scratch);
+    for (const [table, rows] of Object.entries(backup.tables)) {
+      if (!backupTables.includes(table)) {
+        throw new Error(`The backup contains an unknown table: ${table}`);
+      }
+      await insertRows(scratch, table, rows);
+    }
+    await runMigrations(scratch);
+
+    const tables = await getTableNames(scratch);
+    const currentTables = await getTableNames(db);
+    const missing = tables.filter(table => !currentTables.includes(table));
+    if (missing.length > 0) {
+      throw new Error(`The database is missing tables: ${missing.join(', ')}`);
+    }
+
+    let rowCount = 0;
+    const transaction = await beginTransaction(db);
+
+    try {
+      // Check references once everything is back in place rather than row by row
+      await db.execAsync('PRAGMA defer_foreign_keys = ON');
+
+      const dataTables = tables.filter(table => table !== 'audit_log');
+      for (const table of dataTables) {
+        await db.runAsync(`DELETE FROM "${table}"`);
+      }
+      for (const table of dataTables) {
+        const rows = await scratch.getAllAsync<Record<string, unknown>>(`SELECT * FROM "${table}"`);
+        await insertRows(db, table, rows);
+        rowCount += rows.length;
+      }
+
+      rowCount += await mergeAuditLog(
+        db,
+        await scratch.getAllAsync<Record<string, unknown>>('SELECT * FROM audit_log ORDER BY id')
+      );
+
+      await transaction.commit();
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    await recordAudit(db, 'backup', null, 'restore', null, {
+      createdAt: backup.createdAt,
+      schemaVersion: backup.schemaVersion,
+      tables: tables.length,
+      rows: rowCount
+    });
+    setCurrentUser(null);
+    setAuditActor(null);
+
+    // Format amounts in the restored school's currency
+    await loadSchoolSettings(db);
+
+    return { tables: tables.length, rows: rowCount };
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    throw error;
+  } finally {
+    await scratch.closeAsync();
+  }
+}
@@ -1,52 +1,72 @@
 // lib/db/init.ts
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as SQLite from 'expo-sqlite';
-import { createTablesSQL } from './schema';
+import { loadSchoolSettings } from '../operations/settings';
+import { DATABASE_VERSION, getDatabaseVersion, runMigrations } from './migrations';
 
-// Database version
-const DATABASE_VERSION = 1;
-const DATABASE_NAME = 'mec_connect_app.db';
+export const DEFAULT_DATABASE_NAME = 'mec_connect_app.db';
+
+// The file has to be known before the database opens, so its name is a device setting
+// kept outside the database rather than a row in school_settings
+const DATABASE_NAME_KEY = 'settings.databaseName';
+
+/**
+ * Get the name of the database file this device opens
+ */
+export async function getDatabaseName(): Promise<string> {
+  try {
+    return (await AsyncStorage.getItem(DATABASE_NAME_KEY)) || DEFAULT_DATABASE_NAME;
+  } catch (error) {
+    console.error('Error reading database name:', error);
+    return DEFAULT_DATABASE_NAME;
+  }
+}
+
+/**
+ * Choose the database file this device opens from the next start,
+ * e.g. to keep a second school's records apart. A new name starts an empty database.
+ * @param name File name ending in .db
+ */
+export async function setDatabaseName(name: string): Promise<void> {
+  if (!/^[a-zA-Z0-9_-]+\.db$/.test(name)) {
+    throw new Error('The file name must be letters, numbers, dashes or underscores ending in .db');
+  }
+  await AsyncStorage.setItem(DATABASE_NAME_KEY, name);
+}
 
 /**
  * Open and initialize the database
  */
 export async function openDatabase(): Promise<SQLite.SQLiteDatabase> {
-  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  const db = await SQLite.openDatabaseAsync(await getDatabaseName());
   await initDatabase(db);
   return db;
 }
 
 /**
- * Initialize the database with required tables
+ * Initialize the database and apply any pending migrations
  */
 export async function initDatabase(db: SQLite.SQLiteDatabase): Promise<void> {
   try {
-    // Get the current database version
-    const result = await db.getFirstAsync<{ user_version: number }>(
-      'PRAGMA user_version'
-    );
-    const currentDbVersion = result?.user_version ?? 0;
-
-    // Skip initialization if database is already at the correct version
-    if (currentDbVersion >= DATABASE_VERSION) {
-      console.log('Database already at version', currentDbVersion);
-      return;
-    }
-
-    console.log('Initializing database version', DATABASE_VERSION);
-
     // Enable WAL journal mode for better performance
     await db.execAsync('PRAGMA journal_mode = WAL');
     
-    // Enable foreign keys support
+    // Foreign key enforcement is per connection, so enable it on every open
     await db.execAsync('PRAGMA foreign_keys = ON');
 
-    // Create all tables
-    await db.execAsync(createTablesSQL);
+    const currentDbVersion = await getDatabaseVersion(db);
+
+    // Skip migrations if database is already at the correct version
+    if (currentDbVersion === DATABASE_VERSION) {
+      console.log('Database already at version', currentDbVersion);
+      return;
+    }
+
+    console.log(`Migrating database from version ${currentDbVersion} to ${DATABASE_VERSION}`);
 
-    // Set the database version
-    await db.execAsync(`PRAGMA user_version = ${DATABASE_VERSION}`);
+    const version = await runMigrations(db);
     
-    console.log('Database initialization complete');
+    console.log('Database initialization complete at version', version);
   } catch (error) {
     console.error('Database initialization error:', error);
     throw error;
@@ -55,7 +75,9 @@ export async function initDatabase(db: SQLite.SQLiteDatabase): Promise<void> {
 
 /**
  * Database migrator function for the SQLiteProvider
+ * Also applies the school's settings, so amounts are formatted in its currency from the first screen
  */
 export async function migrateDatabase(db: SQLite.SQLiteDatabase): Promise<void> {
   await initDatabase(db);
+  await loadSchoolSettings(db);
 }
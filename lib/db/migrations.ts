@@ -0,0 +1,550 @@
+// lib/db/migrations.ts
+import * as SQLite from 'expo-sqlite';
+import { createTablesSQL, formatReceiptNumber, normalizeAcademicYearName, normalizeTermName } from './schema';
+
+/**
+ * A single schema change. Migrations are applied in version order, each in
+ * its own transaction, and the database's user_version records the last one applied.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  // Run with foreign keys off, for migrations that rebuild tables other tables reference
+  disableForeignKeys?: boolean;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+/**
+ * Rebuild a table to change the type of some of its columns, converting their values.
+ * Follows SQLite's recipe for changes ALTER TABLE cannot make: create the new table,
+ * copy the rows across, drop the old table, rename the new one and recreate its indexes.
+ * Foreign keys must be off, or dropping the old table would cascade to its children.
+ * @param db Database instance
+ * @param table Table to rebuild
+ * @param columns New type and SQL expression for the value of each changed column
+ */
+async function rebuildTable(
+  db: SQLite.SQLiteDatabase,
+  table: string,
+  columns: Record<string, { type: string; value: string }>
+): Promise<void> {
+  const definition = await db.getFirstAsync<{ sql: string }>(
+    `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    table
+  );
+  if (!definition) {
+    throw new Error(`Table ${table} not found`);
+  }
+  const indexes = await db.getAllAsync<{ sql: string }>(
+    `SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL`,
+    table
+  );
+  const sequence = await db.getFirstAsync<{ seq: number }>('SELECT seq FROM sqlite_sequence WHERE name = ?', table);
+  const names = (await db.getAllAsync<{ name: string }>(`PRAGMA table_info("${table}")`)).map(column => column.name);
+
+  let createSQL = definition.sql.replace(/^CREATE TABLE\s+("[^"]+"|\w+)/i, `CREATE TABLE "${table}_new"`);
+  for (const [column, { type }] of Object.entries(columns)) {
+    createSQL = createSQL.replace(new RegExp(`\\b${column}\\s+\\w+`), `${column} ${type}`);
+  }
+
+  await db.execAsync(createSQL);
+  await db.execAsync(
+    `INSERT INTO "${table}_new" (${names.map(name => `"${name}"`).join(', ')})
+     SELECT ${names.map(name => columns[name]?.value ?? `"${name}"`).join(', ')} FROM "${table}"`
+  );
+  await db.execAsync(`DROP TABLE "${table}"`);
+  await db.execAsync(`ALTER TABLE "${table}_new" RENAME TO "${table}"`);
+  for (const index of indexes) {
+    await db.execAsync(index.sql);
+  }
+
+  // Keep AUTOINCREMENT from reusing the IDs of rows deleted before the rebuild
+  if (sequence) {
+    await db.runAsync('UPDATE sqlite_sequence SET seq = MAX(seq, ?) WHERE name = ?', sequence.seq, table);
+  }
+}
+
+// SQL converting a REAL amount in cedis to INTEGER pesewas
+const toPesewas = (column: string) => `CAST(ROUND(${column} * 100) AS INTEGER)`;
+
+/**
+ * Ordered migration registry.
+ * Append new migrations with the next version number; never edit or reorder
+ * migrations that have shipped, as devices may already have applied them.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create initial tables',
+    up: async (db) => {
+      await db.execAsync(createTablesSQL);
+    },
+  },
+  {
+    version: 2,
+    description: 'Add sequential receipt numbers to payments',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE payments ADD COLUMN receiptNumber TEXT;
+        ALTER TABLE payments ADD COLUMN receiptYear INTEGER;
+        ALTER TABLE payments ADD COLUMN receiptSequence INTEGER;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_receipt ON payments(receiptYear, receiptSequence);
+
+        CREATE TABLE IF NOT EXISTS receipt_sequences (
+          year INTEGER PRIMARY KEY,
+          lastNumber INTEGER NOT NULL DEFAULT 0
+        );
+      `);
+
+      // Number existing payments in the order they were received
+      const payments = await db.getAllAsync<{ id: number; paymentDate: string }>(
+        'SELECT id, paymentDate FROM payments ORDER BY paymentDate, id'
+      );
+      const lastNumbers = new Map<number, number>();
+      for (const payment of payments) {
+        const year = Number(payment.paymentDate.slice(0, 4)) || new Date().getFullYear();
+        const sequence = (lastNumbers.get(year) ?? 0) + 1;
+        lastNumbers.set(year, sequence);
+        await db.runAsync(
+          'UPDATE payments SET receiptNumber = ?, receiptYear = ?, receiptSequence = ? WHERE id = ?',
+          formatReceiptNumber(year, sequence),
+          year,
+          sequence,
+          payment.id
+        );
+      }
+      for (const [year, lastNumber] of lastNumbers) {
+        await db.runAsync('INSERT INTO receipt_sequences (year, lastNumber) VALUES (?, ?)', year, lastNumber);
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Track bill status transitions',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS bill_status_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          billId INTEGER NOT NULL,
+          fromStatus TEXT,
+          toStatus TEXT NOT NULL,
+          reason TEXT,
+          changedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (billId) REFERENCES bills(id) ON DELETE CASCADE
+        );
+        CREATE INDEX IF NOT EXISTS idx_bill_status_history_bill ON bill_status_history(billId);
+      `);
+    },
+  },
+  {
+    version: 4,
+    description: 'Add late fee rules',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS late_fee_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL CHECK (type IN ('flat', 'percentage')),
+          amount REAL NOT NULL,
+          graceDays INTEGER NOT NULL DEFAULT 30,
+          maxAmount REAL,
+          departmentId INTEGER,
+          isActive BOOLEAN DEFAULT 1,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (departmentId) REFERENCES departments (id) ON DELETE CASCADE
+        );
+
+        -- One charge per rule per bill, so applying rules again never double-charges
+        CREATE TABLE IF NOT EXISTS late_fee_applications (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          billId INTEGER NOT NULL,
+          ruleId INTEGER NOT NULL,
+          billItemRelationId INTEGER NOT NULL,
+          amount REAL NOT NULL,
+          appliedAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (billId, ruleId),
+          FOREIGN KEY (billId) REFERENCES bills (id) ON DELETE CASCADE,
+          FOREIGN KEY (ruleId) REFERENCES late_fee_rules (id) ON DELETE CASCADE,
+          FOREIGN KEY (billItemRelationId) REFERENCES bill_item_relations (id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    description: 'Add installment plans for bills',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS bill_installments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          billId INTEGER NOT NULL,
+          sequence INTEGER NOT NULL,
+          amount REAL NOT NULL,
+          dueDate TEXT NOT NULL,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (billId, sequence),
+          FOREIGN KEY (billId) REFERENCES bills (id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    description: 'Add discount schemes and student discounts',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS discount_schemes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL CHECK (type IN ('percentage', 'fixed')),
+          value REAL NOT NULL,
+          categories TEXT, -- JSON array of bill item categories; NULL for the whole bill
+          description TEXT,
+          isActive BOOLEAN DEFAULT 1,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS student_discounts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          studentId INTEGER NOT NULL,
+          schemeId INTEGER NOT NULL,
+          departmentId INTEGER NOT NULL,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (studentId, schemeId, departmentId),
+          FOREIGN KEY (studentId) REFERENCES students (id) ON DELETE CASCADE,
+          FOREIGN KEY (schemeId) REFERENCES discount_schemes (id) ON DELETE CASCADE,
+          FOREIGN KEY (departmentId) REFERENCES departments (id) ON DELETE CASCADE
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    description: 'Add families and sibling discounts',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS families (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          guardianName TEXT NOT NULL,
+          phone TEXT NOT NULL,
+          email TEXT,
+          address TEXT,
+          isActive BOOLEAN DEFAULT 1,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        ALTER TABLE students ADD COLUMN familyId INTEGER REFERENCES families (id) ON DELETE SET NULL;
+        CREATE INDEX IF NOT EXISTS idx_students_family ON students(familyId);
+
+        ALTER TABLE discount_schemes ADD COLUMN siblingRank INTEGER;
+      `);
+    },
+  },
+  {
+    version: 8,
+    description: 'Add audit log',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL,
+          entityId INTEGER,
+          action TEXT NOT NULL,
+          before TEXT,
+          after TEXT,
+          actor TEXT NOT NULL,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity, entityId);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_created ON audit_log(createdAt);
+
+        -- Entries are written once and never changed or removed
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'Audit log entries cannot be changed');
+        END;
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'Audit log entries cannot be deleted');
+        END;
+      `);
+    },
+  },
+  {
+    version: 9,
+    description: 'Add user accounts',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          displayName TEXT NOT NULL,
+          role TEXT NOT NULL,
+          passwordHash TEXT NOT NULL,
+          lastLoginAt TEXT,
+          isActive BOOLEAN DEFAULT 1,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: 'Store amounts as integer pesewas',
+    disableForeignKeys: true,
+    up: async (db) => {
+      const money = (column: string) => ({ type: 'INTEGER', value: toPesewas(column) });
+
+      await rebuildTable(db, 'bill_items', { amount: money('amount') });
+      await rebuildTable(db, 'bills', { totalAmount: money('totalAmount'), discount: money('discount') });
+      await rebuildTable(db, 'bill_item_relations', { amount: money('amount'), discount: money('discount') });
+      await rebuildTable(db, 'payments', { amount: money('amount') });
+      await rebuildTable(db, 'late_fee_applications', { amount: money('amount') });
+      await rebuildTable(db, 'bill_installments', { amount: money('amount') });
+
+      // A rule's amount and a scheme's value are percentages for some types, so only the
+      // money ones are converted and the columns stay REAL
+      await rebuildTable(db, 'late_fee_rules', {
+        amount: { type: 'REAL', value: `CASE WHEN type = 'flat' THEN ${toPesewas('amount')} ELSE amount END` },
+        maxAmount: money('maxAmount')
+      });
+      await db.runAsync(`UPDATE discount_schemes SET value = ${toPesewas('value')} WHERE type = 'fixed'`);
+    },
+  },
+  {
+    version: 11,
+    description: 'Add school settings with the currency format',
+    up: async (db) => {
+      // At most one row; until the school saves its settings, the cedi format the app has always used applies
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS school_settings (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          currencyCode TEXT NOT NULL DEFAULT 'GHS',
+          currencySymbol TEXT NOT NULL DEFAULT 'GH₵',
+          symbolPosition TEXT NOT NULL DEFAULT 'before',
+          thousandsSeparator TEXT NOT NULL DEFAULT ',',
+          decimalSeparator TEXT NOT NULL DEFAULT '.',
+          decimalPlaces INTEGER NOT NULL DEFAULT 2,
+          currencyName TEXT NOT NULL DEFAULT 'Ghana cedi',
+          currencyNamePlural TEXT NOT NULL DEFAULT 'Ghana cedis',
+          minorUnitName TEXT NOT NULL DEFAULT 'pesewa',
+          minorUnitNamePlural TEXT NOT NULL DEFAULT 'pesewas',
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+  },
+  {
+    version: 12,
+    description: 'Add school details, numbering and billing defaults to settings',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE school_settings ADD COLUMN schoolName TEXT NOT NULL DEFAULT 'MEC';
+        ALTER TABLE school_settings ADD COLUMN schoolShortName TEXT NOT NULL DEFAULT 'MEC';
+        ALTER TABLE school_settings ADD COLUMN schoolAddress TEXT NOT NULL DEFAULT '';
+        ALTER TABLE school_settings ADD COLUMN schoolPhone TEXT NOT NULL DEFAULT '';
+        ALTER TABLE school_settings ADD COLUMN schoolLogo TEXT;
+        ALTER TABLE school_settings ADD COLUMN receiptPrefix TEXT NOT NULL DEFAULT 'RCT';
+        ALTER TABLE school_settings ADD COLUMN invoicePrefix TEXT NOT NULL DEFAULT 'INV';
+        ALTER TABLE school_settings ADD COLUMN defaultDueDays INTEGER;
+        ALTER TABLE school_settings ADD COLUMN lateFeePolicy TEXT NOT NULL DEFAULT 'manual';
+        ALTER TABLE school_settings ADD COLUMN currentTerm TEXT;
+        ALTER TABLE school_settings ADD COLUMN currentYear TEXT;
+      `);
+    },
+  },
+  {
+    version: 13,
+    description: 'Add academic years and terms, linking departments to a term',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS academic_years (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          startDate TEXT,
+          endDate TEXT,
+          isActive BOOLEAN DEFAULT 1,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS terms (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          academicYearId INTEGER NOT NULL,
+          name TEXT NOT NULL COLLATE NOCASE,
+          sequence INTEGER NOT NULL DEFAULT 1,
+          startDate TEXT,
+          endDate TEXT,
+          isActive BOOLEAN DEFAULT 1,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          updatedAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (academicYearId, name),
+          FOREIGN KEY (academicYearId) REFERENCES academic_years (id) ON DELETE RESTRICT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_terms_academicYearId ON terms(academicYearId);
+
+        ALTER TABLE departments ADD COLUMN termId INTEGER REFERENCES terms (id);
+        CREATE INDEX IF NOT EXISTS idx_departments_termId ON departments(termId);
+
+        ALTER TABLE school_settings ADD COLUMN currentTermId INTEGER REFERENCES terms (id);
+      `);
+
+      // Give each distinct term and year a record, so "term one" and "Term 1" become the same term
+      const departments = await db.getAllAsync<{ id: number; term: string | null; year: string | null }>(
+        'SELECT id, term, year FROM departments'
+      );
+      for (const department of departments) {
+        if (!department.term?.trim() || !department.year?.trim()) continue;
+
+        const termName = normalizeTermName(department.term);
+        const yearName = normalizeAcademicYearName(department.year);
+        await db.runAsync('INSERT OR IGNORE INTO academic_years (name) VALUES (?)', yearName);
+        await db.runAsync(
+          `INSERT OR IGNORE INTO terms (academicYearId, name, sequence)
+           SELECT id, ?, ? FROM academic_years WHERE name = ?`,
+          termName,
+          Number(/^Term (\d+)$/.exec(termName)?.[1] ?? 1),
+          yearName
+        );
+        await db.runAsync(
+          `UPDATE departments SET term = ?, year = ?, termId = (
+             SELECT t.id FROM terms t JOIN academic_years y ON t.academicYearId = y.id
+             WHERE t.name = ? AND y.name = ?
+           ) WHERE id = ?`,
+          termName,
+          yearName,
+          termName,
+          yearName,
+          department.id
+        );
+      }
+
+      // Terms span the dates of their departments, and years the dates of their terms
+      await db.execAsync(`
+        UPDATE terms SET
+          startDate = (SELECT MIN(substr(startDate, 1, 10)) FROM departments WHERE termId = terms.id),
+          endDate = (SELECT MAX(substr(endDate, 1, 10)) FROM departments WHERE termId = terms.id);
+        UPDATE academic_years SET
+          startDate = (SELECT MIN(startDate) FROM terms WHERE academicYearId = academic_years.id),
+          endDate = (SELECT MAX(endDate) FROM terms WHERE academicYearId = academic_years.id);
+      `);
+
+      // The current term setting now points at a term record
+      const settings = await db.getFirstAsync<{ currentTerm: string | null; currentYear: string | null }>(
+        'SELECT currentTerm, currentYear FROM school_settings'
+      );
+      if (settings?.currentTerm && settings.currentYear) {
+        await db.runAsync(
+          `UPDATE school_settings SET currentTermId = (
+             SELECT t.id FROM terms t JOIN academic_years y ON t.academicYearId = y.id
+             WHERE t.name = ? AND y.name = ?
+           )`,
+          normalizeTermName(settings.currentTerm),
+          normalizeAcademicYearName(settings.currentYear)
+        );
+      }
+      await db.execAsync(`
+        ALTER TABLE school_settings DROP COLUMN currentTerm;
+        ALTER TABLE school_settings DROP COLUMN currentYear;
+      `);
+    },
+  },
+  {
+    version: 14,
+    description: 'Lock user accounts after repeated failed sign ins',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE users ADD COLUMN failedLoginAttempts INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE users ADD COLUMN lockedUntil TEXT;
+      `);
+    },
+  },
+  {
+    version: 15,
+    description: 'Record the signed-in user on payments',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE payments ADD COLUMN receivedByUserId INTEGER REFERENCES users(id);
+      `);
+    },
+  },
+];
+
+// Database version the app expects, i.e. the latest migration
+export const DATABASE_VERSION = migrations[migrations.length - 1].version;
+
+/**
+ * Get the schema version currently recorded in the database
+ */
+export async function getDatabaseVersion(db: SQLite.SQLiteDatabase): Promise<number> {
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return result?.user_version ?? 0;
+}
+
+/**
+ * Apply every pending migration up to the target version.
+ * Each migration runs in a transaction; a failure rolls that migration back
+ * and stops, leaving the database at the last successfully applied version.
+ * @param db Database instance
+ * @param targetVersion Version to migrate to, defaults to the latest
+ * @returns The database version after migrating
+ */
+export async function runMigrations(
+  db: SQLite.SQLiteDatabase,
+  targetVersion: number = DATABASE_VERSION
+): Promise<number> {
+  let currentVersion = await getDatabaseVersion(db);
+
+  if (currentVersion > DATABASE_VERSION) {
+    throw new Error(
+      `Database version ${currentVersion} is newer than this app supports (${DATABASE_VERSION})`
+    );
+  }
+
+  const pending = migrations
+    .filter(migration => migration.version > currentVersion && migration.version <= targetVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    console.log(`Applying migration ${migration.version}: ${migration.description}`);
+
+    // Foreign key enforcement can only be switched outside a transaction
+    const foreignKeys = await db.getFirstAsync<{ foreign_keys: number }>('PRAGMA foreign_keys');
+    if (migration.disableForeignKeys) {
+      await db.execAsync('PRAGMA foreign_keys = OFF');
+    }
+
+    await db.execAsync('BEGIN TRANSACTION');
+
+    try {
+      await migration.up(db);
+      if (migration.disableForeignKeys) {
+        const violations = await db.getAllAsync('PRAGMA foreign_key_check');
+        if (violations.length > 0) {
+          throw new Error(`Migration left ${violations.length} broken references`);
+        }
+      }
+      await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      await db.execAsync('COMMIT');
+      currentVersion = migration.version;
+    } catch (error) {
+      await db.execAsync('ROLLBACK');
+      console.error(`Migration ${migration.version} failed, rolled back:`, error);
+      throw error;
+    } finally {
+      if (migration.disableForeignKeys && foreignKeys?.foreign_keys) {
+        await db.execAsync('PRAGMA foreign_keys = ON');
+      }
+    }
+  }
+
+  return currentVersion;
+}
@@ -1,7 +1,7 @@
 // lib/db/provider.tsx
 import { SQLiteProvider } from 'expo-sqlite';
-import React from 'react';
-import { migrateDatabase } from './init';
+import React, { useEffect, useState } from 'react';
+import { getDatabaseName, migrateDatabase } from './init';
 
 interface DatabaseProviderProps {
   children: React.ReactNode;
@@ -9,12 +9,23 @@ interface DatabaseProviderProps {
 
 /**
  * Database provider component for the application
- * Uses SQLiteProvider from expo-sqlite to provide database context
+ * Uses SQLiteProvider from expo-sqlite to provide database context,
+ * opening the database file chosen in the settings
  */
 export function DatabaseProvider({ children }: DatabaseProviderProps) {
+  const [databaseName, setDatabaseName] = useState<string | null>(null);
+
+  useEffect(() => {
+    getDatabaseName().then(setDatabaseName);
+  }, []);
+
+  if (!databaseName) {
+    return null;
+  }
+
   return (
     <SQLiteProvider
-      databaseName="mec_connect_app.db"
+      databaseName={databaseName}
       onInit={migrateDatabase}
       useSuspense
     >
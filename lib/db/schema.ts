@@ -1,5 +1,8 @@
 // lib/db/schema.ts
 // Database schema definitions for the school billing system
+// Amounts are Money: whole minor units of the school's currency, e.g. pesewas (see utils/money.ts)
+import { CurrencyFormat } from '../../utils/formatters';
+import { Money } from '../../utils/money';
 
 export interface BaseEntity {
     id?: number; // Optional for new records before insertion
@@ -14,12 +17,51 @@ export interface BaseEntity {
     phone: string;    
     address: string;
     status?: 'active' | 'inactive' | 'graduated' | 'suspended'; // Enhanced status tracking
+    familyId?: number | null; // Family the student belongs to, for siblings sharing a payer
+  }
+  
+  // One data row of a student CSV import, checked before anything is saved
+  export interface StudentImportRow {
+    row: number; // Row number in the file, counting the header as row 1
+    student: Student;
+    errors: string[]; // Rows with errors are never imported
+    duplicateOf?: string; // Existing or earlier student with the same name or phone
+  }
+  
+  // A guardian and the students they pay for
+  export interface Family extends BaseEntity {
+    name: string;
+    guardianName: string;
+    phone: string;
+    email?: string;
+    address?: string;
+  }
+  
+  // A school year, e.g. 2025/2026, made up of terms
+  export interface AcademicYear extends BaseEntity {
+    name: string;
+    startDate?: string | null;
+    endDate?: string | null;
+  }
+  
+  // A term within an academic year; every department runs in one
+  export interface Term extends BaseEntity {
+    academicYearId: number;
+    name: string; // e.g. Term 1
+    sequence: number; // Order within the year
+    startDate?: string | null;
+    endDate?: string | null;
+  }
+  
+  export interface TermWithYear extends Term {
+    academicYearName: string;
   }
   
   export interface Department extends BaseEntity {
     name: string;
-    term: string;
-    year: string;
+    termId?: number | null;
+    term: string; // Name of the term, copied from it for display
+    year: string; // Name of the term's academic year, copied from it for display
     description?: string;
     startDate?: string;
     endDate?: string;
@@ -35,7 +77,7 @@ export interface BaseEntity {
   
   export interface BillItem extends BaseEntity {
     name: string;
-    amount: number;
+    amount: Money;
     departmentId: number; // Which department this item belongs to
     description?: string; // From SQL schema
     category?: string; // Category of bill item (e.g., tuition, books, uniform)
@@ -46,31 +88,40 @@ export interface BaseEntity {
     name: string;
     studentId: number;
     departmentId: number;
-    totalAmount: number;
+    totalAmount: Money;
     dueDate?: string; // Optional due date
     status?: 'pending' | 'partial' | 'paid' | 'overdue' | 'cancelled'; // Enhanced payment status
-    discount?: number; // Optional discount amount
+    discount?: Money; // Optional discount amount
     note?: string; // Additional notes about the bill
   }
   
   export interface BillItemRelation extends BaseEntity {
     billId: number;
     billItemId: number;
-    amount: number; // Allows for overriding default amount if needed
+    amount: Money; // Allows for overriding default amount if needed
     quantity?: number; // Defaults to 1 if not specified
-    discount?: number; // Item-specific discount
+    discount?: Money; // Item-specific discount
   }
   
   export interface Payment extends BaseEntity {
     billId: number;
     studentId: number; // Direct reference to student for easier querying
-    amount: number;
+    amount: Money;
     paymentDate: string;
     method?: 'cash' | 'transfer' | 'check' | 'card' | 'other'; // Typed payment methods
     reference?: string; // Payment reference number
     receivedBy?: string; // Person who received the payment
+    receivedByUserId?: number | null; // User signed in when the payment was recorded
     note?: string; // Additional notes about the payment
-    status?: 'completed' | 'pending' | 'failed' | 'refunded'; // Payment status tracking
+    status?: 'completed' | 'pending' | 'failed' | 'refunded' | 'voided'; // Payment status tracking
+    receiptNumber?: string; // Official receipt number, e.g. RCT-2025-000042
+    receiptYear?: number; // Year the receipt sequence belongs to
+    receiptSequence?: number; // Position in that year's gap-free sequence
+  }
+  
+  export interface PaymentWithDetails extends Payment {
+    bill: Bill;
+    student: Student;
   }
   
   export interface BulkEnrollmentResult {
@@ -84,6 +135,56 @@ export interface BaseEntity {
     errors: { studentId: number; error: string }[];
   }
   
+  export interface DepartmentBillItemInput {
+    billItemId: number;
+    amount?: number; // Overrides the bill item's default amount
+    quantity?: number; // Defaults to 1
+  }
+  
+  export interface BulkBillPreview {
+    students: {
+      studentId: number;
+      studentName: string;
+      totalAmount: number; // After the student's discounts
+      discount: number; // Total of the student's scheme discounts
+    }[];
+    totalAmount: number;
+  }
+  
+  // What happens to a department's active enrollments when its term is rolled over:
+  // left behind, carried into its counterpart, or promoted into another department's counterpart
+  export type RolloverEnrollmentMode = 'none' | 'carry' | 'promote';
+  
+  export interface RolloverDepartmentPlan {
+    mode: RolloverEnrollmentMode;
+    promoteToDepartmentId?: number; // For promote: a department of the same term, e.g. the next class up
+  }
+  
+  export interface TermRolloverOptions {
+    fromTermId: number;
+    toTermId: number;
+    departments?: Record<number, RolloverDepartmentPlan>; // By department ID; departments left out keep no students
+  }
+  
+  export interface TermRolloverPreview {
+    fromTerm: TermWithYear;
+    toTerm: TermWithYear;
+    departments: {
+      departmentId: number;
+      departmentName: string;
+      existingDepartmentId: number | null; // Already set up in the new term, and kept as it is
+      billItemCount: number; // Fee items copied to the new department
+      billItemTotal: Money;
+      mode: RolloverEnrollmentMode;
+      targetDepartmentName: string | null; // Department the students move into
+      studentCount: number; // Active enrollments moved
+    }[];
+    departmentsCreated: number;
+    billItemsCopied: number;
+    enrollmentsCreated: number;
+    enrollmentsCompleted: number; // Active enrollments of the old term, all marked completed
+  }
+  
   // Utility Types
   // Types for CRUD operations
   export type Create<T extends BaseEntity> = Omit<T, 'id' | 'createdAt' | 'updatedAt'>;
@@ -133,12 +234,148 @@ export interface BaseEntity {
     note?: string;
   }
   
+  export interface RecordPaymentPayload {
+    billId: number;
+    amount: Money;
+    paymentDate?: string; // Defaults to now
+    method?: Payment['method'];
+    reference?: string;
+    receivedBy?: string;
+    note?: string;
+  }
+  
+  export interface BillBalance {
+    billId: number;
+    totalAmount: Money; // Bill total less bill-level discount
+    totalPaid: Money; // Sum of completed payments
+    balance: Money; // Amount still owed (negative when in credit)
+  }
+  
   export interface BillWithItems extends Bill {
     items: (BillItemRelation & { billItem: BillItem })[];
     payments?: Payment[]; // Include related payments
     student?: Student; // Include student information
   }
   
+  // Late fee rules; a rule for a department replaces the school-wide rules for its bills
+  export interface LateFeeRule extends BaseEntity {
+    name: string;
+    type: 'flat' | 'percentage';
+    amount: number; // Flat amount in pesewas, or percentage of the outstanding balance
+    graceDays: number; // Days past the due date before the fee applies
+    maxAmount?: Money | null; // Cap on the fee charged per bill
+    departmentId?: number | null; // Null for a school-wide rule
+  }
+  
+  export interface LateFeeApplication {
+    id?: number;
+    billId: number;
+    ruleId: number;
+    billItemRelationId: number;
+    amount: Money;
+    appliedAt?: string;
+  }
+  
+  // Scholarship and sponsorship discounts
+  export interface DiscountScheme extends BaseEntity {
+    name: string;
+    type: 'percentage' | 'fixed';
+    value: number; // Percentage off, or fixed amount off in pesewas
+    categories: string[]; // Bill item categories it applies to; empty for the whole bill
+    description?: string;
+    siblingRank?: number | null; // Sibling rule: applies by itself to the Nth child of a family onward, until a higher rule does
+  }
+  
+  export interface FamilyListItem extends Family {
+    studentCount: number;
+    balance: number; // Total owed across the siblings' open bills
+  }
+  
+  export interface FamilyWithStudents extends Family {
+    students: Student[];
+  }
+  
+  // Part of a family payment applied to one sibling's bill
+  export interface FamilyPaymentAllocation {
+    billId: number;
+    billName: string;
+    studentId: number;
+    studentName: string;
+    dueDate: string | null;
+    balance: number;
+    amount: number;
+  }
+  
+  export interface FamilyStatement {
+    family: Family;
+    statements: StudentStatement[];
+    openingBalance: number;
+    totalDebits: number;
+    totalCredits: number;
+    closingBalance: number;
+  }
+  
+  // A discount scheme granted to a student for one department (and so one term)
+  export interface StudentDiscount {
+    id?: number;
+    studentId: number;
+    schemeId: number;
+    departmentId: number;
+    createdAt?: string;
+  }
+  
+  export interface StudentDiscountListItem extends StudentDiscount {
+    studentName: string;
+    schemeName: string;
+    departmentName: string;
+  }
+  
+  // Installment plan: a bill split into amounts due on separate dates
+  export interface BillInstallment {
+    id?: number;
+    billId: number;
+    sequence: number; // 1-based position in the plan
+    amount: Money;
+    dueDate: string; // ISO date
+    createdAt?: string;
+    updatedAt?: string;
+  }
+  
+  export interface InstallmentWithStatus extends BillInstallment {
+    paidAmount: Money; // Completed payments allocated to this installment, oldest installment first
+    balance: Money;
+    status: 'pending' | 'partial' | 'paid' | 'overdue';
+  }
+  
+  export interface InstallmentPlanInput {
+    amount: Money;
+    dueDate: string;
+  }
+  
+  export interface BillStatusChange {
+    id?: number;
+    billId: number;
+    fromStatus: Bill['status'] | null;
+    toStatus: Bill['status'];
+    reason?: string;
+    changedAt?: string;
+  }
+  
+  export interface BillListItem extends Bill {
+    studentName: string;
+    departmentName: string;
+  }
+  
+  export interface BillFilters {
+    searchTerm?: string; // Matches bill name or student name
+    status?: Bill['status'];
+    studentId?: number;
+    departmentId?: number;
+    termId?: number;
+    dueFrom?: string; // Inclusive ISO date
+    dueTo?: string; // Inclusive ISO date
+  }
+  
   export interface StudentWithDepartment extends Student {
     departments: Department[];
   }
@@ -160,10 +397,204 @@ export interface BaseEntity {
     }[];
   }
   
+  export interface StatementEntry {
+    date: string; // ISO date string
+    type: 'bill' | 'late_fee' | 'payment' | 'refund';
+    description: string;
+    reference?: string;
+    debit: number; // Amount added to what the student owes
+    credit: number; // Amount taken off what the student owes
+    balance: number; // Running balance after this entry
+    billId: number;
+    paymentId?: number;
+  }
+  
+  export interface StudentStatement {
+    student: Student;
+    installmentPlans: { billId: number; billName: string; installments: InstallmentWithStatus[] }[];
+    fromDate?: string;
+    toDate?: string;
+    openingBalance: number;
+    entries: StatementEntry[];
+    totalDebits: number;
+    totalCredits: number;
+    closingBalance: number;
+  }
+  
+  export type UserRole = 'admin' | 'bursar' | 'cashier' | 'viewer';
+  
+  // A staff member who can sign in; the password hash never leaves the users module
+  export interface User extends BaseEntity {
+    username: string;
+    displayName: string;
+    role: UserRole;
+    lastLoginAt?: string | null;
+    failedLoginAttempts?: number; // Wrong passwords in a row since the last sign in or lockout
+    lockedUntil?: string | null; // ISO timestamp until which sign in is refused
+  }
+  
+  // When late fees are charged: never, from the Late Fees screen, or whenever the app is opened
+  export type LateFeePolicy = 'off' | 'manual' | 'automatic';
+  
+  // The school's own details, shown on every document; a single row
+  export interface SchoolSettings extends CurrencyFormat {
+    id?: number;
+    schoolName: string;
+    schoolShortName: string; // Shown in the app's header, e.g. MEC
+    schoolAddress: string;
+    schoolPhone: string;
+    schoolLogo: string | null; // Image as a data URI, so documents can embed it
+    receiptPrefix: string; // e.g. RCT in RCT-2025-000042
+    invoicePrefix: string; // e.g. INV in INV-000042
+    defaultDueDays: number | null; // Days from billing to the due date when none is given
+    lateFeePolicy: LateFeePolicy;
+    currentTermId: number | null; // Pinned current term; otherwise the term running today
+    updatedAt?: string;
+  }
+  
+  // Actions the operations layer checks before changing data
+  export type Permission =
+    | 'students.manage'
+    | 'departments.manage'
+    | 'bills.manage'
+    | 'bills.delete'
+    | 'payments.record'
+    | 'payments.void'
+    | 'data.export'
+    | 'data.restore'
+    | 'audit.view'
+    | 'users.manage'
+    | 'settings.manage';
+  
+  // Tables whose changes are written to the audit log
+  export type AuditEntity =
+    | 'school_settings'
+    | 'academic_years'
+    | 'terms'
+    | 'users'
+    | 'students'
+    | 'departments'
+    | 'bill_items'
+    | 'bills'
+    | 'bill_item_relations'
+    | 'student_departments'
+    | 'payments'
+    | 'bill_installments'
+    | 'discount_schemes'
+    | 'student_discounts'
+    | 'families'
+    | 'late_fee_rules'
+    | 'backup'; // Whole-database events, such as a restore, with no row of their own
+  
+  export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+  
+  export interface AuditLogEntry {
+    id?: number;
+    entity: AuditEntity;
+    entityId: number | null;
+    action: AuditAction;
+    before: string | null; // JSON of the row before the change
+    after: string | null; // JSON of the row after the change
+    actor: string; // Who made the change
+    createdAt?: string;
+  }
+  
+  export interface AuditLogFilters {
+    entity?: AuditEntity;
+    entityId?: number;
+    action?: AuditAction;
+    actor?: string;
+    fromDate?: string; // Inclusive ISO date
+    toDate?: string; // Inclusive ISO date
+  }
+  
+  // Row shapes returned by the reporting queries
+  export interface OutstandingBill {
+    billId: number;
+    billName: string;
+    studentId: number;
+    studentName: string;
+    departmentId: number;
+    totalAmount: number; // Net of bill discount
+    paidAmount: number;
+    amountDue: number;
+    dueDate: string | null;
+  }
+  
+  // One payment with the names needed to reconcile it
+  export interface PaymentRegisterRow extends Payment {
+    studentName: string;
+    billName: string;
+    departmentName: string;
+  }
+  
+  export interface DepartmentBillingSummary {
+    departmentId: number;
+    departmentName: string;
+    totalStudents: number;
+    totalBilled: number;
+    totalPaid: number;
+    totalUnpaid: number;
+  }
+  
+  export interface DepartmentEnrollmentStats {
+    departmentId: number;
+    departmentName: string;
+    totalEnrollments: number;
+    activeEnrollments: number;
+    completedEnrollments: number;
+    withdrawnEnrollments: number;
+  }
+  
+  export interface DepartmentCollectionStats extends DepartmentBillingSummary {
+    activeEnrollments: number;
+    collectionRate: number; // Share of billed amount collected, 0-1
+  }
+  
+  export interface DebtorSummary {
+    studentId: number;
+    studentName: string;
+    billCount: number;
+    amountDue: number;
+  }
+  
+  export interface DashboardSummary {
+    currentTerm: TermWithYear | null;
+    totalBilled: number;
+    totalCollected: number;
+    totalOutstanding: number;
+    departments: DepartmentCollectionStats[];
+    topDebtors: DebtorSummary[];
+    dueThisWeek: OutstandingBill[];
+  }
+  
+  // Receivables aging: unpaid balance by days past due date
+  export type AgingBucket = 'current' | 'days0to30' | 'days31to60' | 'days61to90' | 'over90';
+  
+  export type AgingBuckets = Record<AgingBucket, number> & { total: number };
+  
+  export interface AgingStudentRow {
+    studentId: number;
+    studentName: string;
+    buckets: AgingBuckets;
+  }
+  
+  export interface AgingDepartmentGroup {
+    departmentId: number;
+    departmentName: string;
+    students: AgingStudentRow[];
+    subtotal: AgingBuckets;
+  }
+  
+  export interface AgingReport {
+    asOf: string; // ISO date the ages are measured from
+    departments: AgingDepartmentGroup[];
+    total: AgingBuckets;
+  }
+  
   export interface CreateDepartmentPayload {
     name: string;
-    term: string;
-    year: string;
+    termId: number;
     description?: string;
     startDate?: string;
     endDate?: string;
@@ -262,6 +693,44 @@ export interface BaseEntity {
     };
   }
   
+  // Category of the bill item that late fees are charged under
+  export const LATE_FEE_CATEGORY = 'late_fee';
+  
+  const TERM_NUMBERS: Record<string, number> = {
+    one: 1, first: 1, '1st': 1,
+    two: 2, second: 2, '2nd': 2,
+    three: 3, third: 3, '3rd': 3,
+    four: 4, fourth: 4, '4th': 4
+  };
+  
+  // Spell a term name one way, e.g. "term one", "1st Term" and "T1" all become "Term 1"
+  export function normalizeTermName(name: string): string {
+    const words = name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(word => word && word !== 'term');
+    if (words.length === 1) {
+      const word = words[0].replace(/^t(?=\d)/, '');
+      const number = /^\d+$/.test(word) ? Number(word) : TERM_NUMBERS[word];
+      if (number) {
+        return `Term ${number}`;
+      }
+    }
+    return name.trim().replace(/\s+/g, ' ');
+  }
+  
+  // Spell an academic year name one way, e.g. "2025-26" and "2025 / 2026" become "2025/2026"
+  export function normalizeAcademicYearName(name: string): string {
+    const match = /^(\d{4})\s*[-/–]\s*(\d{2}|\d{4})$/.exec(name.trim());
+    if (match) {
+      const end = match[2].length === 2 ? match[1].slice(0, 2) + match[2] : match[2];
+      return `${match[1]}/${end}`;
+    }
+    return name.trim().replace(/\s+/g, ' ');
+  }
+  
+  // Receipt number for a position in a year's receipt sequence, e.g. RCT-2025-000042
+  export function formatReceiptNumber(year: number, sequence: number, prefix: string = 'RCT'): string {
+    return `${prefix}-${year}-${String(sequence).padStart(6, '0')}`;
+  }
+  
   // Type Guards (for runtime type checking)
   export function isStudent(obj: any): obj is Student {
     return obj && 
@@ -292,6 +761,7 @@ export interface BaseEntity {
   }
   
   // SQL statements for creating tables
+  // This is the version 1 schema; later changes live in the migrations registry (lib/db/migrations.ts)
   export const createTablesSQL = `
   -- Students table
   CREATE TABLE IF NOT EXISTS students (
@@ -444,13 +914,18 @@ export interface BaseEntity {
         d.id as departmentId,
         d.name as departmentName,
         COUNT(DISTINCT b.studentId) as totalStudents,
-        SUM(b.totalAmount) as totalBilled,
-        COALESCE(SUM(p.amount), 0) as totalPaid,
-        SUM(b.totalAmount) - COALESCE(SUM(p.amount), 0) as totalUnpaid
+        SUM(b.totalAmount - COALESCE(b.discount, 0)) as totalBilled,
+        COALESCE(SUM(bp.paid), 0) as totalPaid,
+        SUM(b.totalAmount - COALESCE(b.discount, 0)) - COALESCE(SUM(bp.paid), 0) as totalUnpaid
       FROM departments d
       JOIN bills b ON d.id = b.departmentId
-      LEFT JOIN payments p ON b.id = p.billId AND p.status = 'completed'
-      WHERE d.id = ? AND d.isActive = 1 AND b.isActive = 1
+      LEFT JOIN (
+        SELECT billId, SUM(amount) as paid
+        FROM payments
+        WHERE status = 'completed' AND isActive = 1
+        GROUP BY billId
+      ) bp ON b.id = bp.billId
+      WHERE d.id = ? AND d.isActive = 1 AND b.isActive = 1 AND b.status != 'cancelled'
       GROUP BY d.id
     `,
   
@@ -460,8 +935,10 @@ export interface BaseEntity {
         b.id as billId,
         b.name as billName,
         b.totalAmount,
+        b.discount,
         b.status,
         b.dueDate,
+        b.createdAt as billDate,
         s.id as studentId,
         s.firstname || ' ' || s.othernames as studentName,
         d.id as departmentId,
@@ -489,14 +966,15 @@ export interface BaseEntity {
         b.name as billName,
         s.id as studentId,
         s.firstname || ' ' || s.othernames as studentName,
-        b.totalAmount,
+        b.departmentId,
+        b.totalAmount - COALESCE(b.discount, 0) as totalAmount,
         COALESCE(SUM(p.amount), 0) as paidAmount,
-        b.totalAmount - COALESCE(SUM(p.amount), 0) as amountDue,
+        b.totalAmount - COALESCE(b.discount, 0) - COALESCE(SUM(p.amount), 0) as amountDue,
         b.dueDate
       FROM bills b
       JOIN students s ON b.studentId = s.id
-      LEFT JOIN payments p ON b.id = p.billId AND p.status = 'completed'
-      WHERE b.status != 'paid' AND b.isActive = 1
+      LEFT JOIN payments p ON b.id = p.billId AND p.status = 'completed' AND p.isActive = 1
+      WHERE b.status NOT IN ('paid', 'cancelled') AND b.isActive = 1
       GROUP BY b.id
       HAVING amountDue > 0
       ORDER BY b.dueDate ASC
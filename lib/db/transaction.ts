@@ -0,0 +1,72 @@
+// lib/db/transaction.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+
+/**
+ * A transaction begun on the shared connection. Ending it, either way, lets the next one begin.
+ */
+export interface WriteTransaction {
+  commit: () => Promise<void>;
+  rollback: () => Promise<void>;
+}
+
+// The app shares one connection, so a second BEGIN while a transaction is open fails,
+// and statements run in between become part of the open transaction. Transactions queue here instead.
+let queue: Promise<void> = Promise.resolve();
+let writesInFlight = 0;
+
+/**
+ * Whether a transaction is open or waiting to begin, so background jobs can stay out of the way
+ */
+export function isWriteInFlight(): boolean {
+  return writesInFlight > 0;
+}
+
+/**
+ * Begin a transaction once any other open one has ended. Every transaction on the shared
+ * connection goes through here; the caller must commit or roll back what it gets.
+ * @param db Database instance
+ * @returns The open transaction
+ */
+export async function beginTransaction(db: SQLiteDatabase): Promise<WriteTransaction> {
+  let release!: () => void;
+  const previous = queue;
+  queue = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  writesInFlight += 1;
+
+  let ended = false;
+  const end = () => {
+    if (!ended) {
+      ended = true;
+      writesInFlight -= 1;
+      release();
+    }
+  };
+
+  await previous;
+  try {
+    await db.execAsync('BEGIN TRANSACTION');
+  } catch (error) {
+    end();
+    throw error;
+  }
+
+  return {
+    // A failed commit leaves the transaction open for the caller to roll back
+    commit: async () => {
+      await db.execAsync('COMMIT');
+      end();
+    },
+    rollback: async () => {
+      if (ended) {
+        return;
+      }
+      try {
+        await db.execAsync('ROLLBACK');
+      } finally {
+        end();
+      }
+    },
+  };
+}
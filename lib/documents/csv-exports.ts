@@ -0,0 +1,71 @@
+// lib/documents/csv-exports.ts
+// Column layouts for exporting the app's lists and reports as CSV
+import { BillItem, BillListItem, Department, OutstandingBill, PaymentRegisterRow, Student } from '../db/schema';
+import { CsvColumn } from './csv';
+
+export const studentCsvColumns: CsvColumn<Student>[] = [
+  { header: 'ID', value: student => student.id },
+  { header: 'First Name', value: student => student.firstname },
+  { header: 'Other Names', value: student => student.othernames },
+  { header: 'Phone', value: student => student.phone },
+  { header: 'Address', value: student => student.address },
+  { header: 'Status', value: student => student.status ?? 'active' },
+  { header: 'Created', value: student => student.createdAt }
+];
+
+export const departmentCsvColumns: CsvColumn<Department>[] = [
+  { header: 'ID', value: department => department.id },
+  { header: 'Name', value: department => department.name },
+  { header: 'Term', value: department => department.term },
+  { header: 'Year', value: department => department.year },
+  { header: 'Start Date', value: department => department.startDate?.slice(0, 10) },
+  { header: 'End Date', value: department => department.endDate?.slice(0, 10) },
+  { header: 'Description', value: department => department.description }
+];
+
+export const billItemCsvColumns: CsvColumn<BillItem>[] = [
+  { header: 'ID', value: item => item.id },
+  { header: 'Name', value: item => item.name },
+  { header: 'Department ID', value: item => item.departmentId },
+  { header: 'Category', value: item => item.category },
+  { header: 'Amount', value: item => item.amount, currency: true },
+  { header: 'Required', value: item => !!item.isRequired },
+  { header: 'Description', value: item => item.description }
+];
+
+export const billCsvColumns: CsvColumn<BillListItem>[] = [
+  { header: 'Bill ID', value: bill => bill.id },
+  { header: 'Bill', value: bill => bill.name },
+  { header: 'Student', value: bill => bill.studentName },
+  { header: 'Department', value: bill => bill.departmentName },
+  { header: 'Total', value: bill => bill.totalAmount, currency: true },
+  { header: 'Discount', value: bill => bill.discount || 0, currency: true },
+  { header: 'Net', value: bill => bill.totalAmount - (bill.discount || 0), currency: true },
+  { header: 'Status', value: bill => bill.status },
+  { header: 'Due Date', value: bill => bill.dueDate?.slice(0, 10) },
+  { header: 'Created', value: bill => bill.createdAt }
+];
+
+export const paymentCsvColumns: CsvColumn<PaymentRegisterRow>[] = [
+  { header: 'Receipt', value: payment => payment.receiptNumber },
+  { header: 'Date', value: payment => payment.paymentDate.slice(0, 10) },
+  { header: 'Student', value: payment => payment.studentName },
+  { header: 'Bill', value: payment => payment.billName },
+  { header: 'Department', value: payment => payment.departmentName },
+  { header: 'Amount', value: payment => payment.amount, currency: true },
+  { header: 'Method', value: payment => payment.method },
+  { header: 'Reference', value: payment => payment.reference },
+  { header: 'Status', value: payment => payment.status },
+  { header: 'Received By', value: payment => payment.receivedBy },
+  { header: 'Note', value: payment => payment.note }
+];
+
+export const outstandingBillCsvColumns: CsvColumn<OutstandingBill>[] = [
+  { header: 'Bill ID', value: bill => bill.billId },
+  { header: 'Bill', value: bill => bill.billName },
+  { header: 'Student', value: bill => bill.studentName },
+  { header: 'Total', value: bill => bill.totalAmount, currency: true },
+  { header: 'Paid', value: bill => bill.paidAmount, currency: true },
+  { header: 'Amount Due', value: bill => bill.amountDue, currency: true },
+  { header: 'Due Date', value: bill => bill.dueDate?.slice(0, 10) }
+];
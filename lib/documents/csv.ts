@@ -0,0 +1,129 @@
+// lib/documents/csv.ts
+import { formatCurrency } from '../../utils/formatters';
+import { formatMoneyInput } from '../../utils/money';
+import { PaginatedResult } from '../db/schema';
+
+/**
+ * Parse CSV text into rows of cells.
+ * Handles quoted cells with commas, escaped quotes ("") and line breaks, and both
+ * CRLF and LF line endings. Blank lines are skipped.
+ * @param text CSV text
+ * @returns Rows of trimmed cells
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some(value => value !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  // Drop a byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+// One column of a CSV export
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | null | undefined;
+  currency?: boolean; // Amount column, formatted with formatCurrency unless plain amounts are asked for
+}
+
+// Leading characters that make a spreadsheet read a cell as a formula (OWASP CSV injection)
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+// Signed numbers and phone numbers such as +233244123456, which are safe to leave as they are
+const NUMBER_LIKE = /^[+-]?\d[\d\s.,]*$/;
+
+const startsLikeFormula = (value: string) => FORMULA_PREFIXES.includes(value.charAt(0)) && !NUMBER_LIKE.test(value);
+
+/**
+ * Quote a cell when it holds a comma, quote or line break, doubling any quotes (RFC 4180).
+ * Text starting like a formula gets a leading apostrophe, so a spreadsheet shows it rather than running it;
+ * numbers, such as plain amounts, and formatted amounts are written as they are.
+ */
+function escapeCsvCell(value: string, isText = true): string {
+  const cell = isText && startsLikeFormula(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Undo the apostrophe escapeCsvCell puts in front of formula-like text, so exported files import again
+ * @param value Cell read by parseCsv
+ * @returns The cell as it was before export
+ */
+export function unescapeCsvCell(value: string): string {
+  return value.startsWith("'") && startsLikeFormula(value.slice(1)) ? value.slice(1) : value;
+}
+
+/**
+ * Turn rows into RFC 4180 CSV: a header row, then one line per row, separated by CRLF
+ * @param rows Rows to export, or a page of results
+ * @param columns Columns to include, in order
+ * @param options.plainAmounts Write currency columns as plain numbers, e.g. for spreadsheet formulas
+ * @returns CSV text
+ */
+export function toCsv<T>(
+  rows: T[] | PaginatedResult<T>,
+  columns: CsvColumn<T>[],
+  options: { plainAmounts?: boolean } = {}
+): string {
+  const data = Array.isArray(rows) ? rows : rows.data;
+
+  const formatCell = (column: CsvColumn<T>, row: T) => {
+    const value = column.value(row);
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (column.currency && typeof value === 'number') {
+      return escapeCsvCell(options.plainAmounts ? formatMoneyInput(value) : formatCurrency(value), false);
+    }
+    if (typeof value === 'boolean') {
+      return value ? 'Yes' : 'No';
+    }
+    return escapeCsvCell(String(value), typeof value !== 'number');
+  };
+
+  const lines = [
+    columns.map(column => escapeCsvCell(column.header)).join(','),
+    ...data.map(row => columns.map(column => formatCell(column, row)).join(','))
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
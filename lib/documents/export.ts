@@ -0,0 +1,143 @@
+// lib/documents/export.ts
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Turn a document title into a safe file name
+ */
+function toFileName(name: string, extension: string): string {
+  const base = name.replace(/[^a-zA-Z0-9-_]+/g, '_').replace(/^_+|_+$/g, '') || 'document';
+  return `${base}.${extension}`;
+}
+
+/**
+ * Render HTML to a PDF saved in the app's document directory
+ * @param html HTML document
+ * @param name File name without extension
+ * @returns URI of the saved PDF
+ */
+export async function saveHtmlAsPdf(html: string, name: string): Promise<string> {
+  try {
+    const { uri } = await Print.printToFileAsync({ html });
+    const destination = `${FileSystem.documentDirectory}${toFileName(name, 'pdf')}`;
+    await FileSystem.deleteAsync(destination, { idempotent: true });
+    await FileSystem.moveAsync({ from: uri, to: destination });
+    return destination;
+  } catch (error) {
+    console.error('Error saving PDF:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save HTML as a file in the app's document directory
+ * @param html HTML document
+ * @param name File name without extension
+ * @returns URI of the saved file
+ */
+export async function saveHtmlFile(html: string, name: string): Promise<string> {
+  try {
+    const destination = `${FileSystem.documentDirectory}${toFileName(name, 'html')}`;
+    await FileSystem.writeAsStringAsync(destination, html, { encoding: FileSystem.EncodingType.UTF8 });
+    return destination;
+  } catch (error) {
+    console.error('Error saving HTML file:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save CSV text as a file in the app's document directory.
+ * Starts the file with a byte order mark so Excel reads it as UTF-8.
+ * @param csv CSV text
+ * @param name File name without extension
+ * @returns URI of the saved file
+ */
+export async function saveCsvFile(csv: string, name: string): Promise<string> {
+  try {
+    const destination = `${FileSystem.documentDirectory}${toFileName(name, 'csv')}`;
+    await FileSystem.writeAsStringAsync(destination, `\ufeff${csv}`, { encoding: FileSystem.EncodingType.UTF8 });
+    return destination;
+  } catch (error) {
+    console.error('Error saving CSV file:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save JSON text as a file in the app's document directory
+ * @param json JSON text
+ * @param name File name without extension
+ * @returns URI of the saved file
+ */
+export async function saveJsonFile(json: string, name: string): Promise<string> {
+  try {
+    const destination = `${FileSystem.documentDirectory}${toFileName(name, 'json')}`;
+    await FileSystem.writeAsStringAsync(destination, json, { encoding: FileSystem.EncodingType.UTF8 });
+    return destination;
+  } catch (error) {
+    console.error('Error saving JSON file:', error);
+    throw error;
+  }
+}
+
+/**
+ * Send HTML straight to the system print dialog
+ */
+export async function printHtml(html: string): Promise<void> {
+  try {
+    await Print.printAsync({ html });
+  } catch (error) {
+    console.error('Error printing document:', error);
+    throw error;
+  }
+}
+
+/**
+ * Open the system share sheet for a saved file
+ * @param uri File URI
+ * @param mimeType MIME type of the file
+ */
+export async function shareFile(uri: string, mimeType: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: 'Share document' });
+}
+
+/**
+ * Save HTML as a PDF and open the share sheet for it
+ * @param html HTML document
+ * @param name File name without extension
+ * @returns URI of the saved PDF
+ */
+export async function sharePdf(html: string, name: string): Promise<string> {
+  const uri = await saveHtmlAsPdf(html, name);
+  await shareFile(uri, 'application/pdf');
+  return uri;
+}
+
+/**
+ * Save CSV text as a file and open the share sheet for it
+ * @param csv CSV text
+ * @param name File name without extension
+ * @returns URI of the saved file
+ */
+export async function shareCsv(csv: string, name: string): Promise<string> {
+  const uri = await saveCsvFile(csv, name);
+  await shareFile(uri, 'text/csv');
+  return uri;
+}
+
+/**
+ * Save JSON text as a file and open the share sheet for it
+ * @param json JSON text
+ * @param name File name without extension
+ * @returns URI of the saved file
+ */
+export async function shareJson(json: string, name: string): Promise<string> {
+  const uri = await saveJsonFile(json, name);
+  await shareFile(uri, 'application/json');
+  return uri;
+}
@@ -0,0 +1,103 @@
+// lib/documents/html.ts
+// Shared building blocks for printable HTML documents
+import { getCurrentSchoolSettings } from '../operations/settings';
+
+export interface SchoolInfo {
+  name: string;
+  address?: string;
+  phone?: string;
+  logo?: string; // Image URI or data URI
+}
+
+/**
+ * The school's details from its settings, for document letterheads
+ */
+export function getSchoolInfo(): SchoolInfo {
+  const settings = getCurrentSchoolSettings();
+  return {
+    name: settings.schoolName,
+    address: settings.schoolAddress || undefined,
+    phone: settings.schoolPhone || undefined,
+    logo: settings.schoolLogo ?? undefined
+  };
+}
+
+/**
+ * Escape text for safe inclusion in HTML
+ */
+export function escapeHtml(value: string | number | null | undefined): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Format an ISO or SQLite timestamp as a plain date
+ */
+export function formatDocumentDate(value?: string | null): string {
+  return value ? value.slice(0, 10) : '-';
+}
+
+/**
+ * Render the school letterhead shown at the top of every document
+ */
+export function renderSchoolHeader(school: SchoolInfo, title: string, subtitle?: string): string {
+  return `
+    <header class="letterhead">
+      <div class="school">
+        ${school.logo ? `<img class="logo" src="${escapeHtml(school.logo)}" alt="" />` : ''}
+        <div>
+          <h1>${escapeHtml(school.name)}</h1>
+          ${school.address ? `<p>${escapeHtml(school.address)}</p>` : ''}
+          ${school.phone ? `<p>Tel: ${escapeHtml(school.phone)}</p>` : ''}
+        </div>
+      </div>
+      <div class="document-title">
+        <h2>${escapeHtml(title)}</h2>
+        ${subtitle ? `<p>${escapeHtml(subtitle)}</p>` : ''}
+      </div>
+    </header>`;
+}
+
+/**
+ * Wrap a document body in a self-contained HTML page with print styles
+ */
+export function renderDocument(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: Helvetica, Arial, sans-serif; color: #222; margin: 32px; font-size: 13px; }
+    h1 { margin: 0; font-size: 24px; color: #4d21bb; }
+    h2 { margin: 0; font-size: 20px; text-transform: uppercase; letter-spacing: 1px; }
+    h3 { font-size: 14px; margin: 24px 0 8px; }
+    p { margin: 2px 0; }
+    .letterhead { display: flex; justify-content: space-between; align-items: flex-start;
+      border-bottom: 2px solid #4d21bb; padding-bottom: 12px; margin-bottom: 20px; }
+    .school { display: flex; align-items: center; }
+    .logo { max-height: 64px; max-width: 120px; margin-right: 12px; }
+    .document-title { text-align: right; }
+    .parties { display: flex; justify-content: space-between; margin-bottom: 16px; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    th { background: #f4f7fd; font-size: 12px; text-transform: uppercase; }
+    td.amount, th.amount { text-align: right; white-space: nowrap; }
+    .totals { width: 50%; margin-left: auto; margin-top: 12px; }
+    .totals td { border: none; padding: 4px 8px; }
+    .totals tr.grand td { font-weight: bold; font-size: 15px; border-top: 2px solid #222; }
+    .muted { color: #777; }
+    .footer { margin-top: 32px; font-size: 11px; color: #777; text-align: center; }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
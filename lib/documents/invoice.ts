@@ -0,0 +1,128 @@
+// lib/documents/invoice.ts
+import { formatCurrency } from '../../utils/formatters';
+import { BillWithItems, Department } from '../db/schema';
+import { getCurrentSchoolSettings } from '../operations/settings';
+import {
+  escapeHtml,
+  formatDocumentDate,
+  getSchoolInfo,
+  renderDocument,
+  renderSchoolHeader,
+  SchoolInfo
+} from './html';
+
+export interface InvoiceOptions {
+  school?: SchoolInfo;
+  department?: Department | null;
+  issueDate?: string; // Defaults to today
+}
+
+/**
+ * Invoice number for a bill, with the school's invoice prefix
+ */
+export function getInvoiceNumber(bill: BillWithItems): string {
+  return `${getCurrentSchoolSettings().invoicePrefix}-${String(bill.id ?? 0).padStart(6, '0')}`;
+}
+
+/**
+ * Render a bill as a self-contained, printable HTML invoice
+ * @param bill Bill with its items, payments and student
+ * @param options School details (defaults to the settings), department and issue date
+ * @returns HTML document
+ */
+export function renderInvoiceHtml(bill: BillWithItems, options: InvoiceOptions = {}): string {
+  const school = options.school ?? getSchoolInfo();
+  const invoiceNumber = getInvoiceNumber(bill);
+  const issueDate = options.issueDate ?? new Date().toISOString();
+
+  const itemRows = bill.items.map(item => {
+    const quantity = item.quantity ?? 1;
+    const discount = item.discount || 0;
+    const lineTotal = item.amount * quantity - discount;
+    return `
+      <tr>
+        <td>${escapeHtml(item.billItem.name)}${item.billItem.description
+          ? `<br /><span class="muted">${escapeHtml(item.billItem.description)}</span>` : ''}</td>
+        <td class="amount">${quantity}</td>
+        <td class="amount">${formatCurrency(item.amount)}</td>
+        <td class="amount">${discount ? formatCurrency(discount) : '-'}</td>
+        <td class="amount">${formatCurrency(lineTotal)}</td>
+      </tr>`;
+  }).join('');
+
+  const subtotal = bill.items.reduce(
+    (sum, item) => sum + item.amount * (item.quantity ?? 1) - (item.discount || 0),
+    0
+  );
+  const billDiscount = bill.discount || 0;
+  const total = bill.totalAmount - billDiscount;
+  const payments = (bill.payments ?? []).filter(payment => payment.status === 'completed');
+  const totalPaid = payments.reduce((sum, payment) => sum + payment.amount, 0);
+  const balanceDue = total - totalPaid;
+
+  const paymentRows = payments.map(payment => `
+      <tr>
+        <td>${formatDocumentDate(payment.paymentDate)}</td>
+        <td>${escapeHtml(payment.method ?? '-')}</td>
+        <td>${escapeHtml(payment.reference ?? '-')}</td>
+        <td class="amount">${formatCurrency(payment.amount)}</td>
+      </tr>`).join('');
+
+  const student = bill.student;
+  const department = options.department;
+
+  const body = `
+    ${renderSchoolHeader(school, 'Invoice', invoiceNumber)}
+
+    <section class="parties">
+      <div>
+        <p class="muted">Bill to</p>
+        ${student ? `
+          <p><strong>${escapeHtml(student.firstname)} ${escapeHtml(student.othernames)}</strong></p>
+          <p>${escapeHtml(student.address)}</p>
+          <p>${escapeHtml(student.phone)}</p>` : '<p>-</p>'}
+        ${department ? `<p>${escapeHtml(department.name)} (${escapeHtml(department.term)} ${escapeHtml(department.year)})</p>` : ''}
+      </div>
+      <div class="document-title">
+        <p><span class="muted">Invoice date:</span> ${formatDocumentDate(issueDate)}</p>
+        <p><span class="muted">Due date:</span> ${formatDocumentDate(bill.dueDate)}</p>
+        <p><span class="muted">Bill:</span> ${escapeHtml(bill.name)}</p>
+      </div>
+    </section>
+
+    <table>
+      <thead>
+        <tr>
+          <th>Item</th>
+          <th class="amount">Qty</th>
+          <th class="amount">Unit price</th>
+          <th class="amount">Discount</th>
+          <th class="amount">Amount</th>
+        </tr>
+      </thead>
+      <tbody>${itemRows || '<tr><td colspan="5" class="muted">No items</td></tr>'}</tbody>
+    </table>
+
+    <table class="totals">
+      <tr><td>Subtotal</td><td class="amount">${formatCurrency(subtotal)}</td></tr>
+      ${billDiscount ? `<tr><td>Discount</td><td class="amount">-${formatCurrency(billDiscount)}</td></tr>` : ''}
+      <tr><td>Total</td><td class="amount">${formatCurrency(total)}</td></tr>
+      <tr><td>Paid to date</td><td class="amount">${formatCurrency(totalPaid)}</td></tr>
+      <tr class="grand"><td>Balance due</td><td class="amount">${formatCurrency(balanceDue)}</td></tr>
+    </table>
+
+    ${payments.length > 0 ? `
+      <h3>Payments received</h3>
+      <table>
+        <thead>
+          <tr><th>Date</th><th>Method</th><th>Reference</th><th class="amount">Amount</th></tr>
+        </thead>
+        <tbody>${paymentRows}</tbody>
+      </table>` : ''}
+
+    ${bill.note ? `<h3>Note</h3><p>${escapeHtml(bill.note)}</p>` : ''}
+
+    <p class="footer">Please quote ${invoiceNumber} with every payment.</p>`;
+
+  return renderDocument(`${invoiceNumber} - ${bill.name}`, body);
+}
@@ -0,0 +1,66 @@
+// lib/documents/receipt.ts
+import { amountToWords, formatCurrency } from '../../utils/formatters';
+import { PaymentWithDetails } from '../db/schema';
+import {
+  escapeHtml,
+  formatDocumentDate,
+  getSchoolInfo,
+  renderDocument,
+  renderSchoolHeader,
+  SchoolInfo
+} from './html';
+
+export interface ReceiptOptions {
+  school?: SchoolInfo;
+}
+
+/**
+ * Receipt number for a payment, falling back to the payment ID for unnumbered payments
+ */
+export function getReceiptNumber(payment: PaymentWithDetails): string {
+  return payment.receiptNumber ?? `PAY-${String(payment.id ?? 0).padStart(6, '0')}`;
+}
+
+/**
+ * Render a payment as a self-contained, printable HTML receipt
+ * @param payment Payment with its bill and student
+ * @param options School details, defaulting to the settings
+ * @returns HTML document
+ */
+export function renderReceiptHtml(payment: PaymentWithDetails, options: ReceiptOptions = {}): string {
+  const school = options.school ?? getSchoolInfo();
+  const receiptNumber = getReceiptNumber(payment);
+  const { bill, student } = payment;
+
+  const body = `
+    ${renderSchoolHeader(school, 'Payment Receipt', receiptNumber)}
+
+    ${payment.status !== 'completed' ? `<p class="grand">This payment has been ${escapeHtml(payment.status)}.</p>` : ''}
+
+    <section class="parties">
+      <div>
+        <p class="muted">Received from</p>
+        <p><strong>${escapeHtml(student.firstname)} ${escapeHtml(student.othernames)}</strong></p>
+        <p>${escapeHtml(student.address)}</p>
+        <p>${escapeHtml(student.phone)}</p>
+      </div>
+      <div class="document-title">
+        <p><span class="muted">Date:</span> ${formatDocumentDate(payment.paymentDate)}</p>
+        <p><span class="muted">Bill:</span> ${escapeHtml(bill.name)}</p>
+      </div>
+    </section>
+
+    <table>
+      <tr><th>Amount</th><td class="amount"><strong>${formatCurrency(payment.amount)}</strong></td></tr>
+      <tr><th>Amount in words</th><td>${escapeHtml(amountToWords(payment.amount))}</td></tr>
+      <tr><th>Method</th><td>${escapeHtml(payment.method ?? '-')}</td></tr>
+      <tr><th>Reference</th><td>${escapeHtml(payment.reference ?? '-')}</td></tr>
+      <tr><th>Received by</th><td>${escapeHtml(payment.receivedBy ?? '-')}</td></tr>
+    </table>
+
+    ${payment.note ? `<h3>Note</h3><p>${escapeHtml(payment.note)}</p>` : ''}
+
+    <p class="footer">Thank you for your payment.</p>`;
+
+  return renderDocument(`${receiptNumber} - ${bill.name}`, body);
+}
@@ -0,0 +1,140 @@
+// lib/operations/audit.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import {
+  AuditAction,
+  AuditEntity,
+  AuditLogEntry,
+  AuditLogFilters,
+  PaginatedResult,
+  PaginationOptions
+} from '../db/schema';
+import { requirePermission } from './auth';
+
+const DEFAULT_ACTOR = 'admin';
+
+// Who is making changes on this device; recorded with every audit entry
+let currentActor = DEFAULT_ACTOR;
+
+/**
+ * Set who subsequent changes are attributed to, e.g. after signing in
+ * @param actor Name of the person using the app; resets to the default when empty
+ */
+export function setAuditActor(actor?: string | null): void {
+  currentActor = actor?.trim() || DEFAULT_ACTOR;
+}
+
+/**
+ * Get who changes are currently attributed to
+ */
+export function getAuditActor(): string {
+  return currentActor;
+}
+
+/**
+ * Read a row as it stands, to store as the before or after state of a change
+ * @param db Database instance
+ * @param entity Table the row belongs to
+ * @param id Row ID
+ * @returns The row, or null if it does not exist
+ */
+export async function getAuditSnapshot(
+  db: SQLiteDatabase,
+  entity: AuditEntity,
+  id: number
+): Promise<Record<string, unknown> | null> {
+  return await db.getFirstAsync<Record<string, unknown>>(`SELECT * FROM ${entity} WHERE id = ?`, id);
+}
+
+/**
+ * Write an entry to the audit log. Entries cannot be changed or removed afterwards.
+ * Does not open a transaction, so it can be called from within one.
+ * @param db Database instance
+ * @param entity Table that changed
+ * @param entityId ID of the row that changed
+ * @param action What happened to the row
+ * @param before The row before the change; omit for creates
+ * @param after The row after the change; omit for deletes
+ */
+export async function recordAudit(
+  db: SQLiteDatabase,
+  entity: AuditEntity,
+  entityId: number | null,
+  action: AuditAction,
+  before?: object | null,
+  after?: object | null
+): Promise<void> {
+  await db.runAsync(
+    'INSERT INTO audit_log (entity, entityId, action, before, after, actor) VALUES (?, ?, ?, ?, ?, ?)',
+    entity,
+    entityId,
+    action,
+    before ? JSON.stringify(before) : null,
+    after ? JSON.stringify(after) : null,
+    currentActor
+  );
+}
+
+/**
+ * Browse the audit log, newest first
+ * @param db Database instance
+ * @param filters Optional entity, row, action, actor and date range filters
+ * @param pagination Page to return, defaults to the first 50 entries
+ * @returns Paginated audit entries
+ */
+export async function getAuditLog(
+  db: SQLiteDatabase,
+  filters: AuditLogFilters = {},
+  pagination: PaginationOptions = { page: 1, pageSize: 50 }
+): Promise<PaginatedResult<AuditLogEntry>> {
+  requirePermission('audit.view');
+
+  try {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filters.entity) {
+      conditions.push('entity = ?');
+      params.push(filters.entity);
+    }
+    if (filters.entityId !== undefined) {
+      conditions.push('entityId = ?');
+      params.push(filters.entityId);
+    }
+    if (filters.action) {
+      conditions.push('action = ?');
+      params.push(filters.action);
+    }
+    if (filters.actor && filters.actor.trim()) {
+      conditions.push('actor LIKE ?');
+      params.push(`%${filters.actor.trim()}%`);
+    }
+    if (filters.fromDate) {
+      conditions.push('substr(createdAt, 1, 10) >= ?');
+      params.push(filters.fromDate.slice(0, 10));
+    }
+    if (filters.toDate) {
+      conditions.push('substr(createdAt, 1, 10) <= ?');
+      params.push(filters.toDate.slice(0, 10));
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { page, pageSize } = pagination;
+
+    const count = await db.getFirstAsync<{ total: number }>(
+      `SELECT COUNT(*) as total FROM audit_log ${where}`,
+      ...params
+    );
+    const data = await db.getAllAsync<AuditLogEntry>(
+      `SELECT * FROM audit_log ${where} ORDER BY createdAt DESC, id DESC LIMIT ? OFFSET ?`,
+      ...params,
+      pageSize,
+      (page - 1) * pageSize
+    );
+
+    const total = count?.total ?? 0;
+    return { data, total, page, pageSize, totalPages: Math.ceil(total / pageSize) };
+  } catch (error) {
+    console.error('Error getting audit log:', error);
+    throw error;
+  }
+}
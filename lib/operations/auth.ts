@@ -0,0 +1,95 @@
+// lib/operations/auth.ts
+import { Permission, User, UserRole } from '../db/schema';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrator',
+  bursar: 'Bursar',
+  cashier: 'Cashier',
+  viewer: 'Viewer'
+};
+
+// What each role may do; every role can view records
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    'students.manage',
+    'departments.manage',
+    'bills.manage',
+    'bills.delete',
+    'payments.record',
+    'payments.void',
+    'data.export',
+    'data.restore',
+    'audit.view',
+    'users.manage',
+    'settings.manage'
+  ],
+  bursar: [
+    'students.manage',
+    'departments.manage',
+    'bills.manage',
+    'bills.delete',
+    'payments.record',
+    'payments.void',
+    'data.export',
+    'audit.view'
+  ],
+  cashier: ['payments.record'],
+  viewer: []
+};
+
+const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'students.manage': 'change students, enrollments or families',
+  'departments.manage': 'change departments or bill items',
+  'bills.manage': 'create or change bills, discounts, late fees or installment plans',
+  'bills.delete': 'delete bills',
+  'payments.record': 'record payments',
+  'payments.void': 'void or refund payments',
+  'data.export': 'export or back up data',
+  'data.restore': 'restore a backup',
+  'audit.view': 'view the audit log',
+  'users.manage': 'manage user accounts',
+  'settings.manage': 'change school settings'
+};
+
+// The signed-in user on this device
+let currentUser: User | null = null;
+
+/**
+ * Set the signed-in user, or clear it on sign out
+ * @param user The user who signed in, or null
+ */
+export function setCurrentUser(user: User | null): void {
+  currentUser = user;
+}
+
+/**
+ * Get the signed-in user
+ * @returns The user, or null if nobody is signed in
+ */
+export function getCurrentUser(): User | null {
+  return currentUser;
+}
+
+/**
+ * Check whether a user's role allows an action
+ * @param permission The action
+ * @param user User to check, defaults to the signed-in user
+ */
+export function hasPermission(permission: Permission, user: User | null = currentUser): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role]?.includes(permission);
+}
+
+/**
+ * Stop an operation the signed-in user's role does not allow
+ * @param permission The action about to be performed
+ */
+export function requirePermission(permission: Permission): void {
+  if (!currentUser) {
+    throw new Error('Please sign in first');
+  }
+  if (!hasPermission(permission)) {
+    throw new Error(
+      `${ROLE_LABELS[currentUser.role]} accounts are not allowed to ${PERMISSION_DESCRIPTIONS[permission]}`
+    );
+  }
+}
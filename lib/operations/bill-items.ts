@@ -5,7 +5,10 @@
 // departmentId: number;
 
 import { SQLiteDatabase } from 'expo-sqlite';
-import { BillItem, BillItemRelation } from '../db/schema';
+import { Money, isMoney } from '../../utils/money';
+import { BillItem, BillItemRelation, LATE_FEE_CATEGORY } from '../db/schema';
+import { getAuditSnapshot, recordAudit } from './audit';
+import { requirePermission } from './auth';
 
 /**
  * Create a new bill item
@@ -14,9 +17,15 @@ import { BillItem, BillItemRelation } from '../db/schema';
  * @returns Promise resolving to the added bill item
  */
 export async function addBillItem(db: SQLiteDatabase, billItem: {
-    name: string, amount: number, departmentId: number, description?: string, category?: string, isRequired?: boolean
+    name: string, amount: Money, departmentId: number, description?: string, category?: string, isRequired?: boolean
 }): Promise<BillItem> {
+    requirePermission('departments.manage');
+
     try {
+        if (!isMoney(billItem.amount) || billItem.amount < 0) {
+            throw new Error('Bill item amount must be a whole number of pesewas');
+        }
+
         // Convert undefined values to null for SQLite compatibility
         const description = billItem.description ?? null;
         const category = billItem.category ?? null;
@@ -34,6 +43,9 @@ export async function addBillItem(db: SQLiteDatabase, billItem: {
             isRequired
         );
 
+        await recordAudit(db, 'bill_items', result.lastInsertRowId, 'create', null,
+            await getAuditSnapshot(db, 'bill_items', result.lastInsertRowId));
+
         return {
             id: result.lastInsertRowId,
             ...billItem,
@@ -47,14 +59,26 @@ export async function addBillItem(db: SQLiteDatabase, billItem: {
 
 /**
  * Get all bill items
+ * The late fee items are left out, as they are only charged by late fee rules
  * @param db Database instance
+ * @param termId Only items of departments running in this term
  * @returns Promise resolving to an array of bill items
  */
-export async function getAllBillItems(db: SQLiteDatabase): Promise<BillItem[]> {
+export async function getAllBillItems(db: SQLiteDatabase, termId?: number): Promise<BillItem[]> {
     try {
-        const billItems = await db.getAllAsync<BillItem>(
-            'SELECT * FROM bill_items ORDER BY name'
-        );
+        const billItems = termId
+            ? await db.getAllAsync<BillItem>(
+                `SELECT bi.* FROM bill_items bi
+                 JOIN departments d ON bi.departmentId = d.id
+                 WHERE d.termId = ? AND (bi.category IS NULL OR bi.category != ?)
+                 ORDER BY bi.name`,
+                termId,
+                LATE_FEE_CATEGORY
+            )
+            : await db.getAllAsync<BillItem>(
+                'SELECT * FROM bill_items WHERE category IS NULL OR category != ? ORDER BY name',
+                LATE_FEE_CATEGORY
+            );
         return billItems;
     } catch (error) {
         console.error('Error getting all bill items:', error);
@@ -90,18 +114,26 @@ export async function getBillItemById(db: SQLiteDatabase, id: number): Promise<B
  */
 
 export async function updateBillItem(db: SQLiteDatabase, billItem: {
-    id: number, name: string, amount: number, departmentId: number, description?: string, category?: string, isRequired?: boolean, isActive?: boolean
+    id: number, name: string, amount: Money, departmentId: number, description?: string, category?: string, isRequired?: boolean, isActive?: boolean
 }): Promise<BillItem> {
+    requirePermission('departments.manage');
+
     try {
+        if (!isMoney(billItem.amount) || billItem.amount < 0) {
+            throw new Error('Bill item amount must be a whole number of pesewas');
+        }
+
         // Convert undefined values to null for SQLite compatibility
         const description = billItem.description ?? null;
         const category = billItem.category ?? null;
         const isRequired = billItem.isRequired ?? null;
         const isActive = billItem.isActive ?? null;
 
-        const result = await db.runAsync(`
+        const before = await getAuditSnapshot(db, 'bill_items', billItem.id);
+
+        await db.runAsync(`
             UPDATE bill_items 
-            SET name = ?, amount = ?, departmentId = ?, description = ?, category = ?, isRequired = ?, isActive = ? 
+            SET name = ?, amount = ?, departmentId = ?, description = ?, category = ?, isRequired = ?, isActive = ?, updatedAt = CURRENT_TIMESTAMP 
             WHERE id = ?
         `,
             billItem.name,
@@ -114,6 +146,8 @@ export async function updateBillItem(db: SQLiteDatabase, billItem: {
             billItem.id!
         );
 
+        await recordAudit(db, 'bill_items', billItem.id, 'update', before,
+            await getAuditSnapshot(db, 'bill_items', billItem.id));
 
         return billItem;
     } catch (error) {
@@ -123,16 +157,32 @@ export async function updateBillItem(db: SQLiteDatabase, billItem: {
 }
 
 /**
- * Delete a bill item
+ * Delete a bill item that no bill uses
+ * Does not open a transaction, so it can be called from within one.
  * @param db Database instance
  * @param id Bill item ID
  * @returns Promise resolving to the result of the deletion operation
  */
 
 export async function deleteBillItem(db: SQLiteDatabase, id: number): Promise<void> {
-    // This function does a hard delete.
+    requirePermission('departments.manage');
+
+    // This function does a hard delete, so items on issued bills are kept for their invoices and statements
     try {
+        const usage = await db.getFirstAsync<{ count: number }>(
+            'SELECT COUNT(*) as count FROM bill_item_relations WHERE billItemId = ?',
+            id
+        );
+        if (usage && usage.count > 0) {
+            const item = await getBillItemById(db, id);
+            throw new Error(`"${item?.name ?? `Bill item #${id}`}" is on bills already issued and cannot be removed`);
+        }
+
+        const before = await getAuditSnapshot(db, 'bill_items', id);
         await db.runAsync('DELETE FROM bill_items WHERE id = ?', id);
+        if (before) {
+            await recordAudit(db, 'bill_items', id, 'delete', before);
+        }
     } catch (error) {
         console.error(`Error deleting bill item with ID ${id}:`, error);
         throw error;
@@ -140,17 +190,29 @@ export async function deleteBillItem(db: SQLiteDatabase, id: number): Promise<vo
 }
 
 /**
- * Search for bill items by name
+ * Search for bill items by name, leaving out the late fee items
  * @param db Database instance
  * @param searchTerm Search term
+ * @param termId Only items of departments running in this term
  * @returns Promise resolving to an array of matching bill items
  */
-export async function searchBillItems(db: SQLiteDatabase, searchTerm: string): Promise<BillItem[]> {
+export async function searchBillItems(db: SQLiteDatabase, searchTerm: string, termId?: number): Promise<BillItem[]> {
     try {
-        const billItems = await db.getAllAsync<BillItem>(
-            'SELECT * FROM bill_items WHERE name LIKE ? ORDER BY name',
-            `%${searchTerm}%`
-        );
+        const billItems = termId
+            ? await db.getAllAsync<BillItem>(
+                `SELECT bi.* FROM bill_items bi
+                 JOIN departments d ON bi.departmentId = d.id
+                 WHERE bi.name LIKE ? AND d.termId = ? AND (bi.category IS NULL OR bi.category != ?)
+                 ORDER BY bi.name`,
+                `%${searchTerm}%`,
+                termId,
+                LATE_FEE_CATEGORY
+            )
+            : await db.getAllAsync<BillItem>(
+                'SELECT * FROM bill_items WHERE name LIKE ? AND (category IS NULL OR category != ?) ORDER BY name',
+                `%${searchTerm}%`,
+                LATE_FEE_CATEGORY
+            );
         return billItems;
     } catch (error) {
         console.error('Error searching bill items:', error);
@@ -160,6 +222,7 @@ export async function searchBillItems(db: SQLiteDatabase, searchTerm: string): P
 
 /**
  * Get all bills for a specific department
+ * The late fee item is left out, as it is only charged by late fee rules
  * @param db Database instance
  * @param departmentId Department ID
  * @returns Promise resolving to an array of bills for the department
@@ -168,10 +231,11 @@ export async function getBillItemsByDepartmentId(db: SQLiteDatabase, departmentI
     try {
         const bills = await db.getAllAsync<BillItem>(`
              SELECT bi.* FROM bill_items bi
-             WHERE departmentId = ?
+             WHERE departmentId = ? AND (bi.category IS NULL OR bi.category != ?)
              ORDER BY bi.name
         `,
             departmentId,
+            LATE_FEE_CATEGORY,
         );
         return bills;
     } catch (error) {
@@ -193,6 +257,8 @@ export async function addBillItemRelation(db: SQLiteDatabase, relation: {
     billItemId: number, 
     amount?: number
   }): Promise<BillItemRelation> {
+      requirePermission('bills.manage');
+
       try {
           // Convert undefined values to default values (not just null)
           // Using default values like 0 to satisfy the BillItemRelation type
@@ -206,6 +272,9 @@ export async function addBillItemRelation(db: SQLiteDatabase, relation: {
               relation.billItemId,
               amount,
           );
+
+          await recordAudit(db, 'bill_item_relations', result.lastInsertRowId, 'create', null,
+              await getAuditSnapshot(db, 'bill_item_relations', result.lastInsertRowId));
   
           // Return an object that matches the BillItemRelation type
           return {
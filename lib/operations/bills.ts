@@ -1,20 +1,180 @@
 import { SQLiteDatabase } from "expo-sqlite";
-import { Bill, BulkBillResult, CreateBillWithItemsPayload, Department, Student } from "../db/schema";
+import { Money, isMoney, multiplyMoney, sumMoney } from "../../utils/money";
+import {
+    Bill,
+    BillFilters,
+    BillItem,
+    BillItemRelation,
+    BillListItem,
+    BillStatusChange,
+    BillWithItems,
+    BulkBillPreview,
+    BulkBillResult,
+    CreateBillWithItemsPayload,
+    Department,
+    DepartmentBillItemInput,
+    Payment,
+    Student
+} from "../db/schema";
+import { beginTransaction } from "../db/transaction";
+import { getAuditSnapshot, recordAudit } from "./audit";
+import { requirePermission } from "./auth";
+import { getDefaultDueDate } from "./settings";
+import { calculateSchemeDiscounts, getStudentDiscountSchemes } from "./discounts";
 
 
 // Department-Wide Bill Generation
 
+interface DepartmentBillLine {
+    billItemId: number;
+    amount: Money;
+    quantity: number;
+    category?: string | null;
+}
+
+/**
+ * Resolve the amount and quantity of each requested bill item line,
+ * falling back to the bill item's default amount
+ */
+async function resolveDepartmentBillLines(
+    db: SQLiteDatabase,
+    departmentId: number,
+    billItems: DepartmentBillItemInput[]
+): Promise<DepartmentBillLine[]> {
+    const lines: DepartmentBillLine[] = [];
+
+    for (const item of billItems) {
+        const billItem = await db.getFirstAsync<BillItem>(
+            'SELECT * FROM bill_items WHERE id = ?',
+            [item.billItemId]
+        );
+
+        if (!billItem || billItem.amount === undefined) {
+            throw new Error(`BillItem with ID ${item.billItemId} not found or has no amount`);
+        }
+        if (billItem.departmentId !== departmentId) {
+            throw new Error(`BillItem "${billItem.name}" does not belong to department ${departmentId}`);
+        }
+
+        const quantity = item.quantity ?? 1;
+        if (!Number.isInteger(quantity) || quantity < 1) {
+            throw new Error(`Invalid quantity for "${billItem.name}"`);
+        }
+
+        const amount = item.amount ?? billItem.amount;
+        if (!isMoney(amount) || amount < 0) {
+            throw new Error(`Invalid amount for "${billItem.name}"`);
+        }
+
+        lines.push({
+            billItemId: item.billItemId,
+            amount,
+            quantity,
+            category: billItem.category
+        });
+    }
+
+    return lines;
+}
+
+/**
+ * Work out a student's scheme discounts on a set of bill lines
+ * @returns Discount for each line, the bill-level discount and the bill total after line discounts
+ */
+async function getStudentBillDiscounts(
+    db: SQLiteDatabase,
+    studentId: number,
+    departmentId: number,
+    lines: { amount: Money; quantity: number; discount?: Money; category?: string | null }[]
+): Promise<{ lineDiscounts: Money[]; billDiscount: Money; totalAmount: Money }> {
+    const schemes = await getStudentDiscountSchemes(db, studentId, departmentId);
+    const { lineDiscounts, billDiscount } = calculateSchemeDiscounts(
+        lines.map(line => ({ ...line, discount: line.discount || 0 })),
+        schemes
+    );
+    const totalAmount = sumMoney(lines.map(
+        (line, index) => multiplyMoney(line.amount, line.quantity) - (line.discount || 0) - lineDiscounts[index]
+    ));
+
+    return {
+        lineDiscounts: lines.map((line, index) => (line.discount || 0) + lineDiscounts[index]),
+        billDiscount,
+        totalAmount
+    };
+}
+
+/**
+ * Get the students actively enrolled in a department
+ */
+async function getBillableStudents(db: SQLiteDatabase, departmentId: number): Promise<Student[]> {
+    return db.getAllAsync<Student>(
+        `SELECT s.* FROM students s
+         JOIN student_departments sd ON s.id = sd.studentId
+         WHERE sd.departmentId = ? AND sd.isActive = 1 AND sd.status = 'active' AND s.isActive = 1
+         ORDER BY s.firstname, s.othernames`,
+        [departmentId]
+    );
+}
+
+/**
+ * Preview the bills that createBillsForDepartment would create, without writing anything
+ * @param db Database instance
+ * @param departmentId Department ID
+ * @param billItems Bill items to include, with optional amount/quantity overrides
+ * @returns Per-student totals and the overall total
+ */
+export async function previewBillsForDepartment(
+    db: SQLiteDatabase,
+    departmentId: number,
+    billItems: DepartmentBillItemInput[]
+): Promise<BulkBillPreview> {
+    try {
+        const lines = await resolveDepartmentBillLines(db, departmentId, billItems);
+        const students = await getBillableStudents(db, departmentId);
+        const grossTotal = sumMoney(lines.map(line => multiplyMoney(line.amount, line.quantity)));
+
+        const preview: BulkBillPreview = { students: [], totalAmount: 0 };
+        for (const student of students) {
+            const { billDiscount, totalAmount } = await getStudentBillDiscounts(db, student.id!, departmentId, lines);
+            const netTotal = totalAmount - billDiscount;
+            preview.students.push({
+                studentId: student.id!,
+                studentName: `${student.firstname} ${student.othernames}`,
+                totalAmount: netTotal,
+                discount: grossTotal - netTotal
+            });
+            preview.totalAmount += netTotal;
+        }
+
+        return preview;
+    } catch (error) {
+        console.error('Error previewing department bills:', error);
+        throw error;
+    }
+}
+
+/**
+ * Create a bill for every student actively enrolled in a department,
+ * applying each student's discount schemes for the department
+ * @param db Database instance
+ * @param departmentId Department ID
+ * @param billItems Bill items to include, with optional amount/quantity overrides
+ * @param billName Name given to every bill
+ * @param options Optional due date and note for every bill; the due date defaults to the school's setting
+ * @returns Number of bills created, their total and per-student errors
+ */
 export async function createBillsForDepartment(
     db: SQLiteDatabase,
     departmentId: number,
-    billItems: {
-      billItemId: number;
-      amount?: number;
-      quantity?: number;
-    }[],
-    billName: string
+    billItems: DepartmentBillItemInput[],
+    billName: string,
+    options: { dueDate?: string; note?: string } = {}
   ): Promise<BulkBillResult> {
-    await db.execAsync('BEGIN TRANSACTION');
+    requirePermission('bills.manage');
+
+    const dueDate = options.dueDate ?? await getDefaultDueDate(db);
+
+    const transaction = await beginTransaction(db);
     const result: BulkBillResult = {
       billsCreated: 0,
       totalAmount: 0,
@@ -31,72 +191,45 @@ export async function createBillsForDepartment(
       if (!department || department.length === 0) {
         throw new Error(`Department with ID ${departmentId} not found`);
       }
+
+      // 2. Resolve item amounts once for all students
+      const itemRelations = await resolveDepartmentBillLines(db, departmentId, billItems);
   
-      // 2. Get all enrolled students
-      const students = await db.getAllAsync<Student>(
-        `SELECT s.* FROM students s
-         JOIN studentDepartments sd ON s.id = sd.studentId
-         WHERE sd.departmentId = ? AND sd.isActive = 1`,
-        [departmentId]
-      );
+      // 3. Get all enrolled students
+      const students = await getBillableStudents(db, departmentId);
   
-      // 3. Process each student
+      // 4. Process each student
       for (const student of students) {
         try {
           if (student.id === undefined) {
             throw new Error('Student ID is undefined');
           }
-
-          // Calculate total amount
-          let studentTotal = 0;
-          const itemRelations: {
-            billItemId: number;
-            amount: number;
-            quantity: number;
-          }[] = [];
-  
-          for (const item of billItems) {
-            let amount: number;
-            if (item.amount !== undefined) {
-              amount = item.amount;
-            } else {
-              const billItem = await db.getFirstAsync<{ amount: number }>(
-                'SELECT amount FROM billItems WHERE id = ?',
-                [item.billItemId]
-              );
-              
-              if (!billItem || billItem.amount === undefined) {
-                throw new Error(`BillItem with ID ${item.billItemId} not found or has no amount`);
-              }
-              
-              amount = billItem.amount;
-            }
-            
-            const quantity = item.quantity ?? 1;
-            studentTotal += Number(amount) * Number(quantity);
-            itemRelations.push({ billItemId: item.billItemId, amount, quantity });
-          }
   
+          const { lineDiscounts, billDiscount, totalAmount } =
+            await getStudentBillDiscounts(db, student.id, departmentId, itemRelations);
+
           // Create bill
           const billResult = await db.runAsync(
-            `INSERT INTO bills (name, studentId, departmentId, totalAmount, status)
-             VALUES (?, ?, ?, ?, ?)`,
-            [billName || '', student.id, departmentId, studentTotal, 'pending']
+            `INSERT INTO bills (name, studentId, departmentId, totalAmount, dueDate, note, status, discount)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+            [billName || '', student.id, departmentId, totalAmount, dueDate, options.note ?? null, 'pending', billDiscount]
           );
   
           const billId = billResult.lastInsertRowId;
   
           // Add bill items
-          for (const relation of itemRelations) {
+          for (const [index, relation] of itemRelations.entries()) {
             await db.runAsync(
-              `INSERT INTO billItemRelations (billId, billItemId, amount, quantity)
-               VALUES (?, ?, ?, ?)`,
-              [billId, relation.billItemId, relation.amount, relation.quantity]
+              `INSERT INTO bill_item_relations (billId, billItemId, amount, quantity, discount)
+               VALUES (?, ?, ?, ?, ?)`,
+              [billId, relation.billItemId, relation.amount, relation.quantity, lineDiscounts[index]]
             );
           }
+
+          await recordAudit(db, 'bills', billId, 'create', null, await getAuditSnapshot(db, 'bills', billId));
   
           result.billsCreated++;
-          result.totalAmount += studentTotal;
+          result.totalAmount += totalAmount - billDiscount;
         } catch (error) {
           result.errors.push({
             studentId: student.id || 0, // Provide default if undefined
@@ -105,62 +238,83 @@ export async function createBillsForDepartment(
         }
       }
   
-      await db.execAsync('COMMIT');
+      await transaction.commit();
       return result;
     } catch (error) {
-      await db.execAsync('ROLLBACK');
+      await transaction.rollback();
       throw error;
     }
   }
 
-// Usage Example
-// const enrollmentResult = await bulkEnrollStudents(db, 1, [101, 102, 103]);
-// console.log(`Enrolled ${enrollmentResult.successCount} students`);
-// enrollmentResult.errors.forEach(error => {
-//   console.error(`Failed for student ${error.studentId}: ${error.error}`);
-// });
-
 /**
- * Create a new bill with items
+ * Create a new bill with items, applying the student's discount schemes for the department
  * @param db Database instance
- * @param bill The bill data
+ * @param bill The bill data; the due date defaults to the school's setting
  * @returns Newly created bill with ID
  */
 export async function createBillWithItems(db: SQLiteDatabase, bill: CreateBillWithItemsPayload): Promise<Bill> {
-    try {
-        await db.execAsync('BEGIN TRANSACTION');
+    requirePermission('bills.manage');
+
+    const dueDate = bill.dueDate || await getDefaultDueDate(db);
 
+    const transaction = await beginTransaction(db);
+
+    try {
         const billResult = await db.runAsync(
             'INSERT INTO bills (name, studentId, departmentId, totalAmount, dueDate, note) VALUES (?, ?, ?, ?, ?, ?)',
             bill.name,
             bill.studentId,
             bill.departmentId,
             0, // We'll update this after adding the items
-            bill.dueDate || null,
+            dueDate,
             bill.note || null
         );
 
         const billId = billResult.lastInsertRowId;
 
-        let totalAmount = 0;
+        const lines = [];
         for (const item of bill.items) {
-            const itemAmount = item.amount || 0
-            const quantity = item.quantity || 1;
-            const discount = item.discount || 0;
+            const billItem = await db.getFirstAsync<Pick<BillItem, 'category'>>(
+                'SELECT category FROM bill_items WHERE id = ?',
+                item.billItemId
+            );
+            const line = {
+                amount: item.amount || 0,
+                quantity: item.quantity || 1,
+                discount: item.discount || 0,
+                category: billItem?.category
+            };
+            if (!isMoney(line.amount) || !isMoney(line.discount)) {
+                throw new Error('Bill amounts must be whole numbers of pesewas');
+            }
+            lines.push(line);
+        }
+
+        // Apply the student's discount schemes for this department
+        const { lineDiscounts, billDiscount, totalAmount } =
+            await getStudentBillDiscounts(db, bill.studentId, bill.departmentId, lines);
+
+        for (const [index, item] of bill.items.entries()) {
             await db.runAsync(
                 'INSERT INTO bill_item_relations (billId, billItemId, amount, quantity, discount) VALUES (?, ?, ?, ?, ?)',
                 billId,
                 item.billItemId,
-                itemAmount,
-                quantity,
-                discount
+                lines[index].amount,
+                lines[index].quantity,
+                lineDiscounts[index]
             );
-            totalAmount += (itemAmount * quantity) - discount;
         }
 
-        await db.runAsync('UPDATE bills SET totalAmount = ? WHERE id = ?', totalAmount, billId);
+        await db.runAsync(
+            'UPDATE bills SET totalAmount = ?, discount = ? WHERE id = ?',
+            totalAmount,
+            billDiscount,
+            billId
+        );
 
-        await db.execAsync('COMMIT');
+        await recordAudit(db, 'bills', billId, 'create', null, await getAuditSnapshot(db, 'bills', billId));
+
+        await transaction.commit();
 
         return {
             id: billId,
@@ -168,11 +322,12 @@ export async function createBillWithItems(db: SQLiteDatabase, bill: CreateBillWi
             studentId: bill.studentId,
             departmentId: bill.departmentId,
             totalAmount: totalAmount,
-            dueDate: bill.dueDate,
+            discount: billDiscount,
+            dueDate: dueDate ?? undefined,
             note: bill.note,
         };
     } catch (error) {
-        await db.execAsync('ROLLBACK');
+        await transaction.rollback();
         console.error('Error creating bill with items:', error);
         throw error;
     }
@@ -216,13 +371,23 @@ export async function getBillById(db: SQLiteDatabase, id: number): Promise<Bill
  * @returns Whether the update was successful
  */
 export async function updateBill(db: SQLiteDatabase, bill: Bill): Promise<boolean> {
+    requirePermission('bills.manage');
+
     try {
         if (!bill.id) {
             throw new Error('Bill ID is required for update');
         }
+        if (!isMoney(bill.totalAmount) || (bill.discount != null && !isMoney(bill.discount))) {
+            throw new Error('Bill amounts must be whole numbers of pesewas');
+        }
+
+        const previous = await getAuditSnapshot(db, 'bills', bill.id) as Bill | null;
 
         const result = await db.runAsync(
-            'UPDATE bills SET name = ?, studentId = ?, departmentId = ?, totalAmount = ?, dueDate = ?, status = ?, discount = ?, note = ? WHERE id = ?',
+            `UPDATE bills
+             SET name = ?, studentId = ?, departmentId = ?, totalAmount = ?, dueDate = ?, status = ?, discount = ?, note = ?,
+                 updatedAt = CURRENT_TIMESTAMP
+             WHERE id = ?`,
             bill.name,
             bill.studentId,
             bill.departmentId,
@@ -234,6 +399,13 @@ export async function updateBill(db: SQLiteDatabase, bill: Bill): Promise<boolea
             bill.id
         );
 
+        if (previous && bill.status && bill.status !== previous.status) {
+            await recordBillStatusChange(db, bill.id, previous.status, bill.status, 'Updated manually');
+        }
+        if (result.changes > 0) {
+            await recordAudit(db, 'bills', bill.id, 'update', previous, await getAuditSnapshot(db, 'bills', bill.id));
+        }
+
         return result.changes > 0;
     } catch (error) {
         console.error('Error updating bill:', error);
@@ -242,15 +414,73 @@ export async function updateBill(db: SQLiteDatabase, bill: Bill): Promise<boolea
 }
 
 /**
- * Delete a bill
+ * Record a change of a bill's status in its history.
+ * Does not open a transaction, so it can be called from within one.
+ * @param db Database instance
+ * @param billId Bill ID
+ * @param fromStatus Status before the change
+ * @param toStatus Status after the change
+ * @param reason Why the status changed
+ */
+export async function recordBillStatusChange(
+    db: SQLiteDatabase,
+    billId: number,
+    fromStatus: Bill['status'] | null,
+    toStatus: NonNullable<Bill['status']>,
+    reason?: string
+): Promise<void> {
+    await db.runAsync(
+        'INSERT INTO bill_status_history (billId, fromStatus, toStatus, reason) VALUES (?, ?, ?, ?)',
+        billId,
+        fromStatus ?? null,
+        toStatus,
+        reason || null
+    );
+}
+
+/**
+ * Get the status transitions of a bill
+ * @param db Database instance
+ * @param billId Bill ID
+ * @returns Array of status changes, oldest first
+ */
+export async function getBillStatusHistory(db: SQLiteDatabase, billId: number): Promise<BillStatusChange[]> {
+    try {
+        return await db.getAllAsync<BillStatusChange>(
+            'SELECT * FROM bill_status_history WHERE billId = ? ORDER BY changedAt ASC, id ASC',
+            billId
+        );
+    } catch (error) {
+        console.error(`Error getting status history for bill with ID ${billId}:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Delete a bill that has no payments; bills with payments are cancelled instead,
+ * so their receipts and audit trail stay complete
  * @param db Database instance
  * @param id Bill ID
  * @returns Whether the deletion was successful
  */
 export async function deleteBill(db: SQLiteDatabase, id: number): Promise<boolean> {
+    requirePermission('bills.delete');
+
     try {
+        const payments = await db.getFirstAsync<{ count: number }>(
+            'SELECT COUNT(*) as count FROM payments WHERE billId = ?',
+            id
+        );
+        if (payments && payments.count > 0) {
+            throw new Error('This bill has payments and cannot be deleted; cancel it instead');
+        }
+
         //hard delete
+        const before = await getAuditSnapshot(db, 'bills', id);
         const result = await db.runAsync('DELETE FROM bills WHERE id = ?', id);
+        if (result.changes > 0) {
+            await recordAudit(db, 'bills', id, 'delete', before);
+        }
         return result.changes > 0;
     } catch (error) {
         console.error(`Error deleting bill with ID ${id}:`, error);
@@ -293,3 +523,105 @@ export async function getBillsByStudentId(db: SQLiteDatabase, studentId: number)
 }
 
 
+
+/**
+ * Get bills matching the given filters, with student and department names
+ * @param db Database instance
+ * @param filters Bill filters
+ * @returns Array of matching bills, soonest due first
+ */
+export async function getFilteredBills(db: SQLiteDatabase, filters: BillFilters = {}): Promise<BillListItem[]> {
+    try {
+        const conditions: string[] = ['b.isActive = 1'];
+        const params: (string | number)[] = [];
+
+        if (filters.searchTerm && filters.searchTerm.trim()) {
+            const likeParam = `%${filters.searchTerm.trim()}%`;
+            conditions.push(`(b.name LIKE ? OR s.firstname LIKE ? OR s.othernames LIKE ?)`);
+            params.push(likeParam, likeParam, likeParam);
+        }
+        if (filters.status) {
+            conditions.push('b.status = ?');
+            params.push(filters.status);
+        }
+        if (filters.studentId) {
+            conditions.push('b.studentId = ?');
+            params.push(filters.studentId);
+        }
+        if (filters.departmentId) {
+            conditions.push('b.departmentId = ?');
+            params.push(filters.departmentId);
+        }
+        if (filters.termId) {
+            conditions.push('d.termId = ?');
+            params.push(filters.termId);
+        }
+        if (filters.dueFrom) {
+            conditions.push('date(b.dueDate) >= date(?)');
+            params.push(filters.dueFrom);
+        }
+        if (filters.dueTo) {
+            conditions.push('date(b.dueDate) <= date(?)');
+            params.push(filters.dueTo);
+        }
+
+        const bills = await db.getAllAsync<BillListItem>(
+            `SELECT b.*,
+                    s.firstname || ' ' || s.othernames as studentName,
+                    d.name as departmentName
+             FROM bills b
+             JOIN students s ON b.studentId = s.id
+             JOIN departments d ON b.departmentId = d.id
+             WHERE ${conditions.join(' AND ')}
+             ORDER BY b.dueDate IS NULL, b.dueDate, b.name`,
+            ...params
+        );
+        return bills;
+    } catch (error) {
+        console.error('Error filtering bills:', error);
+        throw error;
+    }
+}
+
+/**
+ * Get a bill with its items, payments and student
+ * @param db Database instance
+ * @param id Bill ID
+ * @returns Bill with details or null if not found
+ */
+export async function getBillWithItems(db: SQLiteDatabase, id: number): Promise<BillWithItems | null> {
+    try {
+        const bill = await db.getFirstAsync<Bill>('SELECT * FROM bills WHERE id = ?', id);
+        if (!bill) {
+            return null;
+        }
+
+        const relations = await db.getAllAsync<BillItemRelation>(
+            'SELECT * FROM bill_item_relations WHERE billId = ? AND isActive = 1 ORDER BY id',
+            id
+        );
+        const billItems = await db.getAllAsync<BillItem>(
+            'SELECT * FROM bill_items WHERE id IN (SELECT billItemId FROM bill_item_relations WHERE billId = ?)',
+            id
+        );
+        const billItemsById = new Map(billItems.map(item => [item.id, item]));
+
+        const payments = await db.getAllAsync<Payment>(
+            'SELECT * FROM payments WHERE billId = ? AND isActive = 1 ORDER BY paymentDate, id',
+            id
+        );
+        const student = await db.getFirstAsync<Student>('SELECT * FROM students WHERE id = ?', bill.studentId);
+
+        return {
+            ...bill,
+            items: relations
+                .filter(relation => billItemsById.has(relation.billItemId))
+                .map(relation => ({ ...relation, billItem: billItemsById.get(relation.billItemId)! })),
+            payments,
+            student: student || undefined
+        };
+    } catch (error) {
+        console.error(`Error getting bill with items for ID ${id}:`, error);
+        throw error;
+    }
+}
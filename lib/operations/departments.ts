@@ -1,8 +1,27 @@
 // lib/operations/departments.ts
 
 import { SQLiteDatabase } from "expo-sqlite";
-import { Department, Student, CreateDepartmentPayload, DepartmentWithBillItems, BillItem } from "../db/schema";
-import { addBillItem } from './bill-items';
+import { Money, sumMoney } from "../../utils/money";
+import { Department, Student, CreateDepartmentPayload, DepartmentWithBillItems, BillItem, LATE_FEE_CATEGORY, TermWithYear } from "../db/schema";
+import { beginTransaction } from "../db/transaction";
+import { getAuditSnapshot, recordAudit } from './audit';
+import { requirePermission } from './auth';
+import { addBillItem, deleteBillItem, updateBillItem } from './bill-items';
+import { getTermById } from './terms';
+
+/**
+ * Look up the term a department runs in, whose names are stored with it as labels
+ */
+async function getDepartmentTerm(db: SQLiteDatabase, termId?: number | null): Promise<TermWithYear> {
+    if (!termId) {
+        throw new Error("Please choose a term");
+    }
+    const term = await getTermById(db, termId);
+    if (!term) {
+        throw new Error(`Term with ID ${termId} not found`);
+    }
+    return term;
+}
 
 /**
  * Create a new department
@@ -11,25 +30,30 @@ import { addBillItem } from './bill-items';
  * @returns Newly created department with ID
  */
 export async function addDepartment(db: SQLiteDatabase, department: Department): Promise<Department> {
-    const { name, term, year, description, startDate, endDate } = department;
+    requirePermission('departments.manage');
+
+    const { name, termId, description, startDate, endDate } = department;
     try {
+        const term = await getDepartmentTerm(db, termId);
         const result = await db.runAsync(
-            "INSERT INTO departments (name, term, year, description, startDate, endDate) VALUES (?, ?, ?, ?, ?, ?)",
+            "INSERT INTO departments (name, termId, term, year, description, startDate, endDate) VALUES (?, ?, ?, ?, ?, ?, ?)",
             name,
-            term,
-            year,
+            term.id!,
+            term.name,
+            term.academicYearName,
             description ?? null,
             startDate ?? null,
             endDate ?? null
-
-
-
-
         );
+
+        await recordAudit(db, 'departments', result.lastInsertRowId, 'create', null,
+            await getAuditSnapshot(db, 'departments', result.lastInsertRowId));
     
         return {
         id: result.lastInsertRowId,
         ...department,
+        term: term.name,
+        year: term.academicYearName,
         };
     } catch (error) {
         console.error("Error adding department:", error);
@@ -41,13 +65,14 @@ export async function addDepartment(db: SQLiteDatabase, department: Department):
 /**
  * Get all departments
  * @param db Database instance
+ * @param termId Only departments running in this term
  * @returns Array of departments
  */
-export async function getAllDepartments(db: SQLiteDatabase): Promise<Department[]> {
+export async function getAllDepartments(db: SQLiteDatabase, termId?: number): Promise<Department[]> {
     try {
-        const departments = await db.getAllAsync<Department>(
-        "SELECT * FROM departments ORDER BY name"
-        );
+        const departments = termId
+            ? await db.getAllAsync<Department>("SELECT * FROM departments WHERE termId = ? ORDER BY name", termId)
+            : await db.getAllAsync<Department>("SELECT * FROM departments ORDER BY name");
         return departments;
     } catch (error) {
         console.error("Error getting departments:", error);
@@ -77,43 +102,101 @@ export async function getDepartmentById(db: SQLiteDatabase, id: number): Promise
 
 /**
  * Update a department
+ * Bill items with an ID are updated in place, ones without are added, and ones left out are removed.
+ * Nothing is changed if an ID is not one of the department's items, or if an item left out is on issued bills.
  * @param db Database instance
  * @param department Department data with ID
  * @returns Whether the update was successful
  */
 export async function updateDepartment(
     db: SQLiteDatabase,
-    department: Department & { billItems?: { name: string; amount: number; description?: string; category?: string; isRequired?: boolean; }[] }
+    department: Omit<Department, 'billItems'> & { billItems?: { id?: number; name: string; amount: Money; description?: string; category?: string; isRequired?: boolean; }[] }
 ): Promise<Department> {
+    requirePermission('departments.manage');
+
     if (!department.id) {
         throw new Error("Department ID is required for update");
     }
 
-    await db.execAsync('BEGIN TRANSACTION');
+    const transaction = await beginTransaction(db);
     
     try {
+        // Check the bill items before changing anything, leaving the late fee item alone
+        const existingItems = department.billItems
+            ? await db.getAllAsync<BillItem>(
+                'SELECT * FROM bill_items WHERE departmentId = ? AND (category IS NULL OR category != ?)',
+                department.id,
+                LATE_FEE_CATEGORY
+            )
+            : [];
+        const keptIds = new Set((department.billItems ?? []).map(item => item.id).filter(id => id !== undefined));
+        const existingIds = new Set(existingItems.map(item => item.id!));
+        const unknownIds = [...keptIds].filter(id => !existingIds.has(id));
+        if (unknownIds.length > 0) {
+            throw new Error(`Bill item${unknownIds.length > 1 ? 's' : ''} #${unknownIds.join(', #')} not found in this department`);
+        }
+
+        const removedItems = existingItems.filter(existing => !keptIds.has(existing.id!));
+        const issuedItems: string[] = [];
+        for (const item of removedItems) {
+            const usage = await db.getFirstAsync<{ count: number }>(
+                'SELECT COUNT(*) as count FROM bill_item_relations WHERE billItemId = ?',
+                item.id!
+            );
+            if (usage && usage.count > 0) {
+                issuedItems.push(`"${item.name}"`);
+            }
+        }
+        if (issuedItems.length > 0) {
+            throw new Error(
+                `${issuedItems.join(', ')} ${issuedItems.length > 1 ? 'are' : 'is'} on bills already issued and cannot be removed`
+            );
+        }
+
+        const before = await getAuditSnapshot(db, 'departments', department.id);
+        const term = await getDepartmentTerm(db, department.termId);
+
         // 1. Update department
         await db.runAsync(`
             UPDATE departments 
-            SET name = ?, term = ?, year = ?, description = ?, startDate = ?, endDate = ?
+            SET name = ?, termId = ?, term = ?, year = ?, description = ?, startDate = ?, endDate = ?, updatedAt = CURRENT_TIMESTAMP
             WHERE id = ?
         `,
             department.name,
-            department.term,
-            department.year,
+            term.id!,
+            term.name,
+            term.academicYearName,
             department.description || null,
             department.startDate || null,
             department.endDate || null,
             department.id
         );
 
+        await recordAudit(db, 'departments', department.id, 'update', before,
+            await getAuditSnapshot(db, 'departments', department.id));
+
         // 2. If bill items are provided, update them
         if (department.billItems) {
-            // First, delete existing bill items
-            await db.runAsync('DELETE FROM bill_items WHERE departmentId = ?', department.id);
+            for (const item of removedItems) {
+                await deleteBillItem(db, item.id!);
+            }
 
-            // Then, add new bill items
             for (const item of department.billItems) {
+                const existing = existingItems.find(candidate => candidate.id === item.id);
+                if (existing) {
+                    await updateBillItem(db, {
+                        id: existing.id!,
+                        name: item.name,
+                        amount: item.amount,
+                        description: item.description,
+                        category: item.category,
+                        isRequired: item.isRequired,
+                        isActive: existing.isActive,
+                        departmentId: department.id
+                    });
+                    continue;
+                }
+
                 await addBillItem(db, {
                     name: item.name,
                     amount: item.amount,
@@ -125,10 +208,11 @@ export async function updateDepartment(
             }
         }
 
-        await db.execAsync('COMMIT');
-        return department;
+        const updated = await getDepartmentById(db, department.id);
+        await transaction.commit();
+        return updated!;
     } catch (error) {
-        await db.execAsync('ROLLBACK');
+        await transaction.rollback();
         console.error('Error updating department:', error);
         throw error;
     }
@@ -136,15 +220,30 @@ export async function updateDepartment(
 
 
 /**
- * Delete a department
+ * Delete a department that has no bills; the bills and payments of a department
+ * would otherwise be deleted along with it
  * @param db Database instance
  * @param id Department ID
  * @returns Whether the deletion was successful
  */
 export async function deleteDepartment(db: SQLiteDatabase, id: number): Promise<boolean> {
+    requirePermission('departments.manage');
+
     // Hard delete
     try {
+        const bills = await db.getFirstAsync<{ count: number }>(
+            'SELECT COUNT(*) as count FROM bills WHERE departmentId = ?',
+            id
+        );
+        if (bills && bills.count > 0) {
+            throw new Error("This department has bills and cannot be deleted");
+        }
+
+        const before = await getAuditSnapshot(db, 'departments', id);
         const result = await db.runAsync("DELETE FROM departments WHERE id = ?", id);
+        if (result.changes > 0) {
+            await recordAudit(db, 'departments', id, 'delete', before);
+        }
         return result.changes > 0;
     } catch (error) {
         console.error(`Error deleting department with ID ${id}:`, error);
@@ -157,14 +256,21 @@ export async function deleteDepartment(db: SQLiteDatabase, id: number): Promise<
  * Search for departments by name
  * @param db Database instance
  * @param searchTerm Search term
+ * @param termId Only departments running in this term
  * @returns Array of departments matching the search term
  */
-export async function searchDepartments(db: SQLiteDatabase, searchTerm: string): Promise<Department[]> {
+export async function searchDepartments(db: SQLiteDatabase, searchTerm: string, termId?: number): Promise<Department[]> {
     try {
-        const departments = await db.getAllAsync<Department>(
-            `SELECT * FROM departments WHERE name LIKE ? ORDER BY name`,
-            `%${searchTerm}%`
-        );
+        const departments = termId
+            ? await db.getAllAsync<Department>(
+                `SELECT * FROM departments WHERE name LIKE ? AND termId = ? ORDER BY name`,
+                `%${searchTerm}%`,
+                termId
+            )
+            : await db.getAllAsync<Department>(
+                `SELECT * FROM departments WHERE name LIKE ? ORDER BY name`,
+                `%${searchTerm}%`
+            );
         return departments;
     } catch (error) {
         console.error("Error searching departments:", error);
@@ -200,22 +306,29 @@ export async function getStudentsInDepartmentById(db: SQLiteDatabase, department
  * @returns Newly created department with ID
  */
 export async function createDepartment(db: SQLiteDatabase, department: CreateDepartmentPayload): Promise<DepartmentWithBillItems> {
-    await db.execAsync('BEGIN TRANSACTION');
+    requirePermission('departments.manage');
+
+    const transaction = await beginTransaction(db);
     
     try {
+        const term = await getDepartmentTerm(db, department.termId);
+
         // 1. Create department
         const result = await db.runAsync(
-            "INSERT INTO departments (name, term, year, description, startDate, endDate) VALUES (?, ?, ?, ?, ?, ?)",
+            "INSERT INTO departments (name, termId, term, year, description, startDate, endDate) VALUES (?, ?, ?, ?, ?, ?, ?)",
             department.name,
-            department.term,
-            department.year,
+            term.id!,
+            term.name,
+            term.academicYearName,
             department.description ?? null,
             department.startDate ?? null,
             department.endDate ?? null
         );
 
         const departmentId = result.lastInsertRowId;
-        let totalAmount = 0;
+        await recordAudit(db, 'departments', departmentId, 'create', null,
+            await getAuditSnapshot(db, 'departments', departmentId));
+
         const billItems: BillItem[] = [];
 
         // 2. Create bill items if provided
@@ -226,17 +339,18 @@ export async function createDepartment(db: SQLiteDatabase, department: CreateDep
                     departmentId
                 });
                 billItems.push(billItem);
-                totalAmount += item.amount;
             }
         }
+        const totalAmount = sumMoney(billItems.map(item => item.amount));
 
-        await db.execAsync('COMMIT');
+        await transaction.commit();
 
         return {
             id: departmentId,
             name: department.name,
-            term: department.term,
-            year: department.year,
+            termId: term.id,
+            term: term.name,
+            year: term.academicYearName,
             description: department.description,
             startDate: department.startDate,
             endDate: department.endDate,
@@ -244,7 +358,7 @@ export async function createDepartment(db: SQLiteDatabase, department: CreateDep
             totalAmount
         };
     } catch (error) {
-        await db.execAsync('ROLLBACK');
+        await transaction.rollback();
         console.error('Error creating department:', error);
         throw error;
     }
@@ -268,14 +382,15 @@ export async function getDepartmentWithBillItems(db: SQLiteDatabase, departmentI
             return null;
         }
 
-        // 2. Get bill items
+        // 2. Get bill items, leaving out the late fee item
         const billItems = await db.getAllAsync<BillItem>(
-            'SELECT * FROM bill_items WHERE departmentId = ?',
-            departmentId
+            'SELECT * FROM bill_items WHERE departmentId = ? AND (category IS NULL OR category != ?)',
+            departmentId,
+            LATE_FEE_CATEGORY
         );
 
         // 3. Calculate total amount
-        const totalAmount = billItems.reduce((sum, item) => sum + item.amount, 0);
+        const totalAmount = sumMoney(billItems.map(item => item.amount));
 
         return {
             ...department,
@@ -0,0 +1,364 @@
+// lib/operations/discounts.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import { Money, isMoney, percentageOf } from '../../utils/money';
+import { DiscountScheme, StudentDiscount, StudentDiscountListItem } from '../db/schema';
+import { getAuditSnapshot, recordAudit } from './audit';
+import { requirePermission } from './auth';
+
+// discount_schemes row, with categories stored as JSON text
+type DiscountSchemeRow = Omit<DiscountScheme, 'categories'> & { categories: string | null };
+
+// A bill line as seen by the discount calculation
+export interface DiscountableLine {
+  amount: Money;
+  quantity: number;
+  discount: Money; // Discount already on the line
+  category?: string | null;
+}
+
+function toScheme(row: DiscountSchemeRow): DiscountScheme {
+  return { ...row, categories: row.categories ? JSON.parse(row.categories) : [] };
+}
+
+/**
+ * Check a discount scheme before saving it
+ */
+function validateDiscountScheme(scheme: DiscountScheme) {
+  if (!scheme.name.trim()) {
+    throw new Error('Scheme name is required');
+  }
+  if (!(scheme.value > 0)) {
+    throw new Error('Discount value must be greater than zero');
+  }
+  if (scheme.type === 'percentage' && scheme.value > 100) {
+    throw new Error('Discount percentage cannot exceed 100');
+  }
+  if (scheme.type === 'fixed' && !isMoney(scheme.value)) {
+    throw new Error('Discount amount must be a whole number of pesewas');
+  }
+  if (scheme.siblingRank != null && (!Number.isInteger(scheme.siblingRank) || scheme.siblingRank < 2)) {
+    throw new Error('Sibling rules must start from the second child or later');
+  }
+}
+
+/**
+ * Work out the discounts a student's schemes give on a bill.
+ * Schemes limited to categories discount the matching lines; other schemes discount
+ * the whole bill, after line discounts. No line or bill is discounted below zero.
+ * @param lines Bill lines with their category and any existing discount
+ * @param schemes The student's discount schemes
+ * @returns Extra discount for each line, in order, and the bill-level discount
+ */
+export function calculateSchemeDiscounts(
+  lines: DiscountableLine[],
+  schemes: DiscountScheme[]
+): { lineDiscounts: Money[]; billDiscount: Money } {
+  const lineDiscounts = lines.map(() => 0);
+  const lineRemaining = (index: number) =>
+    lines[index].amount * lines[index].quantity - lines[index].discount - lineDiscounts[index];
+
+  for (const scheme of schemes.filter(scheme => scheme.categories.length > 0)) {
+    const matching = lines
+      .map((line, index) => index)
+      .filter(index => lines[index].category && scheme.categories.includes(lines[index].category!));
+
+    if (scheme.type === 'percentage') {
+      for (const index of matching) {
+        const base = lines[index].amount * lines[index].quantity - lines[index].discount;
+        lineDiscounts[index] += Math.min(percentageOf(base, scheme.value), lineRemaining(index));
+      }
+    } else {
+      let remaining = scheme.value;
+      for (const index of matching) {
+        const share = Math.min(remaining, lineRemaining(index));
+        lineDiscounts[index] += share;
+        remaining -= share;
+      }
+    }
+  }
+
+  const netAfterLines = lines.reduce((sum, line, index) => sum + lineRemaining(index), 0);
+  let billDiscount = 0;
+  for (const scheme of schemes.filter(scheme => scheme.categories.length === 0)) {
+    billDiscount += scheme.type === 'percentage' ? percentageOf(netAfterLines, scheme.value) : scheme.value;
+  }
+
+  return { lineDiscounts, billDiscount: Math.min(billDiscount, netAfterLines) };
+}
+
+/**
+ * Create a discount scheme
+ * @param db Database instance
+ * @param scheme The scheme to create
+ * @returns Created scheme with ID
+ */
+export async function createDiscountScheme(db: SQLiteDatabase, scheme: DiscountScheme): Promise<DiscountScheme> {
+  requirePermission('bills.manage');
+
+  try {
+    validateDiscountScheme(scheme);
+
+    const result = await db.runAsync(
+      `INSERT INTO discount_schemes (name, type, value, categories, description, siblingRank)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      scheme.name.trim(),
+      scheme.type,
+      scheme.value,
+      scheme.categories.length > 0 ? JSON.stringify(scheme.categories) : null,
+      scheme.description || null,
+      scheme.siblingRank ?? null
+    );
+
+    await recordAudit(db, 'discount_schemes', result.lastInsertRowId, 'create', null,
+      await getAuditSnapshot(db, 'discount_schemes', result.lastInsertRowId));
+
+    return { ...scheme, id: result.lastInsertRowId };
+  } catch (error) {
+    console.error('Error creating discount scheme:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a discount scheme. Bills already created keep their discounts.
+ * @param db Database instance
+ * @param scheme The scheme with its ID
+ * @returns Whether the update was successful
+ */
+export async function updateDiscountScheme(db: SQLiteDatabase, scheme: DiscountScheme): Promise<boolean> {
+  requirePermission('bills.manage');
+
+  try {
+    if (!scheme.id) {
+      throw new Error('Scheme ID is required for update');
+    }
+    validateDiscountScheme(scheme);
+
+    const before = await getAuditSnapshot(db, 'discount_schemes', scheme.id);
+    const result = await db.runAsync(
+      `UPDATE discount_schemes
+       SET name = ?, type = ?, value = ?, categories = ?, description = ?, siblingRank = ?, updatedAt = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      scheme.name.trim(),
+      scheme.type,
+      scheme.value,
+      scheme.categories.length > 0 ? JSON.stringify(scheme.categories) : null,
+      scheme.description || null,
+      scheme.siblingRank ?? null,
+      scheme.id
+    );
+
+    if (result.changes > 0) {
+      await recordAudit(db, 'discount_schemes', scheme.id, 'update', before,
+        await getAuditSnapshot(db, 'discount_schemes', scheme.id));
+    }
+
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error updating discount scheme with ID ${scheme.id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Deactivate a discount scheme so it no longer applies to new bills
+ * @param db Database instance
+ * @param id Scheme ID
+ * @returns Whether the scheme was deactivated
+ */
+export async function deleteDiscountScheme(db: SQLiteDatabase, id: number): Promise<boolean> {
+  requirePermission('bills.manage');
+
+  try {
+    const before = await getAuditSnapshot(db, 'discount_schemes', id);
+    const result = await db.runAsync(
+      'UPDATE discount_schemes SET isActive = 0, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      id
+    );
+    if (result.changes > 0) {
+      await recordAudit(db, 'discount_schemes', id, 'update', before, await getAuditSnapshot(db, 'discount_schemes', id));
+    }
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error deleting discount scheme with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get all active discount schemes
+ * @param db Database instance
+ * @returns Array of schemes
+ */
+export async function getDiscountSchemes(db: SQLiteDatabase): Promise<DiscountScheme[]> {
+  try {
+    const rows = await db.getAllAsync<DiscountSchemeRow>(
+      'SELECT * FROM discount_schemes WHERE isActive = 1 ORDER BY name'
+    );
+    return rows.map(toScheme);
+  } catch (error) {
+    console.error('Error getting discount schemes:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the bill item categories in use, to offer when limiting a scheme
+ * @param db Database instance
+ * @returns Array of category names
+ */
+export async function getBillItemCategories(db: SQLiteDatabase): Promise<string[]> {
+  try {
+    const rows = await db.getAllAsync<{ category: string }>(
+      `SELECT DISTINCT category FROM bill_items WHERE category IS NOT NULL AND category != '' ORDER BY category`
+    );
+    return rows.map(row => row.category);
+  } catch (error) {
+    console.error('Error getting bill item categories:', error);
+    throw error;
+  }
+}
+
+/**
+ * Grant a discount scheme to a student for a department
+ * @param db Database instance
+ * @param assignment Student, scheme and department
+ * @returns Created assignment with ID
+ */
+export async function assignDiscountToStudent(
+  db: SQLiteDatabase,
+  assignment: StudentDiscount
+): Promise<StudentDiscount> {
+  requirePermission('bills.manage');
+
+  try {
+    const existing = await db.getFirstAsync<{ id: number }>(
+      'SELECT id FROM student_discounts WHERE studentId = ? AND schemeId = ? AND departmentId = ?',
+      assignment.studentId,
+      assignment.schemeId,
+      assignment.departmentId
+    );
+    if (existing) {
+      throw new Error('This student already has that discount for the department');
+    }
+
+    const result = await db.runAsync(
+      'INSERT INTO student_discounts (studentId, schemeId, departmentId) VALUES (?, ?, ?)',
+      assignment.studentId,
+      assignment.schemeId,
+      assignment.departmentId
+    );
+
+    await recordAudit(db, 'student_discounts', result.lastInsertRowId, 'create', null,
+      await getAuditSnapshot(db, 'student_discounts', result.lastInsertRowId));
+
+    return { ...assignment, id: result.lastInsertRowId };
+  } catch (error) {
+    console.error('Error assigning discount to student:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a discount from a student. Bills already created keep their discounts.
+ * @param db Database instance
+ * @param id Assignment ID
+ * @returns Whether the assignment was removed
+ */
+export async function removeStudentDiscount(db: SQLiteDatabase, id: number): Promise<boolean> {
+  requirePermission('bills.manage');
+
+  try {
+    const before = await getAuditSnapshot(db, 'student_discounts', id);
+    const result = await db.runAsync('DELETE FROM student_discounts WHERE id = ?', id);
+    if (result.changes > 0) {
+      await recordAudit(db, 'student_discounts', id, 'delete', before);
+    }
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error removing student discount with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get every discount granted to students, with names for display
+ * @param db Database instance
+ * @returns Array of assignments
+ */
+export async function getStudentDiscounts(db: SQLiteDatabase, termId?: number): Promise<StudentDiscountListItem[]> {
+  try {
+    return await db.getAllAsync<StudentDiscountListItem>(
+      `SELECT sd.*,
+              s.firstname || ' ' || s.othernames as studentName,
+              ds.name as schemeName,
+              d.name || ' (' || d.term || ' ' || d.year || ')' as departmentName
+       FROM student_discounts sd
+       JOIN students s ON sd.studentId = s.id
+       JOIN discount_schemes ds ON sd.schemeId = ds.id
+       JOIN departments d ON sd.departmentId = d.id
+       WHERE ds.isActive = 1 AND (? IS NULL OR d.termId = ?)
+       ORDER BY s.firstname, s.othernames, ds.name`,
+      termId ?? null,
+      termId ?? null
+    );
+  } catch (error) {
+    console.error('Error getting student discounts:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a student's position among the active children of their family, oldest record first
+ * @param db Database instance
+ * @param studentId Student ID
+ * @returns 1 for the first child, 2 for the second and so on; null if the student has no family
+ */
+export async function getSiblingRank(db: SQLiteDatabase, studentId: number): Promise<number | null> {
+  const row = await db.getFirstAsync<{ rank: number | null }>(
+    `SELECT (
+       SELECT COUNT(*) FROM students sibling
+       WHERE sibling.familyId = s.familyId AND sibling.isActive = 1
+         AND COALESCE(sibling.status, 'active') = 'active' AND sibling.id <= s.id
+     ) as rank
+     FROM students s
+     WHERE s.id = ? AND s.familyId IS NOT NULL`,
+    studentId
+  );
+  return row?.rank ?? null;
+}
+
+/**
+ * Get the active discount schemes a student has for a department: schemes granted to them
+ * for the department, plus the sibling rule for their place in their family. Only the rule with
+ * the highest rank they have reached applies, so a fourth child gets the third-child rule, not
+ * the second- and third-child rules together.
+ * Does not open a transaction, so it can be called while creating bills.
+ * @param db Database instance
+ * @param studentId Student ID
+ * @param departmentId Department ID
+ * @returns Array of schemes
+ */
+export async function getStudentDiscountSchemes(
+  db: SQLiteDatabase,
+  studentId: number,
+  departmentId: number
+): Promise<DiscountScheme[]> {
+  const siblingRank = await getSiblingRank(db, studentId);
+
+  const rows = await db.getAllAsync<DiscountSchemeRow>(
+    `SELECT ds.* FROM discount_schemes ds
+     WHERE ds.isActive = 1 AND (
+       ds.id IN (SELECT schemeId FROM student_discounts WHERE studentId = ? AND departmentId = ?)
+       OR ds.siblingRank = (
+         SELECT MAX(siblingRank) FROM discount_schemes
+         WHERE isActive = 1 AND siblingRank IS NOT NULL AND siblingRank <= ?
+       )
+     )
+     ORDER BY ds.id`,
+    studentId,
+    departmentId,
+    siblingRank ?? 0
+  );
+  return rows.map(toScheme);
+}
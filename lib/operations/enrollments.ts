@@ -1,13 +1,19 @@
 import { SQLiteDatabase } from "expo-sqlite";
 import { BulkEnrollmentResult, Department, Student, StudentDepartment } from "../db/schema";
+import { beginTransaction } from "../db/transaction";
+import { getAuditSnapshot, recordAudit } from "./audit";
+import { requirePermission } from "./auth";
 
 // Bulk Enrollment Utility
+// Students withdrawn from or finished with the department are enrolled again on their old enrollment
 export async function bulkEnroll(
     db: SQLiteDatabase,
     departmentId: number,
     studentIds: number[]
   ): Promise<BulkEnrollmentResult> {
-    await db.execAsync('BEGIN TRANSACTION');
+    requirePermission('students.manage');
+
+    const transaction = await beginTransaction(db);
     const result: BulkEnrollmentResult = {
       successCount: 0,
       errors: []
@@ -43,16 +49,31 @@ export async function bulkEnroll(
             [studentId, departmentId]
           );
           
-          if (existingEnrollment !== null) {
+          if (existingEnrollment?.isActive && existingEnrollment.status === 'active') {
             result.errors.push({ studentId, error: 'Already enrolled' });
             continue;
           }
+
+          if (existingEnrollment) {
+            await db.runAsync(
+              `UPDATE student_departments SET status = 'active', isActive = 1, enrollmentDate = CURRENT_TIMESTAMP, updatedAt = CURRENT_TIMESTAMP
+               WHERE id = ?`,
+              [existingEnrollment.id!]
+            );
+            await recordAudit(db, 'student_departments', existingEnrollment.id!, 'update', existingEnrollment,
+              await getAuditSnapshot(db, 'student_departments', existingEnrollment.id!));
+
+            result.successCount++;
+            continue;
+          }
   
           // Create enrollment with correct table name and fields
-          await db.runAsync(
+          const enrollment = await db.runAsync(
             'INSERT INTO student_departments (studentId, departmentId, status, isActive) VALUES (?, ?, ?, ?)',
             [studentId, departmentId, 'active', 1]
-          );          
+          );
+          await recordAudit(db, 'student_departments', enrollment.lastInsertRowId, 'create', null,
+            await getAuditSnapshot(db, 'student_departments', enrollment.lastInsertRowId));
           
           result.successCount++;
         } catch (error) {
@@ -63,10 +84,10 @@ export async function bulkEnroll(
         }
       }
   
-      await db.execAsync('COMMIT');
+      await transaction.commit();
       return result;
     } catch (error) {
-      await db.execAsync('ROLLBACK');
+      await transaction.rollback();
       throw error;
     }
 }
@@ -106,13 +127,25 @@ export async function unenrollStudent(
   studentId: number,
   departmentId: number
 ): Promise<boolean> {
+  requirePermission('students.manage');
+
   try {
+    const enrollments = await db.getAllAsync<StudentDepartment>(
+      'SELECT * FROM student_departments WHERE studentId = ? AND departmentId = ?',
+      [studentId, departmentId]
+    );
+
     // Option 1: Soft delete (maintain record but mark as inactive)
     const result = await db.runAsync(
       'UPDATE student_departments SET isActive = 0, status = "withdrawn", updatedAt = CURRENT_TIMESTAMP WHERE studentId = ? AND departmentId = ?',
       [studentId, departmentId]
     );
 
+    for (const enrollment of enrollments) {
+      await recordAudit(db, 'student_departments', enrollment.id!, 'update', enrollment,
+        await getAuditSnapshot(db, 'student_departments', enrollment.id!));
+    }
+
     return result.changes > 0;
     
     // Option 2: Hard delete (uncomment to use instead)
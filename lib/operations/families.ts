@@ -0,0 +1,360 @@
+// lib/operations/families.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import { formatCurrency } from '../../utils/formatters';
+import { Money, allocateMoney, isMoney, sumMoney } from '../../utils/money';
+import {
+  Family,
+  FamilyListItem,
+  FamilyPaymentAllocation,
+  FamilyStatement,
+  FamilyWithStudents,
+  Payment,
+  RecordPaymentPayload,
+  Student
+} from '../db/schema';
+import { beginTransaction } from '../db/transaction';
+import { getAuditSnapshot, recordAudit } from './audit';
+import { requirePermission } from './auth';
+import { insertPayment } from './payments';
+import { getStudentStatement } from './statements';
+
+/**
+ * Check a family before saving it
+ */
+function validateFamily(family: Family) {
+  if (!family.name.trim()) {
+    throw new Error('Family name is required');
+  }
+  if (!family.guardianName.trim()) {
+    throw new Error('Guardian name is required');
+  }
+  if (!family.phone.trim()) {
+    throw new Error('Guardian phone number is required');
+  }
+}
+
+/**
+ * Create a family
+ * @param db Database instance
+ * @param family The family to create
+ * @returns Created family with ID
+ */
+export async function createFamily(db: SQLiteDatabase, family: Family): Promise<Family> {
+  requirePermission('students.manage');
+
+  try {
+    validateFamily(family);
+
+    const result = await db.runAsync(
+      'INSERT INTO families (name, guardianName, phone, email, address) VALUES (?, ?, ?, ?, ?)',
+      family.name.trim(),
+      family.guardianName.trim(),
+      family.phone.trim(),
+      family.email?.trim() || null,
+      family.address?.trim() || null
+    );
+
+    await recordAudit(db, 'families', result.lastInsertRowId, 'create', null,
+      await getAuditSnapshot(db, 'families', result.lastInsertRowId));
+
+    return { ...family, id: result.lastInsertRowId };
+  } catch (error) {
+    console.error('Error creating family:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a family's guardian details
+ * @param db Database instance
+ * @param family The family with its ID
+ * @returns Whether the update was successful
+ */
+export async function updateFamily(db: SQLiteDatabase, family: Family): Promise<boolean> {
+  requirePermission('students.manage');
+
+  try {
+    if (!family.id) {
+      throw new Error('Family ID is required for update');
+    }
+    validateFamily(family);
+
+    const before = await getAuditSnapshot(db, 'families', family.id);
+    const result = await db.runAsync(
+      `UPDATE families
+       SET name = ?, guardianName = ?, phone = ?, email = ?, address = ?, updatedAt = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      family.name.trim(),
+      family.guardianName.trim(),
+      family.phone.trim(),
+      family.email?.trim() || null,
+      family.address?.trim() || null,
+      family.id
+    );
+
+    if (result.changes > 0) {
+      await recordAudit(db, 'families', family.id, 'update', before, await getAuditSnapshot(db, 'families', family.id));
+    }
+
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error updating family with ID ${family.id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Deactivate a family and release its students; their bills and payments are kept
+ * @param db Database instance
+ * @param id Family ID
+ * @returns Whether the family was deactivated
+ */
+export async function deleteFamily(db: SQLiteDatabase, id: number): Promise<boolean> {
+  requirePermission('students.manage');
+
+  const transaction = await beginTransaction(db);
+
+  try {
+    const students = await db.getAllAsync<Student>('SELECT * FROM students WHERE familyId = ?', id);
+    await db.runAsync('UPDATE students SET familyId = NULL, updatedAt = CURRENT_TIMESTAMP WHERE familyId = ?', id);
+    for (const student of students) {
+      await recordAudit(db, 'students', student.id!, 'update', student, await getAuditSnapshot(db, 'students', student.id!));
+    }
+
+    const before = await getAuditSnapshot(db, 'families', id);
+    const result = await db.runAsync(
+      'UPDATE families SET isActive = 0, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      id
+    );
+    if (result.changes > 0) {
+      await recordAudit(db, 'families', id, 'update', before, await getAuditSnapshot(db, 'families', id));
+    }
+
+    await transaction.commit();
+
+    return result.changes > 0;
+  } catch (error) {
+    await transaction.rollback();
+    console.error(`Error deleting family with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get all active families with their number of students and what they owe
+ * @param db Database instance
+ * @returns Array of families
+ */
+export async function getFamilies(db: SQLiteDatabase): Promise<FamilyListItem[]> {
+  try {
+    return await db.getAllAsync<FamilyListItem>(
+      `SELECT f.*,
+              (SELECT COUNT(*) FROM students s WHERE s.familyId = f.id) as studentCount,
+              (SELECT COALESCE(SUM(b.totalAmount - COALESCE(b.discount, 0) - (
+                 SELECT COALESCE(SUM(p.amount), 0) FROM payments p
+                 WHERE p.billId = b.id AND p.status = 'completed' AND p.isActive = 1
+               )), 0)
+               FROM bills b
+               JOIN students s ON b.studentId = s.id
+               WHERE s.familyId = f.id AND b.isActive = 1 AND b.status NOT IN ('paid', 'cancelled')) as balance
+       FROM families f
+       WHERE f.isActive = 1
+       ORDER BY f.name`
+    );
+  } catch (error) {
+    console.error('Error getting families:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a family with its students
+ * @param db Database instance
+ * @param id Family ID
+ * @returns Family with students, or null if not found
+ */
+export async function getFamilyWithStudents(db: SQLiteDatabase, id: number): Promise<FamilyWithStudents | null> {
+  try {
+    const family = await db.getFirstAsync<Family>('SELECT * FROM families WHERE id = ?', id);
+    if (!family) {
+      return null;
+    }
+
+    const students = await db.getAllAsync<Student>(
+      'SELECT * FROM students WHERE familyId = ? ORDER BY id',
+      id
+    );
+
+    return { ...family, students };
+  } catch (error) {
+    console.error(`Error getting family with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Add a student to a family, moving them out of any family they were in
+ * @param db Database instance
+ * @param familyId Family ID
+ * @param studentId Student ID
+ * @returns Whether the student was added
+ */
+export async function addStudentToFamily(db: SQLiteDatabase, familyId: number, studentId: number): Promise<boolean> {
+  requirePermission('students.manage');
+
+  try {
+    const before = await getAuditSnapshot(db, 'students', studentId);
+    const result = await db.runAsync(
+      'UPDATE students SET familyId = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      familyId,
+      studentId
+    );
+    if (result.changes > 0) {
+      await recordAudit(db, 'students', studentId, 'update', before, await getAuditSnapshot(db, 'students', studentId));
+    }
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error adding student with ID ${studentId} to family with ID ${familyId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a student from their family
+ * @param db Database instance
+ * @param studentId Student ID
+ * @returns Whether the student was removed
+ */
+export async function removeStudentFromFamily(db: SQLiteDatabase, studentId: number): Promise<boolean> {
+  requirePermission('students.manage');
+
+  try {
+    const before = await getAuditSnapshot(db, 'students', studentId);
+    const result = await db.runAsync(
+      'UPDATE students SET familyId = NULL, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      studentId
+    );
+    if (result.changes > 0) {
+      await recordAudit(db, 'students', studentId, 'update', before, await getAuditSnapshot(db, 'students', studentId));
+    }
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error removing student with ID ${studentId} from family:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Generate a consolidated statement for a family: each sibling's statement plus family totals
+ * @param db Database instance
+ * @param familyId Family ID
+ * @param range Optional inclusive ISO date range, applied to every sibling's statement
+ * @returns Family statement
+ */
+export async function getFamilyStatement(
+  db: SQLiteDatabase,
+  familyId: number,
+  range: { fromDate?: string; toDate?: string } = {}
+): Promise<FamilyStatement> {
+  try {
+    const family = await getFamilyWithStudents(db, familyId);
+    if (!family) {
+      throw new Error(`Family with ID ${familyId} not found`);
+    }
+
+    const statements = [];
+    for (const student of family.students) {
+      statements.push(await getStudentStatement(db, student.id!, range));
+    }
+
+    const { students, ...familyDetails } = family;
+    return {
+      family: familyDetails,
+      statements,
+      openingBalance: statements.reduce((sum, statement) => sum + statement.openingBalance, 0),
+      totalDebits: statements.reduce((sum, statement) => sum + statement.totalDebits, 0),
+      totalCredits: statements.reduce((sum, statement) => sum + statement.totalCredits, 0),
+      closingBalance: statements.reduce((sum, statement) => sum + statement.closingBalance, 0)
+    };
+  } catch (error) {
+    console.error(`Error generating statement for family with ID ${familyId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Work out how a family payment is split across the siblings' open bills,
+ * settling the bill due soonest first (bills without a due date last, oldest bill first)
+ * @param db Database instance
+ * @param familyId Family ID
+ * @param amount Amount paid
+ * @returns The bills the payment covers and the amount applied to each
+ */
+export async function previewFamilyPaymentAllocation(
+  db: SQLiteDatabase,
+  familyId: number,
+  amount: Money
+): Promise<FamilyPaymentAllocation[]> {
+  const openBills = await db.getAllAsync<Omit<FamilyPaymentAllocation, 'amount'>>(
+    `SELECT b.id as billId, b.name as billName, b.studentId, b.dueDate,
+            s.firstname || ' ' || s.othernames as studentName,
+            b.totalAmount - COALESCE(b.discount, 0) - (
+              SELECT COALESCE(SUM(p.amount), 0) FROM payments p
+              WHERE p.billId = b.id AND p.status = 'completed' AND p.isActive = 1
+            ) as balance
+     FROM bills b
+     JOIN students s ON b.studentId = s.id
+     WHERE s.familyId = ? AND b.isActive = 1 AND b.status NOT IN ('paid', 'cancelled')
+     ORDER BY b.dueDate IS NULL, b.dueDate, b.createdAt, b.id`,
+    familyId
+  );
+
+  const shares = allocateMoney(amount, openBills.map(bill => bill.balance));
+  const owed = sumMoney(openBills.map(bill => Math.max(bill.balance, 0)));
+  if (amount > owed) {
+    throw new Error(`Payment exceeds the family's outstanding balance of ${formatCurrency(owed)}`);
+  }
+
+  return openBills
+    .map((bill, index) => ({ ...bill, amount: shares[index] }))
+    .filter(allocation => allocation.amount > 0);
+}
+
+/**
+ * Record one payment from a family's guardian, split across the siblings' open bills.
+ * Each bill gets its own payment and receipt; all of them share the payment's reference and note.
+ * @param db Database instance
+ * @param familyId Family ID
+ * @param payment The payment, without a bill
+ * @returns The payments recorded, one per bill
+ */
+export async function recordFamilyPayment(
+  db: SQLiteDatabase,
+  familyId: number,
+  payment: Omit<RecordPaymentPayload, 'billId'>
+): Promise<Payment[]> {
+  requirePermission('payments.record');
+
+  if (!(isMoney(payment.amount) && payment.amount > 0)) {
+    throw new Error('Payment amount must be greater than zero');
+  }
+
+  const transaction = await beginTransaction(db);
+
+  try {
+    const allocations = await previewFamilyPaymentAllocation(db, familyId, payment.amount);
+
+    const recorded: Payment[] = [];
+    for (const allocation of allocations) {
+      recorded.push(await insertPayment(db, { ...payment, billId: allocation.billId, amount: allocation.amount }));
+    }
+
+    await transaction.commit();
+
+    return recorded;
+  } catch (error) {
+    await transaction.rollback();
+    console.error(`Error recording payment for family with ID ${familyId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,213 @@
+// lib/operations/installments.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import { formatCurrency } from '../../utils/formatters';
+import { Money, allocateMoney, isMoney, splitMoney, sumMoney } from '../../utils/money';
+import { Bill, BillInstallment, InstallmentPlanInput, InstallmentWithStatus } from '../db/schema';
+import { beginTransaction } from '../db/transaction';
+import { getAuditSnapshot, recordAudit } from './audit';
+import { requirePermission } from './auth';
+import { getBillBalance, recalculateBillStatus } from './payments';
+
+/**
+ * Allocate a bill's total paid amount across its installments, oldest first,
+ * and work out each installment's state
+ * @param installments Installments in plan order
+ * @param totalPaid Total of the bill's completed payments
+ * @param today ISO date to judge overdue against
+ * @returns Installments with paid amount, balance and status
+ */
+export function allocatePaymentsToInstallments(
+  installments: BillInstallment[],
+  totalPaid: Money,
+  today: string
+): InstallmentWithStatus[] {
+  const paid = allocateMoney(totalPaid, installments.map(installment => installment.amount));
+
+  return installments.map((installment, index) => {
+    const paidAmount = paid[index];
+    const balance = installment.amount - paidAmount;
+
+    let status: InstallmentWithStatus['status'];
+    if (balance <= 0) {
+      status = 'paid';
+    } else if (installment.dueDate.slice(0, 10) < today) {
+      status = 'overdue';
+    } else if (paidAmount > 0) {
+      status = 'partial';
+    } else {
+      status = 'pending';
+    }
+
+    return { ...installment, paidAmount, balance, status };
+  });
+}
+
+/**
+ * Split an amount into equal installments, putting any rounding remainder on the last one
+ * @param total Amount to split
+ * @param dueDates Due date of each installment
+ * @returns Installment inputs
+ */
+export function splitIntoInstallments(total: Money, dueDates: string[]): InstallmentPlanInput[] {
+  const amounts = splitMoney(total, dueDates.length);
+  return dueDates.map((dueDate, index) => ({ amount: amounts[index], dueDate }));
+}
+
+/**
+ * Get a bill's installment plan with payments allocated to it
+ * @param db Database instance
+ * @param billId Bill ID
+ * @param today ISO date to judge overdue against, defaults to today
+ * @returns Installments in plan order; empty if the bill has no plan
+ */
+export async function getInstallmentSchedule(
+  db: SQLiteDatabase,
+  billId: number,
+  today?: string
+): Promise<InstallmentWithStatus[]> {
+  try {
+    const installments = await db.getAllAsync<BillInstallment>(
+      'SELECT * FROM bill_installments WHERE billId = ? ORDER BY sequence',
+      billId
+    );
+    if (installments.length === 0) {
+      return [];
+    }
+
+    const balance = await getBillBalance(db, billId);
+    return allocatePaymentsToInstallments(
+      installments,
+      balance?.totalPaid ?? 0,
+      (today ?? new Date().toISOString()).slice(0, 10)
+    );
+  } catch (error) {
+    console.error(`Error getting installment schedule for bill with ID ${billId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a bill's installments, recording each in the audit log
+ * @returns Number of installments deleted
+ */
+async function deleteInstallments(db: SQLiteDatabase, billId: number): Promise<number> {
+  const installments = await db.getAllAsync<BillInstallment>('SELECT * FROM bill_installments WHERE billId = ?', billId);
+  await db.runAsync('DELETE FROM bill_installments WHERE billId = ?', billId);
+  for (const installment of installments) {
+    await recordAudit(db, 'bill_installments', installment.id!, 'delete', installment);
+  }
+  return installments.length;
+}
+
+/**
+ * Split a bill into installments, replacing any existing plan.
+ * The installments must add up to the bill's total after discount, with due dates in order;
+ * the bill's due date becomes the due date of the last installment.
+ * @param db Database instance
+ * @param billId Bill ID
+ * @param installments Amount and due date of each installment, in order
+ * @returns The saved installments
+ */
+export async function createInstallmentPlan(
+  db: SQLiteDatabase,
+  billId: number,
+  installments: InstallmentPlanInput[]
+): Promise<BillInstallment[]> {
+  requirePermission('bills.manage');
+
+  const transaction = await beginTransaction(db);
+
+  try {
+    const bill = await db.getFirstAsync<Bill>('SELECT * FROM bills WHERE id = ?', billId);
+    if (!bill) {
+      throw new Error(`Bill with ID ${billId} not found`);
+    }
+    if (bill.status === 'cancelled') {
+      throw new Error('Cannot create an installment plan for a cancelled bill');
+    }
+    if (installments.length < 2) {
+      throw new Error('An installment plan needs at least two installments');
+    }
+
+    let previousDate = '';
+    for (const [index, installment] of installments.entries()) {
+      if (!(isMoney(installment.amount) && installment.amount > 0)) {
+        throw new Error(`Installment ${index + 1} must have an amount greater than zero`);
+      }
+      const dueDate = installment.dueDate?.slice(0, 10);
+      if (!dueDate || isNaN(Date.parse(dueDate))) {
+        throw new Error(`Installment ${index + 1} needs a valid due date`);
+      }
+      if (dueDate < previousDate) {
+        throw new Error('Installment due dates must be in order');
+      }
+      previousDate = dueDate;
+    }
+
+    const planTotal = sumMoney(installments.map(installment => installment.amount));
+    const netTotal = bill.totalAmount - (bill.discount || 0);
+    if (planTotal !== netTotal) {
+      throw new Error(
+        `Installments add up to ${formatCurrency(planTotal)} but the bill total is ${formatCurrency(netTotal)}`
+      );
+    }
+
+    await deleteInstallments(db, billId);
+
+    const saved: BillInstallment[] = [];
+    for (const [index, installment] of installments.entries()) {
+      const dueDate = installment.dueDate.slice(0, 10);
+      const result = await db.runAsync(
+        'INSERT INTO bill_installments (billId, sequence, amount, dueDate) VALUES (?, ?, ?, ?)',
+        billId,
+        index + 1,
+        installment.amount,
+        dueDate
+      );
+      saved.push({ id: result.lastInsertRowId, billId, sequence: index + 1, amount: installment.amount, dueDate });
+      await recordAudit(db, 'bill_installments', result.lastInsertRowId, 'create', null,
+        await getAuditSnapshot(db, 'bill_installments', result.lastInsertRowId));
+    }
+
+    await db.runAsync(
+      'UPDATE bills SET dueDate = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      saved[saved.length - 1].dueDate,
+      billId
+    );
+    await recordAudit(db, 'bills', billId, 'update', bill, await getAuditSnapshot(db, 'bills', billId));
+    await recalculateBillStatus(db, billId, { reason: 'Installment plan set up' });
+
+    await transaction.commit();
+
+    return saved;
+  } catch (error) {
+    await transaction.rollback();
+    console.error(`Error creating installment plan for bill with ID ${billId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a bill's installment plan; the bill stays due on its last installment date
+ * @param db Database instance
+ * @param billId Bill ID
+ * @returns Whether a plan was removed
+ */
+export async function deleteInstallmentPlan(db: SQLiteDatabase, billId: number): Promise<boolean> {
+  requirePermission('bills.manage');
+
+  const transaction = await beginTransaction(db);
+
+  try {
+    const removed = await deleteInstallments(db, billId);
+    await recalculateBillStatus(db, billId, { reason: 'Installment plan removed' });
+
+    await transaction.commit();
+
+    return removed > 0;
+  } catch (error) {
+    await transaction.rollback();
+    console.error(`Error deleting installment plan for bill with ID ${billId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,292 @@
+// lib/operations/late-fees.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import { Money, isMoney, percentageOf } from '../../utils/money';
+import { Bill, BillItem, LATE_FEE_CATEGORY, LateFeeApplication, LateFeeRule } from '../db/schema';
+import { beginTransaction } from '../db/transaction';
+import { getAuditSnapshot, recordAudit } from './audit';
+import { requirePermission } from './auth';
+import { getBillBalance, recalculateBillStatus } from './payments';
+import { getSchoolSettings } from './settings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check a late fee rule before saving it
+ */
+function validateLateFeeRule(rule: LateFeeRule) {
+  if (!rule.name.trim()) {
+    throw new Error('Rule name is required');
+  }
+  if (!(rule.amount > 0)) {
+    throw new Error('Late fee amount must be greater than zero');
+  }
+  if (rule.type === 'percentage' && rule.amount > 100) {
+    throw new Error('Late fee percentage cannot exceed 100');
+  }
+  if (rule.type === 'flat' && !isMoney(rule.amount)) {
+    throw new Error('Late fee amount must be a whole number of pesewas');
+  }
+  if (!Number.isInteger(rule.graceDays) || rule.graceDays < 0) {
+    throw new Error('Grace period must be a whole number of days');
+  }
+  if (rule.maxAmount != null && !(isMoney(rule.maxAmount) && rule.maxAmount > 0)) {
+    throw new Error('Maximum fee must be greater than zero');
+  }
+}
+
+/**
+ * Create a late fee rule
+ * @param db Database instance
+ * @param rule The rule to create
+ * @returns Created rule with ID
+ */
+export async function createLateFeeRule(db: SQLiteDatabase, rule: LateFeeRule): Promise<LateFeeRule> {
+  requirePermission('bills.manage');
+
+  try {
+    validateLateFeeRule(rule);
+
+    const result = await db.runAsync(
+      `INSERT INTO late_fee_rules (name, type, amount, graceDays, maxAmount, departmentId)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      rule.name.trim(),
+      rule.type,
+      rule.amount,
+      rule.graceDays,
+      rule.maxAmount ?? null,
+      rule.departmentId ?? null
+    );
+
+    await recordAudit(db, 'late_fee_rules', result.lastInsertRowId, 'create', null,
+      await getAuditSnapshot(db, 'late_fee_rules', result.lastInsertRowId));
+
+    return { ...rule, id: result.lastInsertRowId };
+  } catch (error) {
+    console.error('Error creating late fee rule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a late fee rule. Fees already charged are not changed.
+ * @param db Database instance
+ * @param rule The rule with its ID
+ * @returns Whether the update was successful
+ */
+export async function updateLateFeeRule(db: SQLiteDatabase, rule: LateFeeRule): Promise<boolean> {
+  requirePermission('bills.manage');
+
+  try {
+    if (!rule.id) {
+      throw new Error('Rule ID is required for update');
+    }
+    validateLateFeeRule(rule);
+
+    const before = await getAuditSnapshot(db, 'late_fee_rules', rule.id);
+    const result = await db.runAsync(
+      `UPDATE late_fee_rules
+       SET name = ?, type = ?, amount = ?, graceDays = ?, maxAmount = ?, departmentId = ?, updatedAt = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      rule.name.trim(),
+      rule.type,
+      rule.amount,
+      rule.graceDays,
+      rule.maxAmount ?? null,
+      rule.departmentId ?? null,
+      rule.id
+    );
+
+    if (result.changes > 0) {
+      await recordAudit(db, 'late_fee_rules', rule.id, 'update', before, await getAuditSnapshot(db, 'late_fee_rules', rule.id));
+    }
+
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error updating late fee rule with ID ${rule.id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Deactivate a late fee rule; fees it already charged stay on their bills
+ * @param db Database instance
+ * @param id Rule ID
+ * @returns Whether the rule was deactivated
+ */
+export async function deleteLateFeeRule(db: SQLiteDatabase, id: number): Promise<boolean> {
+  requirePermission('bills.manage');
+
+  try {
+    const before = await getAuditSnapshot(db, 'late_fee_rules', id);
+    const result = await db.runAsync(
+      'UPDATE late_fee_rules SET isActive = 0, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      id
+    );
+    if (result.changes > 0) {
+      await recordAudit(db, 'late_fee_rules', id, 'update', before, await getAuditSnapshot(db, 'late_fee_rules', id));
+    }
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error deleting late fee rule with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get all active late fee rules
+ * @param db Database instance
+ * @returns Array of rules, school-wide rules first
+ */
+export async function getLateFeeRules(db: SQLiteDatabase): Promise<LateFeeRule[]> {
+  try {
+    return await db.getAllAsync<LateFeeRule>(
+      'SELECT * FROM late_fee_rules WHERE isActive = 1 ORDER BY departmentId IS NOT NULL, departmentId, name'
+    );
+  } catch (error) {
+    console.error('Error getting late fee rules:', error);
+    throw error;
+  }
+}
+
+/**
+ * Calculate the fee a rule charges on an outstanding balance, rounded to the pesewa and capped
+ * @param rule Late fee rule
+ * @param balance Outstanding balance of the bill
+ * @returns Fee amount
+ */
+export function calculateLateFee(rule: LateFeeRule, balance: Money): Money {
+  const fee = rule.type === 'percentage' ? percentageOf(balance, rule.amount) : rule.amount;
+  return rule.maxAmount != null ? Math.min(fee, rule.maxAmount) : fee;
+}
+
+/**
+ * Get the department's late fee bill item, creating it the first time a fee is charged
+ */
+async function getLateFeeBillItem(db: SQLiteDatabase, departmentId: number): Promise<BillItem> {
+  const existing = await db.getFirstAsync<BillItem>(
+    'SELECT * FROM bill_items WHERE departmentId = ? AND category = ?',
+    departmentId,
+    LATE_FEE_CATEGORY
+  );
+  if (existing) {
+    return existing;
+  }
+
+  const result = await db.runAsync(
+    `INSERT INTO bill_items (name, amount, departmentId, description, category, isRequired)
+     VALUES ('Late fee', 0, ?, 'Penalty for late payment', ?, 0)`,
+    departmentId,
+    LATE_FEE_CATEGORY
+  );
+  await recordAudit(db, 'bill_items', result.lastInsertRowId, 'create', null,
+    await getAuditSnapshot(db, 'bill_items', result.lastInsertRowId));
+  return {
+    id: result.lastInsertRowId,
+    name: 'Late fee',
+    amount: 0,
+    departmentId,
+    category: LATE_FEE_CATEGORY
+  };
+}
+
+/**
+ * Charge late fees on overdue bills. Each rule is charged at most once per bill,
+ * as a "Late fee" line on the bill, once the bill is more than the rule's grace period
+ * past its due date. Bills in a department with its own rules use those rules only;
+ * other bills use the school-wide rules. Safe to run repeatedly. Charges nothing
+ * while the school's late fee policy is off.
+ * @param db Database instance
+ * @param today ISO date to measure lateness against, defaults to today
+ * @returns The fees charged on this run
+ */
+export async function applyLateFees(db: SQLiteDatabase, today?: string): Promise<LateFeeApplication[]> {
+  const todayTime = Date.parse((today ?? new Date().toISOString()).slice(0, 10));
+
+  const { lateFeePolicy } = await getSchoolSettings(db);
+  if (lateFeePolicy === 'off') {
+    return [];
+  }
+
+  const transaction = await beginTransaction(db);
+
+  try {
+    const rules = await db.getAllAsync<LateFeeRule>('SELECT * FROM late_fee_rules WHERE isActive = 1');
+    const schoolRules = rules.filter(rule => rule.departmentId == null);
+    const applied: LateFeeApplication[] = [];
+
+    if (rules.length > 0) {
+      const bills = await db.getAllAsync<Bill>(
+        `SELECT * FROM bills WHERE isActive = 1 AND status = 'overdue' AND dueDate IS NOT NULL`
+      );
+
+      for (const bill of bills) {
+        const departmentRules = rules.filter(rule => rule.departmentId === bill.departmentId);
+        const billRules = departmentRules.length > 0 ? departmentRules : schoolRules;
+        const daysPastDue = Math.floor((todayTime - Date.parse(bill.dueDate!.slice(0, 10))) / DAY_MS);
+        let charged = false;
+
+        for (const rule of billRules) {
+          if (daysPastDue <= rule.graceDays) continue;
+
+          const alreadyApplied = await db.getFirstAsync<{ id: number }>(
+            'SELECT id FROM late_fee_applications WHERE billId = ? AND ruleId = ?',
+            bill.id!,
+            rule.id!
+          );
+          if (alreadyApplied) continue;
+
+          const balance = await getBillBalance(db, bill.id!);
+          if (!balance || balance.balance <= 0) break;
+
+          const fee = calculateLateFee(rule, balance.balance);
+          if (fee <= 0) continue;
+
+          const billItem = await getLateFeeBillItem(db, bill.departmentId);
+          const billBefore = await getAuditSnapshot(db, 'bills', bill.id!);
+          const relation = await db.runAsync(
+            'INSERT INTO bill_item_relations (billId, billItemId, amount, quantity) VALUES (?, ?, ?, 1)',
+            bill.id!,
+            billItem.id!,
+            fee
+          );
+          await db.runAsync(
+            'UPDATE bills SET totalAmount = totalAmount + ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+            fee,
+            bill.id!
+          );
+          await recordAudit(db, 'bill_item_relations', relation.lastInsertRowId, 'create', null,
+            await getAuditSnapshot(db, 'bill_item_relations', relation.lastInsertRowId));
+          await recordAudit(db, 'bills', bill.id!, 'update', billBefore, await getAuditSnapshot(db, 'bills', bill.id!));
+          const application = await db.runAsync(
+            'INSERT INTO late_fee_applications (billId, ruleId, billItemRelationId, amount) VALUES (?, ?, ?, ?)',
+            bill.id!,
+            rule.id!,
+            relation.lastInsertRowId,
+            fee
+          );
+
+          applied.push({
+            id: application.lastInsertRowId,
+            billId: bill.id!,
+            ruleId: rule.id!,
+            billItemRelationId: relation.lastInsertRowId,
+            amount: fee
+          });
+          charged = true;
+        }
+
+        if (charged) {
+          await recalculateBillStatus(db, bill.id!, { today, reason: 'Late fee charged' });
+        }
+      }
+    }
+
+    await transaction.commit();
+
+    return applied;
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error applying late fees:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,458 @@
+// lib/operations/payments.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import { formatCurrency } from '../../utils/formatters';
+import { isMoney } from '../../utils/money';
+import {
+  Bill,
+  BillBalance,
+  formatReceiptNumber,
+  Payment,
+  PaymentWithDetails,
+  RecordPaymentPayload,
+  Student
+} from '../db/schema';
+import { beginTransaction } from '../db/transaction';
+import { getAuditSnapshot, recordAudit } from './audit';
+import { getCurrentUser, requirePermission } from './auth';
+import { recordBillStatusChange } from './bills';
+import { getSchoolSettings } from './settings';
+
+/**
+ * Get the balance of a bill from its completed payments
+ * @param db Database instance
+ * @param billId Bill ID
+ * @returns Bill balance or null if the bill does not exist
+ */
+export async function getBillBalance(db: SQLiteDatabase, billId: number): Promise<BillBalance | null> {
+  try {
+    const row = await db.getFirstAsync<{ totalAmount: number; discount: number | null; totalPaid: number }>(
+      `SELECT b.totalAmount, b.discount,
+              (SELECT COALESCE(SUM(p.amount), 0) FROM payments p
+               WHERE p.billId = b.id AND p.status = 'completed' AND p.isActive = 1) as totalPaid
+       FROM bills b
+       WHERE b.id = ?`,
+      billId
+    );
+
+    if (!row) {
+      return null;
+    }
+
+    const totalAmount = row.totalAmount - (row.discount || 0);
+    return {
+      billId,
+      totalAmount,
+      totalPaid: row.totalPaid,
+      balance: totalAmount - row.totalPaid
+    };
+  } catch (error) {
+    console.error(`Error getting balance for bill with ID ${billId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Recalculate and store the status of a bill from its completed payments.
+ * Does not open a transaction, so it can be called from within one.
+ * Cancelled bills are left untouched. Status changes are recorded in the bill's history.
+ * @param db Database instance
+ * @param billId Bill ID
+ * @param options.today ISO date to judge overdue against, defaults to today
+ * @param options.reason Why the status is being recalculated, stored with any change
+ * @returns The bill's status after recalculation
+ */
+export async function recalculateBillStatus(
+  db: SQLiteDatabase,
+  billId: number,
+  options: { today?: string; reason?: string } = {}
+): Promise<Bill['status']> {
+  const bill = await db.getFirstAsync<Bill>('SELECT * FROM bills WHERE id = ?', billId);
+  if (!bill) {
+    throw new Error(`Bill with ID ${billId} not found`);
+  }
+
+  if (bill.status === 'cancelled') {
+    return bill.status;
+  }
+
+  const balance = await getBillBalance(db, billId);
+  const totalPaid = balance?.totalPaid ?? 0;
+  const amountDue = balance?.balance ?? 0;
+  const today = (options.today ?? new Date().toISOString()).slice(0, 10);
+
+  // With an installment plan, payments cover installments oldest first and the
+  // bill is overdue once the earliest installment not yet covered is past due
+  const nextInstallment = await db.getFirstAsync<{ dueDate: string }>(
+    `SELECT i.dueDate FROM bill_installments i
+     WHERE i.billId = ?
+       AND (SELECT SUM(j.amount) FROM bill_installments j WHERE j.billId = i.billId AND j.sequence <= i.sequence) > ?
+     ORDER BY i.sequence
+     LIMIT 1`,
+    billId,
+    totalPaid
+  );
+  const dueDate = nextInstallment?.dueDate ?? bill.dueDate;
+
+  let status: NonNullable<Bill['status']>;
+  if (amountDue <= 0) {
+    status = 'paid';
+  } else if (dueDate && dueDate.slice(0, 10) < today) {
+    status = 'overdue';
+  } else if (totalPaid > 0) {
+    status = 'partial';
+  } else {
+    status = 'pending';
+  }
+
+  if (status !== bill.status) {
+    await db.runAsync(
+      'UPDATE bills SET status = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      status,
+      billId
+    );
+    await recordBillStatusChange(db, billId, bill.status, status, options.reason);
+  }
+
+  return status;
+}
+
+/**
+ * Scan open bills and move those past their due date with an unpaid balance to overdue,
+ * and overdue bills that have since been settled back to paid
+ * @param db Database instance
+ * @param today ISO date to judge overdue against, defaults to today
+ * @returns Number of bills checked and the status changes made
+ */
+export async function refreshOverdueBills(
+  db: SQLiteDatabase,
+  today?: string
+): Promise<{ checked: number; changes: { billId: number; from: Bill['status']; to: Bill['status'] }[] }> {
+  const transaction = await beginTransaction(db);
+
+  try {
+    const bills = await db.getAllAsync<Pick<Bill, 'id' | 'status'>>(
+      `SELECT id, status FROM bills
+       WHERE isActive = 1 AND status != 'cancelled'
+         AND (dueDate IS NOT NULL OR status = 'overdue' OR id IN (SELECT billId FROM bill_installments))`
+    );
+
+    const changes: { billId: number; from: Bill['status']; to: Bill['status'] }[] = [];
+    for (const bill of bills) {
+      const status = await recalculateBillStatus(db, bill.id!, { today, reason: 'Overdue check' });
+      if (status !== bill.status) {
+        changes.push({ billId: bill.id!, from: bill.status, to: status });
+      }
+    }
+
+    await transaction.commit();
+
+    return { checked: bills.length, changes };
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error refreshing overdue bills:', error);
+    throw error;
+  }
+}
+
+/**
+ * Take the next receipt number in a year's sequence and store it on a payment.
+ * Must run inside the transaction that inserts the payment, so a rollback
+ * also releases the number and the sequence never skips.
+ */
+async function assignReceiptNumber(
+  db: SQLiteDatabase,
+  paymentId: number,
+  year: number
+): Promise<{ receiptNumber: string; receiptYear: number; receiptSequence: number }> {
+  await db.runAsync('INSERT OR IGNORE INTO receipt_sequences (year, lastNumber) VALUES (?, 0)', year);
+  await db.runAsync('UPDATE receipt_sequences SET lastNumber = lastNumber + 1 WHERE year = ?', year);
+  const row = await db.getFirstAsync<{ lastNumber: number }>(
+    'SELECT lastNumber FROM receipt_sequences WHERE year = ?',
+    year
+  );
+  if (!row) {
+    throw new Error(`Receipt sequence for ${year} could not be read`);
+  }
+
+  const { receiptPrefix } = await getSchoolSettings(db);
+  const receiptNumber = formatReceiptNumber(year, row.lastNumber, receiptPrefix);
+  await db.runAsync(
+    'UPDATE payments SET receiptNumber = ?, receiptYear = ?, receiptSequence = ? WHERE id = ?',
+    receiptNumber,
+    year,
+    row.lastNumber,
+    paymentId
+  );
+
+  return { receiptNumber, receiptYear: year, receiptSequence: row.lastNumber };
+}
+
+/**
+ * Insert a payment against a bill, number its receipt and update the bill's status.
+ * The signed-in user is recorded as the user who took the payment.
+ * Does not open a transaction, so it can be called from within one.
+ * @param db Database instance
+ * @param payment The payment data
+ * @param options.allowOverpayment Accept amounts above the balance, leaving the bill in credit
+ * @returns Newly recorded payment with ID
+ */
+export async function insertPayment(
+  db: SQLiteDatabase,
+  payment: RecordPaymentPayload,
+  options: { allowOverpayment?: boolean } = {}
+): Promise<Payment> {
+  requirePermission('payments.record');
+
+  if (!(isMoney(payment.amount) && payment.amount > 0)) {
+    throw new Error('Payment amount must be greater than zero');
+  }
+
+  const bill = await db.getFirstAsync<Bill>('SELECT * FROM bills WHERE id = ?', payment.billId);
+  if (!bill) {
+    throw new Error(`Bill with ID ${payment.billId} not found`);
+  }
+  if (bill.status === 'cancelled') {
+    throw new Error('Cannot record a payment against a cancelled bill');
+  }
+
+  if (!options.allowOverpayment) {
+    const balance = await getBillBalance(db, payment.billId);
+    if (balance && payment.amount > balance.balance) {
+      throw new Error(`Payment exceeds the outstanding balance of ${formatCurrency(balance.balance)}`);
+    }
+  }
+
+  const paymentDate = payment.paymentDate || new Date().toISOString();
+  const receivedByUserId = getCurrentUser()?.id ?? null;
+  const result = await db.runAsync(
+    `INSERT INTO payments (billId, studentId, amount, paymentDate, method, reference, receivedBy, receivedByUserId, note, status)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    payment.billId,
+    bill.studentId,
+    payment.amount,
+    paymentDate,
+    payment.method ?? null,
+    payment.reference ?? null,
+    payment.receivedBy ?? null,
+    receivedByUserId,
+    payment.note ?? null,
+    'completed'
+  );
+
+  const receipt = await assignReceiptNumber(
+    db,
+    result.lastInsertRowId,
+    Number(paymentDate.slice(0, 4)) || new Date().getFullYear()
+  );
+
+  await recordAudit(db, 'payments', result.lastInsertRowId, 'create', null,
+    await getAuditSnapshot(db, 'payments', result.lastInsertRowId));
+  await recalculateBillStatus(db, payment.billId, { reason: `Payment ${receipt.receiptNumber} recorded` });
+
+  return {
+    ...receipt,
+    id: result.lastInsertRowId,
+    billId: payment.billId,
+    studentId: bill.studentId,
+    amount: payment.amount,
+    paymentDate,
+    method: payment.method,
+    reference: payment.reference,
+    receivedBy: payment.receivedBy,
+    receivedByUserId,
+    note: payment.note,
+    status: 'completed'
+  };
+}
+
+/**
+ * Record a payment against a bill and update the bill's status
+ * @param db Database instance
+ * @param payment The payment data
+ * @param options.allowOverpayment Accept amounts above the balance, leaving the bill in credit
+ * @returns Newly recorded payment with ID
+ */
+export async function recordPayment(
+  db: SQLiteDatabase,
+  payment: RecordPaymentPayload,
+  options: { allowOverpayment?: boolean } = {}
+): Promise<Payment> {
+  if (!(isMoney(payment.amount) && payment.amount > 0)) {
+    throw new Error('Payment amount must be greater than zero');
+  }
+
+  const transaction = await beginTransaction(db);
+
+  try {
+    const recorded = await insertPayment(db, payment, options);
+
+    await transaction.commit();
+
+    return recorded;
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error recording payment:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a payment by ID
+ * @param db Database instance
+ * @param id Payment ID
+ * @returns Payment data or null if not found
+ */
+export async function getPaymentById(db: SQLiteDatabase, id: number): Promise<Payment | null> {
+  try {
+    const payment = await db.getFirstAsync<Payment>('SELECT * FROM payments WHERE id = ?', id);
+    return payment || null;
+  } catch (error) {
+    console.error(`Error getting payment with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get a payment with its bill and student, e.g. for printing a receipt
+ * @param db Database instance
+ * @param id Payment ID
+ * @returns Payment with details or null if not found
+ */
+export async function getPaymentWithDetails(db: SQLiteDatabase, id: number): Promise<PaymentWithDetails | null> {
+  try {
+    const payment = await db.getFirstAsync<Payment>('SELECT * FROM payments WHERE id = ?', id);
+    if (!payment) {
+      return null;
+    }
+
+    const bill = await db.getFirstAsync<Bill>('SELECT * FROM bills WHERE id = ?', payment.billId);
+    const student = await db.getFirstAsync<Student>('SELECT * FROM students WHERE id = ?', payment.studentId);
+    if (!bill || !student) {
+      throw new Error(`Bill or student for payment ${id} not found`);
+    }
+
+    return { ...payment, bill, student };
+  } catch (error) {
+    console.error(`Error getting details for payment with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get all payments made against a bill
+ * @param db Database instance
+ * @param billId Bill ID
+ * @returns Array of payments, oldest first
+ */
+export async function getPaymentsByBillId(db: SQLiteDatabase, billId: number): Promise<Payment[]> {
+  try {
+    const payments = await db.getAllAsync<Payment>(
+      'SELECT * FROM payments WHERE billId = ? AND isActive = 1 ORDER BY paymentDate, id',
+      billId
+    );
+    return payments;
+  } catch (error) {
+    console.error(`Error getting payments for bill with ID ${billId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get all payments made by a student
+ * @param db Database instance
+ * @param studentId Student ID
+ * @returns Array of payments, newest first
+ */
+export async function getPaymentsByStudentId(db: SQLiteDatabase, studentId: number): Promise<Payment[]> {
+  try {
+    const payments = await db.getAllAsync<Payment>(
+      'SELECT * FROM payments WHERE studentId = ? AND isActive = 1 ORDER BY paymentDate DESC, id DESC',
+      studentId
+    );
+    return payments;
+  } catch (error) {
+    console.error(`Error getting payments for student with ID ${studentId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Change the status of a completed payment and recalculate its bill
+ */
+async function changePaymentStatus(
+  db: SQLiteDatabase,
+  id: number,
+  status: 'voided' | 'refunded',
+  note?: string
+): Promise<Payment> {
+  const transaction = await beginTransaction(db);
+
+  try {
+    const payment = await db.getFirstAsync<Payment>('SELECT * FROM payments WHERE id = ?', id);
+    if (!payment) {
+      throw new Error(`Payment with ID ${id} not found`);
+    }
+    if (payment.status !== 'completed') {
+      throw new Error(`Only completed payments can be ${status}`);
+    }
+
+    const updatedNote = note
+      ? [payment.note, `${status === 'voided' ? 'Voided' : 'Refunded'}: ${note}`].filter(Boolean).join('\n')
+      : payment.note ?? null;
+
+    await db.runAsync(
+      'UPDATE payments SET status = ?, note = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      status,
+      updatedNote,
+      id
+    );
+    await recordAudit(db, 'payments', id, 'update', payment, await getAuditSnapshot(db, 'payments', id));
+
+    await recalculateBillStatus(db, payment.billId, {
+      reason: `Payment ${payment.receiptNumber ?? `#${id}`} ${status}`
+    });
+
+    await transaction.commit();
+
+    return { ...payment, status, note: updatedNote ?? undefined };
+  } catch (error) {
+    await transaction.rollback();
+    throw error;
+  }
+}
+
+/**
+ * Void a payment that was recorded in error
+ * @param db Database instance
+ * @param id Payment ID
+ * @param reason Optional reason, appended to the payment note
+ * @returns The voided payment
+ */
+export async function voidPayment(db: SQLiteDatabase, id: number, reason?: string): Promise<Payment> {
+  requirePermission('payments.void');
+
+  try {
+    return await changePaymentStatus(db, id, 'voided', reason);
+  } catch (error) {
+    console.error(`Error voiding payment with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Refund a payment, returning the money to the payer
+ * @param db Database instance
+ * @param id Payment ID
+ * @param reason Optional reason, appended to the payment note
+ * @returns The refunded payment
+ */
+export async function refundPayment(db: SQLiteDatabase, id: number, reason?: string): Promise<Payment> {
+  requirePermission('payments.void');
+
+  try {
+    return await changePaymentStatus(db, id, 'refunded', reason);
+  } catch (error) {
+    console.error(`Error refunding payment with ID ${id}:`, error);
+    throw error;
+  }
+}
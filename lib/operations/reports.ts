@@ -0,0 +1,285 @@
+// lib/operations/reports.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import {
+  AgingBucket,
+  AgingBuckets,
+  AgingDepartmentGroup,
+  AgingReport,
+  DashboardSummary,
+  DebtorSummary,
+  Department,
+  DepartmentBillingSummary,
+  DepartmentCollectionStats,
+  DepartmentEnrollmentStats,
+  OutstandingBill,
+  PaymentRegisterRow,
+  queries
+} from '../db/schema';
+import { getCurrentTerm } from './terms';
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Get all unpaid bills with the amount still due, oldest due date first
+ * @param db Database instance
+ * @param termId Only bills of departments running in this term
+ * @returns Array of outstanding bills
+ */
+export async function getOutstandingBills(db: SQLiteDatabase, termId?: number): Promise<OutstandingBill[]> {
+  try {
+    const bills = await db.getAllAsync<OutstandingBill>(queries.getOutstandingPayments);
+    if (!termId) {
+      return bills;
+    }
+
+    const departments = await db.getAllAsync<{ id: number }>('SELECT id FROM departments WHERE termId = ?', termId);
+    const departmentIds = new Set(departments.map(department => department.id));
+    return bills.filter(bill => departmentIds.has(bill.departmentId));
+  } catch (error) {
+    console.error('Error getting outstanding bills:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get every payment with its student, bill and department, in date order
+ * @param db Database instance
+ * @param range Optional inclusive ISO date range on the payment date, and the term of the bills' departments
+ * @returns Array of payments, including voided and refunded ones
+ */
+export async function getPaymentRegister(
+  db: SQLiteDatabase,
+  range: { fromDate?: string; toDate?: string; termId?: number } = {}
+): Promise<PaymentRegisterRow[]> {
+  try {
+    return await db.getAllAsync<PaymentRegisterRow>(
+      `SELECT p.*,
+              s.firstname || ' ' || s.othernames as studentName,
+              b.name as billName,
+              d.name as departmentName
+       FROM payments p
+       JOIN students s ON p.studentId = s.id
+       JOIN bills b ON p.billId = b.id
+       JOIN departments d ON b.departmentId = d.id
+       WHERE p.isActive = 1 AND substr(p.paymentDate, 1, 10) >= ? AND substr(p.paymentDate, 1, 10) <= ?
+         AND (? IS NULL OR d.termId = ?)
+       ORDER BY p.paymentDate, p.id`,
+      range.fromDate?.slice(0, 10) ?? '0000-01-01',
+      range.toDate?.slice(0, 10) ?? '9999-12-31',
+      range.termId ?? null,
+      range.termId ?? null
+    );
+  } catch (error) {
+    console.error('Error getting payment register:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get billed, paid and unpaid totals for a department
+ * @param db Database instance
+ * @param departmentId Department ID
+ * @returns Billing summary, with zero totals if the department has no bills, or null if there is no such active department
+ */
+export async function getDepartmentBillingSummary(
+  db: SQLiteDatabase,
+  departmentId: number
+): Promise<DepartmentBillingSummary | null> {
+  try {
+    const summary = await db.getFirstAsync<DepartmentBillingSummary>(queries.getBillingSummaryForDepartment, departmentId);
+    if (summary) {
+      return summary;
+    }
+
+    const department = await db.getFirstAsync<{ name: string }>(
+      'SELECT name FROM departments WHERE id = ? AND isActive = 1',
+      departmentId
+    );
+    return department
+      ? { departmentId, departmentName: department.name, totalStudents: 0, totalBilled: 0, totalPaid: 0, totalUnpaid: 0 }
+      : null;
+  } catch (error) {
+    console.error(`Error getting billing summary for department with ID ${departmentId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get enrollment counts for every active department
+ * @param db Database instance
+ * @returns Array of enrollment stats
+ */
+export async function getDepartmentEnrollmentStats(db: SQLiteDatabase): Promise<DepartmentEnrollmentStats[]> {
+  try {
+    return await db.getAllAsync<DepartmentEnrollmentStats>(queries.getDepartmentEnrollmentStats);
+  } catch (error) {
+    console.error('Error getting department enrollment stats:', error);
+    throw error;
+  }
+}
+
+/**
+ * Build the home screen dashboard: term totals and collection rate per department
+ * for the current term (as set in the settings, otherwise the term running today),
+ * plus that term's top debtors and bills due in the next week
+ * @param db Database instance
+ * @param options.today Reference date, defaults to now
+ * @param options.topDebtorCount Number of debtors to list
+ * @returns Dashboard summary
+ */
+export async function getDashboardSummary(
+  db: SQLiteDatabase,
+  options: { today?: Date; topDebtorCount?: number } = {}
+): Promise<DashboardSummary> {
+  const now = options.today ?? new Date();
+  const topDebtorCount = options.topDebtorCount ?? 5;
+
+  try {
+    const today = toDateString(now);
+    const weekEnd = toDateString(new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000));
+
+    const currentTerm = await getCurrentTerm(db, today);
+    const termDepartments = currentTerm
+      ? await db.getAllAsync<Department>(
+          'SELECT * FROM departments WHERE isActive = 1 AND termId = ?',
+          currentTerm.id!
+        )
+      : [];
+
+    const enrollmentStats = await getDepartmentEnrollmentStats(db);
+    const enrollmentsById = new Map(enrollmentStats.map(stats => [stats.departmentId, stats]));
+
+    const departments: DepartmentCollectionStats[] = [];
+    for (const department of termDepartments) {
+      const summary = await getDepartmentBillingSummary(db, department.id!);
+      const totalBilled = summary?.totalBilled ?? 0;
+      const totalPaid = summary?.totalPaid ?? 0;
+      departments.push({
+        departmentId: department.id!,
+        departmentName: department.name,
+        totalStudents: summary?.totalStudents ?? 0,
+        totalBilled,
+        totalPaid,
+        totalUnpaid: summary?.totalUnpaid ?? 0,
+        activeEnrollments: enrollmentsById.get(department.id!)?.activeEnrollments ?? 0,
+        collectionRate: totalBilled > 0 ? totalPaid / totalBilled : 0
+      });
+    }
+    departments.sort((a, b) => a.collectionRate - b.collectionRate);
+
+    const outstanding = currentTerm ? await getOutstandingBills(db, currentTerm.id!) : [];
+
+    const debtorsById = new Map<number, DebtorSummary>();
+    for (const bill of outstanding) {
+      const debtor = debtorsById.get(bill.studentId) ??
+        { studentId: bill.studentId, studentName: bill.studentName, billCount: 0, amountDue: 0 };
+      debtor.billCount += 1;
+      debtor.amountDue += bill.amountDue;
+      debtorsById.set(bill.studentId, debtor);
+    }
+    const topDebtors = [...debtorsById.values()]
+      .sort((a, b) => b.amountDue - a.amountDue)
+      .slice(0, topDebtorCount);
+
+    const dueThisWeek = outstanding.filter(bill =>
+      bill.dueDate && bill.dueDate.slice(0, 10) >= today && bill.dueDate.slice(0, 10) <= weekEnd
+    );
+
+    return {
+      currentTerm,
+      totalBilled: departments.reduce((sum, department) => sum + department.totalBilled, 0),
+      totalCollected: departments.reduce((sum, department) => sum + department.totalPaid, 0),
+      totalOutstanding: departments.reduce((sum, department) => sum + department.totalUnpaid, 0),
+      departments,
+      topDebtors,
+      dueThisWeek
+    };
+  } catch (error) {
+    console.error('Error building dashboard summary:', error);
+    throw error;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyBuckets = (): AgingBuckets =>
+  ({ current: 0, days0to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 });
+
+/**
+ * Bucket for a balance that is a number of days past its due date.
+ * Bills with no due date, not yet due or due today are current.
+ */
+function getAgingBucket(daysPastDue: number | null): AgingBucket {
+  if (daysPastDue === null || daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days0to30';
+  if (daysPastDue <= 60) return 'days31to60';
+  if (daysPastDue <= 90) return 'days61to90';
+  return 'over90';
+}
+
+function addToBuckets(buckets: AgingBuckets, bucket: AgingBucket, amount: number) {
+  buckets[bucket] += amount;
+  buckets.total += amount;
+}
+
+/**
+ * Build an aging report of unpaid balances, bucketed by days past each bill's due date,
+ * per student within each department, with department and school-wide subtotals
+ * @param db Database instance
+ * @param asOf ISO date to measure ages from, defaults to today
+ * @param termId Only bills for departments running in this term
+ * @returns Aging report; departments and students with nothing owed are left out
+ */
+export async function getAgingReport(db: SQLiteDatabase, asOf?: string, termId?: number): Promise<AgingReport> {
+  const asOfDate = (asOf ?? toDateString(new Date())).slice(0, 10);
+
+  try {
+    const departments = termId
+      ? await db.getAllAsync<{ id: number; name: string }>('SELECT id, name FROM departments WHERE termId = ?', termId)
+      : await db.getAllAsync<{ id: number; name: string }>('SELECT id, name FROM departments');
+    const departmentNames = new Map(departments.map(department => [department.id, department.name]));
+    const outstanding = await getOutstandingBills(db, termId);
+
+    const groups = new Map<number, AgingDepartmentGroup>();
+    const total = emptyBuckets();
+    const asOfTime = Date.parse(asOfDate);
+
+    for (const bill of outstanding) {
+      const daysPastDue = bill.dueDate
+        ? Math.floor((asOfTime - Date.parse(bill.dueDate.slice(0, 10))) / DAY_MS)
+        : null;
+      const bucket = getAgingBucket(daysPastDue);
+
+      let group = groups.get(bill.departmentId);
+      if (!group) {
+        group = {
+          departmentId: bill.departmentId,
+          departmentName: departmentNames.get(bill.departmentId) ?? `Department #${bill.departmentId}`,
+          students: [],
+          subtotal: emptyBuckets()
+        };
+        groups.set(bill.departmentId, group);
+      }
+
+      let row = group.students.find(student => student.studentId === bill.studentId);
+      if (!row) {
+        row = { studentId: bill.studentId, studentName: bill.studentName, buckets: emptyBuckets() };
+        group.students.push(row);
+      }
+
+      addToBuckets(row.buckets, bucket, bill.amountDue);
+      addToBuckets(group.subtotal, bucket, bill.amountDue);
+      addToBuckets(total, bucket, bill.amountDue);
+    }
+
+    const sortedGroups = [...groups.values()].sort((a, b) => a.departmentName.localeCompare(b.departmentName));
+    for (const group of sortedGroups) {
+      group.students.sort((a, b) => b.buckets.total - a.buckets.total);
+    }
+
+    return { asOf: asOfDate, departments: sortedGroups, total };
+  } catch (error) {
+    console.error('Error building aging report:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,252 @@
+// lib/operations/rollover.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import { sumMoney } from '../../utils/money';
+import {
+  BillItem,
+  Department,
+  LATE_FEE_CATEGORY,
+  RolloverDepartmentPlan,
+  StudentDepartment,
+  TermRolloverOptions,
+  TermRolloverPreview
+} from '../db/schema';
+import { beginTransaction } from '../db/transaction';
+import { getAuditSnapshot, recordAudit } from './audit';
+import { requirePermission } from './auth';
+import { addBillItem } from './bill-items';
+import { addDepartment } from './departments';
+import { getTermById } from './terms';
+
+// How one department of the old term is carried into the new one
+interface DepartmentRollover {
+  department: Department;
+  existing: Department | null; // Counterpart already set up in the new term
+  billItems: BillItem[]; // Fee items to copy; none when the counterpart already exists
+  plan: RolloverDepartmentPlan;
+  studentIds: number[]; // Students to enroll in the new term
+}
+
+/**
+ * Work out everything a rollover would do, checking the options, without writing anything
+ */
+async function planRollover(
+  db: SQLiteDatabase,
+  options: TermRolloverOptions
+): Promise<{ preview: TermRolloverPreview; rollovers: DepartmentRollover[] }> {
+  const fromTerm = await getTermById(db, options.fromTermId);
+  const toTerm = await getTermById(db, options.toTermId);
+  if (!fromTerm || !toTerm) {
+    throw new Error('Term not found');
+  }
+  if (fromTerm.id === toTerm.id) {
+    throw new Error('Choose a different term to roll over into');
+  }
+
+  const departments = await db.getAllAsync<Department>(
+    'SELECT * FROM departments WHERE termId = ? AND isActive = 1 ORDER BY name',
+    fromTerm.id!
+  );
+  if (departments.length === 0) {
+    throw new Error(`${fromTerm.name} ${fromTerm.academicYearName} has no departments to roll over`);
+  }
+
+  // Departments already in the new term are matched by name and kept as they are
+  const existingDepartments = await db.getAllAsync<Department>(
+    'SELECT * FROM departments WHERE termId = ?',
+    toTerm.id!
+  );
+  const findExisting = (department: Department) =>
+    existingDepartments.find(existing => existing.name.trim().toLowerCase() === department.name.trim().toLowerCase()) ?? null;
+
+  // Students already in each department's counterpart, by old department ID, so nobody is enrolled twice
+  const enrolled = new Map<number, Set<number>>();
+  for (const department of departments) {
+    const existing = findExisting(department);
+    const rows = existing
+      ? await db.getAllAsync<{ studentId: number }>('SELECT studentId FROM student_departments WHERE departmentId = ?', existing.id!)
+      : [];
+    enrolled.set(department.id!, new Set(rows.map(row => row.studentId)));
+  }
+
+  const rollovers: DepartmentRollover[] = [];
+  const preview: TermRolloverPreview = {
+    fromTerm,
+    toTerm,
+    departments: [],
+    departmentsCreated: 0,
+    billItemsCopied: 0,
+    enrollmentsCreated: 0,
+    enrollmentsCompleted: 0
+  };
+
+  for (const department of departments) {
+    const plan = options.departments?.[department.id!] ?? { mode: 'none' };
+    const target = plan.mode === 'promote'
+      ? departments.find(other => other.id === plan.promoteToDepartmentId)
+      : department;
+    if (!target || (plan.mode === 'promote' && target.id === department.id)) {
+      throw new Error(`Choose which department the students of ${department.name} move up to`);
+    }
+
+    const existing = findExisting(department);
+    const billItems = existing
+      ? []
+      : await db.getAllAsync<BillItem>(
+          'SELECT * FROM bill_items WHERE departmentId = ? AND (category IS NULL OR category != ?)',
+          department.id!,
+          LATE_FEE_CATEGORY
+        );
+
+    const studentIds: number[] = [];
+    if (plan.mode !== 'none') {
+      const students = await db.getAllAsync<{ studentId: number }>(
+        `SELECT sd.studentId FROM student_departments sd
+         JOIN students s ON sd.studentId = s.id
+         WHERE sd.departmentId = ? AND sd.isActive = 1 AND sd.status = 'active'
+           AND s.isActive = 1 AND COALESCE(s.status, 'active') NOT IN ('inactive', 'graduated')`,
+        department.id!
+      );
+      const targetEnrolled = enrolled.get(target.id!)!;
+      for (const { studentId } of students) {
+        if (!targetEnrolled.has(studentId)) {
+          targetEnrolled.add(studentId);
+          studentIds.push(studentId);
+        }
+      }
+    }
+
+    const completed = await db.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) as count FROM student_departments WHERE departmentId = ? AND isActive = 1 AND status = 'active'`,
+      department.id!
+    );
+
+    rollovers.push({ department, existing, billItems, plan, studentIds });
+    preview.departments.push({
+      departmentId: department.id!,
+      departmentName: department.name,
+      existingDepartmentId: existing?.id ?? null,
+      billItemCount: billItems.length,
+      billItemTotal: sumMoney(billItems.map(item => item.amount)),
+      mode: plan.mode,
+      targetDepartmentName: plan.mode === 'none' ? null : target.name,
+      studentCount: studentIds.length
+    });
+    preview.departmentsCreated += existing ? 0 : 1;
+    preview.billItemsCopied += billItems.length;
+    preview.enrollmentsCreated += studentIds.length;
+    preview.enrollmentsCompleted += completed?.count ?? 0;
+  }
+
+  return { preview, rollovers };
+}
+
+/**
+ * Preview rolling a term's departments over into another term, without writing anything
+ * @param db Database instance
+ * @param options The two terms and what happens to each department's students
+ * @returns The departments, fee items and enrollments rolloverTerm would create
+ */
+export async function previewTermRollover(
+  db: SQLiteDatabase,
+  options: TermRolloverOptions
+): Promise<TermRolloverPreview> {
+  try {
+    return (await planRollover(db, options)).preview;
+  } catch (error) {
+    console.error('Error previewing term rollover:', error);
+    throw error;
+  }
+}
+
+/**
+ * Roll a term's departments over into another term, in one transaction; if anything fails, nothing changes.
+ * Each department gets a counterpart in the new term with copies of its fee items, unless one of
+ * the same name is already there. Active enrollments are carried into the counterpart or promoted
+ * into another department's counterpart as planned, and every active enrollment of the old term
+ * is marked completed.
+ * @param db Database instance
+ * @param options The two terms and what happens to each department's students
+ * @returns What was done, as previewed
+ */
+export async function rolloverTerm(db: SQLiteDatabase, options: TermRolloverOptions): Promise<TermRolloverPreview> {
+  requirePermission('departments.manage');
+  requirePermission('students.manage');
+
+  const transaction = await beginTransaction(db);
+
+  try {
+    const { preview, rollovers } = await planRollover(db, options);
+    const { toTerm } = preview;
+
+    // 1. Create the new term's departments with their fee items
+    const counterparts = new Map<number, number>();
+    for (const { department, existing, billItems } of rollovers) {
+      if (existing) {
+        counterparts.set(department.id!, existing.id!);
+        continue;
+      }
+
+      const created = await addDepartment(db, {
+        name: department.name,
+        termId: toTerm.id,
+        term: toTerm.name,
+        year: toTerm.academicYearName,
+        description: department.description,
+        startDate: toTerm.startDate ?? undefined,
+        endDate: toTerm.endDate ?? undefined
+      });
+      counterparts.set(department.id!, created.id!);
+
+      for (const item of billItems) {
+        await addBillItem(db, {
+          name: item.name,
+          amount: item.amount,
+          departmentId: created.id!,
+          description: item.description,
+          category: item.category,
+          isRequired: item.isRequired
+        });
+      }
+    }
+
+    // 2. Enroll students in the new term
+    for (const { department, plan, studentIds } of rollovers) {
+      const departmentId = counterparts.get(plan.mode === 'promote' ? plan.promoteToDepartmentId! : department.id!)!;
+      for (const studentId of studentIds) {
+        const enrollment = await db.runAsync(
+          'INSERT INTO student_departments (studentId, departmentId, status, isActive) VALUES (?, ?, ?, ?)',
+          studentId,
+          departmentId,
+          'active',
+          1
+        );
+        await recordAudit(db, 'student_departments', enrollment.lastInsertRowId, 'create', null,
+          await getAuditSnapshot(db, 'student_departments', enrollment.lastInsertRowId));
+      }
+    }
+
+    // 3. Close the old term's enrollments
+    for (const { department } of rollovers) {
+      const enrollments = await db.getAllAsync<StudentDepartment>(
+        `SELECT * FROM student_departments WHERE departmentId = ? AND isActive = 1 AND status = 'active'`,
+        department.id!
+      );
+      await db.runAsync(
+        `UPDATE student_departments SET status = 'completed', updatedAt = CURRENT_TIMESTAMP
+         WHERE departmentId = ? AND isActive = 1 AND status = 'active'`,
+        department.id!
+      );
+      for (const enrollment of enrollments) {
+        await recordAudit(db, 'student_departments', enrollment.id!, 'update', enrollment,
+          await getAuditSnapshot(db, 'student_departments', enrollment.id!));
+      }
+    }
+
+    await transaction.commit();
+    return preview;
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error rolling over term:', error);
+    throw error;
+  }
+}
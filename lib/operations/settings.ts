@@ -0,0 +1,220 @@
+// lib/operations/settings.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import { CurrencyFormat, DEFAULT_CURRENCY_FORMAT, setCurrencyFormat } from '../../utils/formatters';
+import { LateFeePolicy, SchoolSettings } from '../db/schema';
+import { recordAudit } from './audit';
+import { requirePermission } from './auth';
+
+const SETTINGS_ID = 1;
+
+const MAX_DECIMAL_PLACES = 3;
+
+const MAX_DUE_DAYS = 365;
+
+// Logos are stored in the database and embedded in every document, so keep them small
+const MAX_LOGO_LENGTH = 300 * 1024;
+
+const LATE_FEE_POLICIES: LateFeePolicy[] = ['off', 'manual', 'automatic'];
+
+// Settings until the school saves its own
+export const DEFAULT_SCHOOL_SETTINGS: SchoolSettings = {
+  ...DEFAULT_CURRENCY_FORMAT,
+  schoolName: 'MEC',
+  schoolShortName: 'MEC',
+  schoolAddress: '',
+  schoolPhone: '',
+  schoolLogo: null,
+  receiptPrefix: 'RCT',
+  invoicePrefix: 'INV',
+  defaultDueDays: null,
+  lateFeePolicy: 'manual',
+  currentTermId: null
+};
+
+// The settings in effect on this device, for code that cannot wait on the database
+let currentSettings = DEFAULT_SCHOOL_SETTINGS;
+
+/**
+ * Check a currency format before saving it
+ */
+function validateCurrencyFormat(format: CurrencyFormat) {
+  if (!/^[A-Z]{3}$/.test(format.currencyCode)) {
+    throw new Error('Currency code must be three capital letters, e.g. GHS');
+  }
+  if (!format.currencySymbol.trim()) {
+    throw new Error('Currency symbol is required');
+  }
+  if (format.symbolPosition !== 'before' && format.symbolPosition !== 'after') {
+    throw new Error('Symbol position must be before or after');
+  }
+  if (!Number.isInteger(format.decimalPlaces) || format.decimalPlaces < 0 || format.decimalPlaces > MAX_DECIMAL_PLACES) {
+    throw new Error(`Decimal places must be a whole number from 0 to ${MAX_DECIMAL_PLACES}`);
+  }
+  if (format.decimalPlaces > 0 && !format.decimalSeparator) {
+    throw new Error('Decimal separator is required');
+  }
+  if (/\d/.test(format.thousandsSeparator + format.decimalSeparator)) {
+    throw new Error('Separators cannot be digits');
+  }
+  if (format.decimalPlaces > 0 && format.thousandsSeparator === format.decimalSeparator) {
+    throw new Error('The thousands and decimal separators must be different');
+  }
+  if (!format.currencyName.trim() || !format.currencyNamePlural.trim()) {
+    throw new Error('Currency name is required');
+  }
+}
+
+/**
+ * Check the school's details, numbering and billing defaults before saving them
+ */
+function validateSchoolSettings(settings: SchoolSettings) {
+  if (!settings.schoolName.trim()) {
+    throw new Error('School name is required');
+  }
+  if (!settings.schoolShortName.trim() || settings.schoolShortName.trim().length > 12) {
+    throw new Error('Short name is required and must be at most 12 characters');
+  }
+  if (!/^[A-Za-z0-9]{1,8}$/.test(settings.receiptPrefix) || !/^[A-Za-z0-9]{1,8}$/.test(settings.invoicePrefix)) {
+    throw new Error('Receipt and invoice prefixes must be 1 to 8 letters or numbers');
+  }
+  if (settings.receiptPrefix.toUpperCase() === settings.invoicePrefix.toUpperCase()) {
+    throw new Error('Receipts and invoices need different prefixes');
+  }
+  if (settings.schoolLogo && !settings.schoolLogo.startsWith('data:image/')) {
+    throw new Error('The logo must be an image');
+  }
+  if (settings.schoolLogo && settings.schoolLogo.length > MAX_LOGO_LENGTH) {
+    throw new Error(`The logo is too large; use an image under ${Math.floor((MAX_LOGO_LENGTH * 0.75) / 1024)} KB`);
+  }
+  if (
+    settings.defaultDueDays != null &&
+    (!Number.isInteger(settings.defaultDueDays) || settings.defaultDueDays < 0 || settings.defaultDueDays > MAX_DUE_DAYS)
+  ) {
+    throw new Error(`Days until bills are due must be a whole number from 0 to ${MAX_DUE_DAYS}`);
+  }
+  if (!LATE_FEE_POLICIES.includes(settings.lateFeePolicy)) {
+    throw new Error(`Late fee policy must be one of ${LATE_FEE_POLICIES.join(', ')}`);
+  }
+}
+
+/**
+ * Shorten the logo in audit entries; it is too large to store with every change
+ */
+function toAuditSnapshot(settings: SchoolSettings): SchoolSettings {
+  return { ...settings, schoolLogo: settings.schoolLogo ? '(image)' : null };
+}
+
+/**
+ * Check whether any amounts have been recorded, which the number of decimal places changes the meaning of:
+ * bills and payments, and also flat or capped late fee rules and fixed discount schemes
+ */
+async function hasRecordedAmounts(db: SQLiteDatabase): Promise<boolean> {
+  const row = await db.getFirstAsync<{ found: number }>(`
+    SELECT EXISTS (SELECT 1 FROM bill_items)
+      OR EXISTS (SELECT 1 FROM bills)
+      OR EXISTS (SELECT 1 FROM payments)
+      OR EXISTS (SELECT 1 FROM late_fee_rules WHERE type = 'flat' OR maxAmount IS NOT NULL)
+      OR EXISTS (SELECT 1 FROM discount_schemes WHERE type = 'fixed') as found
+  `);
+  return !!row?.found;
+}
+
+/**
+ * Get the school's settings
+ * @param db Database instance
+ * @returns The settings, or the defaults if none have been saved
+ */
+export async function getSchoolSettings(db: SQLiteDatabase): Promise<SchoolSettings> {
+  try {
+    const row = await db.getFirstAsync<SchoolSettings>('SELECT * FROM school_settings WHERE id = ?', SETTINGS_ID);
+    return row ?? { ...DEFAULT_SCHOOL_SETTINGS };
+  } catch (error) {
+    console.error('Error getting school settings:', error);
+    throw error;
+  }
+}
+
+/**
+ * Load the school's settings and apply them, so amounts are formatted in its currency
+ * and headers and documents show its details. Called when the database opens and after a restore.
+ * @param db Database instance
+ * @returns The settings
+ */
+export async function loadSchoolSettings(db: SQLiteDatabase): Promise<SchoolSettings> {
+  const settings = await getSchoolSettings(db);
+  currentSettings = settings;
+  setCurrencyFormat(settings);
+  return settings;
+}
+
+/**
+ * Get the settings last loaded from the database, e.g. for headers and document numbers
+ */
+export function getCurrentSchoolSettings(): SchoolSettings {
+  return currentSettings;
+}
+
+/**
+ * Due date for a new bill from the school's default, e.g. 30 days after billing
+ * @param db Database instance
+ * @param from Billing date, defaults to today
+ * @returns ISO date, or null if the school has no default
+ */
+export async function getDefaultDueDate(db: SQLiteDatabase, from: Date = new Date()): Promise<string | null> {
+  const { defaultDueDays } = await getSchoolSettings(db);
+  if (defaultDueDays == null) {
+    return null;
+  }
+  const dueDate = new Date(from);
+  dueDate.setDate(dueDate.getDate() + defaultDueDays);
+  return dueDate.toISOString().slice(0, 10);
+}
+
+/**
+ * Update the school's settings and apply them
+ * @param db Database instance
+ * @param changes Settings to change; others keep their current values
+ * @returns The updated settings
+ */
+export async function updateSchoolSettings(
+  db: SQLiteDatabase,
+  changes: Partial<Omit<SchoolSettings, 'id' | 'updatedAt'>>
+): Promise<SchoolSettings> {
+  requirePermission('settings.manage');
+
+  try {
+    const before = await getSchoolSettings(db);
+    const { id, updatedAt, ...current } = before;
+    const settings = { ...current, ...changes };
+    validateSchoolSettings(settings);
+    validateCurrencyFormat(settings);
+
+    // Amounts are stored in minor units, so changing how many there are would rescale every one
+    if (settings.decimalPlaces !== before.decimalPlaces && (await hasRecordedAmounts(db))) {
+      throw new Error('Decimal places cannot be changed once bills, payments, flat late fees or fixed discounts have been recorded');
+    }
+    if (settings.currentTermId != null) {
+      const term = await db.getFirstAsync<{ id: number }>('SELECT id FROM terms WHERE id = ?', settings.currentTermId);
+      if (!term) {
+        throw new Error(`Term with ID ${settings.currentTermId} not found`);
+      }
+    }
+
+    const columns = Object.keys(current) as (keyof typeof current)[];
+    await db.runAsync(
+      `INSERT INTO school_settings (id, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')})
+       ON CONFLICT(id) DO UPDATE SET ${columns.map(column => `${column} = excluded.${column}`).join(', ')},
+         updatedAt = CURRENT_TIMESTAMP`,
+      SETTINGS_ID,
+      ...columns.map(column => settings[column])
+    );
+
+    const after = await loadSchoolSettings(db);
+    await recordAudit(db, 'school_settings', SETTINGS_ID, 'update', toAuditSnapshot(before), toAuditSnapshot(after));
+
+    return after;
+  } catch (error) {
+    console.error('Error updating school settings:', error);
+    throw error;
+  }
+}
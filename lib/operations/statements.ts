@@ -0,0 +1,166 @@
+// lib/operations/statements.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import { LateFeeApplication, Payment, queries, StatementEntry, Student, StudentStatement } from '../db/schema';
+import { getInstallmentSchedule } from './installments';
+
+// Row shape returned by queries.getStudentBillsWithDetails (one row per bill item)
+interface StudentBillDetailRow {
+  billId: number;
+  billName: string;
+  totalAmount: number;
+  discount: number | null;
+  status: string;
+  dueDate: string | null;
+  billDate: string;
+  departmentName: string;
+  billItemName: string;
+}
+
+type UnbalancedEntry = Omit<StatementEntry, 'balance'>;
+
+/**
+ * Generate a chronological account statement for a student.
+ * Bills are debits on the date they were issued, less any late fees, which are debits on the date
+ * they were charged, so charging one does not change earlier balances; completed and refunded payments are
+ * credits on their payment date, and refunds are debits on the date they were refunded.
+ * Cancelled bills and voided payments are left out. Bills paid in installments list their plans.
+ * @param db Database instance
+ * @param studentId Student ID
+ * @param range Optional inclusive ISO date range; earlier entries make up the opening balance
+ * @returns Statement with opening balance, entries with running balance and closing balance
+ */
+export async function getStudentStatement(
+  db: SQLiteDatabase,
+  studentId: number,
+  range: { fromDate?: string; toDate?: string } = {}
+): Promise<StudentStatement> {
+  try {
+    const student = await db.getFirstAsync<Student>('SELECT * FROM students WHERE id = ?', studentId);
+    if (!student) {
+      throw new Error(`Student with ID ${studentId} not found`);
+    }
+
+    const billRows = await db.getAllAsync<StudentBillDetailRow>(queries.getStudentBillsWithDetails, studentId);
+    const payments = await db.getAllAsync<Payment>(
+      `SELECT * FROM payments
+       WHERE studentId = ? AND isActive = 1 AND status IN ('completed', 'refunded')`,
+      studentId
+    );
+    const lateFees = await db.getAllAsync<LateFeeApplication>(
+      `SELECT lfa.* FROM late_fee_applications lfa
+       JOIN bills b ON lfa.billId = b.id
+       WHERE b.studentId = ?`,
+      studentId
+    );
+
+    const allEntries: UnbalancedEntry[] = [];
+
+    // One debit per bill; the query returns a row per bill item
+    const billsById = new Map<number, StudentBillDetailRow>();
+    for (const row of billRows) {
+      if (row.status !== 'cancelled' && !billsById.has(row.billId)) {
+        billsById.set(row.billId, row);
+      }
+    }
+    const lateFeeTotals = new Map<number, number>();
+    for (const fee of lateFees) {
+      const bill = billsById.get(fee.billId);
+      if (!bill) continue;
+
+      lateFeeTotals.set(fee.billId, (lateFeeTotals.get(fee.billId) ?? 0) + fee.amount);
+      allEntries.push({
+        date: fee.appliedAt ?? bill.billDate,
+        type: 'late_fee',
+        description: `Late fee - ${bill.billName}`,
+        debit: fee.amount,
+        credit: 0,
+        billId: fee.billId
+      });
+    }
+    for (const bill of billsById.values()) {
+      allEntries.push({
+        date: bill.billDate,
+        type: 'bill',
+        description: `${bill.billName} (${bill.departmentName})`,
+        debit: bill.totalAmount - (bill.discount || 0) - (lateFeeTotals.get(bill.billId) ?? 0),
+        credit: 0,
+        billId: bill.billId
+      });
+    }
+
+    for (const payment of payments) {
+      const billName = billsById.get(payment.billId)?.billName ?? `Bill #${payment.billId}`;
+      allEntries.push({
+        date: payment.paymentDate,
+        type: 'payment',
+        description: `Payment${payment.method ? ` (${payment.method})` : ''} - ${billName}`,
+        reference: payment.reference,
+        debit: 0,
+        credit: payment.amount,
+        billId: payment.billId,
+        paymentId: payment.id
+      });
+
+      if (payment.status === 'refunded') {
+        allEntries.push({
+          date: payment.updatedAt ?? payment.paymentDate,
+          type: 'refund',
+          description: `Refund - ${billName}`,
+          reference: payment.reference,
+          debit: payment.amount,
+          credit: 0,
+          billId: payment.billId,
+          paymentId: payment.id
+        });
+      }
+    }
+
+    // SQLite timestamps use a space where ISO strings use 'T'; normalize so they sort together
+    const sortKey = (entry: UnbalancedEntry) => entry.date.replace(' ', 'T');
+    allEntries.sort((a, b) => sortKey(a).localeCompare(sortKey(b)));
+
+    const dateOf = (entry: UnbalancedEntry) => entry.date.slice(0, 10);
+    let openingBalance = 0;
+    const inRange: UnbalancedEntry[] = [];
+    for (const entry of allEntries) {
+      if (range.fromDate && dateOf(entry) < range.fromDate) {
+        openingBalance += entry.debit - entry.credit;
+      } else if (!range.toDate || dateOf(entry) <= range.toDate) {
+        inRange.push(entry);
+      }
+    }
+
+    let balance = openingBalance;
+    let totalDebits = 0;
+    let totalCredits = 0;
+    const entries: StatementEntry[] = inRange.map(entry => {
+      balance += entry.debit - entry.credit;
+      totalDebits += entry.debit;
+      totalCredits += entry.credit;
+      return { ...entry, balance };
+    });
+
+    const installmentPlans: StudentStatement['installmentPlans'] = [];
+    for (const bill of billsById.values()) {
+      const installments = await getInstallmentSchedule(db, bill.billId);
+      if (installments.length > 0) {
+        installmentPlans.push({ billId: bill.billId, billName: bill.billName, installments });
+      }
+    }
+
+    return {
+      student,
+      installmentPlans,
+      fromDate: range.fromDate,
+      toDate: range.toDate,
+      openingBalance,
+      entries,
+      totalDebits,
+      totalCredits,
+      closingBalance: balance
+    };
+  } catch (error) {
+    console.error(`Error generating statement for student with ID ${studentId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,113 @@
+// lib/operations/student-import.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import { Student, StudentImportRow } from '../db/schema';
+import { beginTransaction } from '../db/transaction';
+import { parseCsv, unescapeCsvCell } from '../documents/csv';
+import { requirePermission } from './auth';
+import { addStudent, validateStudent } from './students';
+
+export const STUDENT_IMPORT_COLUMNS = ['firstname', 'othernames', 'phone', 'address', 'status'] as const;
+
+const STUDENT_STATUSES: NonNullable<Student['status']>[] = ['active', 'inactive', 'graduated', 'suspended'];
+
+const nameKey = (firstname: string, othernames: string) =>
+  `${firstname} ${othernames}`.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const phoneKey = (phone: string) => phone.replace(/[^0-9]/g, '').slice(-9);
+
+/**
+ * Read a student CSV and check every row without saving anything.
+ * The first row must be a header naming the columns firstname, othernames, phone and address,
+ * and optionally status, in any order. Rows are checked with the same rules as the student form,
+ * and flagged as probable duplicates when their name or phone matches an existing student
+ * or an earlier row of the file.
+ * @param db Database instance
+ * @param csvText Contents of the CSV file
+ * @returns One entry per data row
+ */
+export async function previewStudentImport(db: SQLiteDatabase, csvText: string): Promise<StudentImportRow[]> {
+  try {
+    const [header, ...dataRows] = parseCsv(csvText);
+    if (!header) {
+      throw new Error('The file is empty');
+    }
+
+    const columns = header.map(column => column.toLowerCase().replace(/[^a-z]/g, ''));
+    const missing = STUDENT_IMPORT_COLUMNS.filter(column => column !== 'status' && !columns.includes(column));
+    if (missing.length > 0) {
+      throw new Error(`The file is missing the column${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`);
+    }
+    const cell = (values: string[], column: string) => unescapeCsvCell(values[columns.indexOf(column)] ?? '');
+
+    const existing = await db.getAllAsync<Student>('SELECT * FROM students WHERE isActive = 1');
+    const names = new Map<string, string>();
+    const phones = new Map<string, string>();
+    const remember = (student: Student, label: string) => {
+      names.set(nameKey(student.firstname, student.othernames), label);
+      if (phoneKey(student.phone)) {
+        phones.set(phoneKey(student.phone), label);
+      }
+    };
+    for (const student of existing) {
+      remember(student, `${student.firstname} ${student.othernames}`);
+    }
+
+    return dataRows.map((values, index) => {
+      const row = index + 2;
+      const status = cell(values, 'status').toLowerCase();
+      const student: Student = {
+        firstname: cell(values, 'firstname'),
+        othernames: cell(values, 'othernames'),
+        phone: cell(values, 'phone').replace(/[\s-]/g, ''),
+        address: cell(values, 'address'),
+        status: (status || 'active') as Student['status']
+      };
+
+      const errors = Object.values(validateStudent(student));
+      if (!STUDENT_STATUSES.includes(student.status!)) {
+        errors.push(`Status must be one of ${STUDENT_STATUSES.join(', ')}`);
+      }
+
+      const duplicateOf =
+        names.get(nameKey(student.firstname, student.othernames)) ??
+        (phoneKey(student.phone) ? phones.get(phoneKey(student.phone)) : undefined);
+
+      if (errors.length === 0) {
+        remember(student, `row ${row}`);
+      }
+
+      return { row, student, errors, duplicateOf };
+    });
+  } catch (error) {
+    console.error('Error previewing student import:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save imported students in one transaction; if any fails, none are saved.
+ * Each student is recorded in the audit log as it is added.
+ * @param db Database instance
+ * @param students Students to add
+ * @returns The added students with their IDs
+ */
+export async function importStudents(db: SQLiteDatabase, students: Student[]): Promise<Student[]> {
+  requirePermission('students.manage');
+
+  const transaction = await beginTransaction(db);
+
+  try {
+    const added: Student[] = [];
+    for (const student of students) {
+      added.push(await addStudent(db, student));
+    }
+
+    await transaction.commit();
+
+    return added;
+  } catch (error) {
+    await transaction.rollback();
+    console.error('Error importing students:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,39 @@
 // lib/operations/students.ts
 import { SQLiteDatabase } from 'expo-sqlite';
 import { PaginatedResult, PaginationOptions, SearchOptions, Student } from '../db/schema';
+import { getAuditSnapshot, recordAudit } from './audit';
+import { requirePermission } from './auth';
+
+/**
+ * Check a student's details before saving them
+ * @param student Student data
+ * @returns Error message for each invalid field; empty when the student is valid
+ */
+export function validateStudent(
+  student: Pick<Student, 'firstname' | 'othernames' | 'phone' | 'address'>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (!student.firstname.trim()) {
+    errors.firstname = 'First name is required';
+  }
+
+  if (!student.othernames.trim()) {
+    errors.othernames = 'Other names are required';
+  }
+
+  if (!student.phone.trim()) {
+    errors.phone = 'Phone number is required';
+  } else if (!/^\+?[0-9]{10,15}$/.test(student.phone.trim())) {
+    errors.phone = 'Please enter a valid phone number';
+  }
+
+  if (!student.address.trim()) {
+    errors.address = 'Address is required';
+  }
+
+  return errors;
+}
 
 /**
  * Create a new student
@@ -9,6 +42,8 @@ import { PaginatedResult, PaginationOptions, SearchOptions, Student } from '../d
  * @returns Newly created student with ID
  */
 export async function addStudent(db: SQLiteDatabase, student: Student): Promise<Student> {
+  requirePermission('students.manage');
+
   try {
     const result = await db.runAsync(
       'INSERT INTO students (firstname, othernames, phone, address, status) VALUES (?, ?, ?, ?, ?)',
@@ -19,6 +54,9 @@ export async function addStudent(db: SQLiteDatabase, student: Student): Promise<
       student.status || 'active'
     );
 
+    await recordAudit(db, 'students', result.lastInsertRowId, 'create', null,
+      await getAuditSnapshot(db, 'students', result.lastInsertRowId));
+
     return {
       id: result.lastInsertRowId,
       ...student
@@ -67,13 +105,18 @@ export async function getStudentById(db: SQLiteDatabase, id: number): Promise<St
  * @returns Whether the update was successful
  */
 export async function updateStudent(db: SQLiteDatabase, student: Student): Promise<boolean> {
+  requirePermission('students.manage');
+
   try {
     if (!student.id) {
       throw new Error('Student ID is required for update');
     }
 
+    const before = await getAuditSnapshot(db, 'students', student.id);
+
     const result = await db.runAsync(
-      'UPDATE students SET firstname = ?, othernames = ?, phone = ?, address = ?, status = ? WHERE id = ?',
+      `UPDATE students SET firstname = ?, othernames = ?, phone = ?, address = ?, status = ?, updatedAt = CURRENT_TIMESTAMP
+       WHERE id = ?`,
       student.firstname,
       student.othernames,
       student.phone,
@@ -82,6 +125,10 @@ export async function updateStudent(db: SQLiteDatabase, student: Student): Promi
       student.id
     );
 
+    if (result.changes > 0) {
+      await recordAudit(db, 'students', student.id, 'update', before, await getAuditSnapshot(db, 'students', student.id));
+    }
+
     return result.changes > 0;
   } catch (error) {
     console.error('Error updating student:', error);
@@ -97,8 +144,14 @@ export async function updateStudent(db: SQLiteDatabase, student: Student): Promi
  */
 // Soft delete implementation
 export async function deleteStudent(db: SQLiteDatabase, id: number): Promise<boolean> {
+  requirePermission('students.manage');
+
   try {
-    const result = await db.runAsync('UPDATE students SET isActive = 0 WHERE id = ?', id);
+    const before = await getAuditSnapshot(db, 'students', id);
+    const result = await db.runAsync('UPDATE students SET isActive = 0, updatedAt = CURRENT_TIMESTAMP WHERE id = ?', id);
+    if (result.changes > 0) {
+      await recordAudit(db, 'students', id, 'delete', before, await getAuditSnapshot(db, 'students', id));
+    }
     return result.changes > 0;
   } catch (error) {
     console.error(`Error soft-deleting student with ID ${id}:`, error);
@@ -0,0 +1,414 @@
+// lib/operations/terms.ts
+import { SQLiteDatabase } from 'expo-sqlite';
+import {
+  AcademicYear,
+  normalizeAcademicYearName,
+  normalizeTermName,
+  Term,
+  TermWithYear
+} from '../db/schema';
+import { beginTransaction } from '../db/transaction';
+import { getAuditSnapshot, recordAudit } from './audit';
+import { requirePermission } from './auth';
+import { getSchoolSettings } from './settings';
+
+const TERMS_WITH_YEAR_SQL = `
+  SELECT t.*, y.name as academicYearName
+  FROM terms t
+  JOIN academic_years y ON t.academicYearId = y.id
+`;
+
+// Newest year first, then terms in order within each year
+const TERM_ORDER_SQL = `
+  ORDER BY COALESCE(y.startDate, y.name) DESC, t.sequence, t.name
+`;
+
+/**
+ * Check that an optional date range is made of real dates in order
+ */
+function validateDateRange(startDate?: string | null, endDate?: string | null) {
+  for (const date of [startDate, endDate]) {
+    if (date && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date)))) {
+      throw new Error('Dates must be written as YYYY-MM-DD');
+    }
+  }
+  if (startDate && endDate && startDate > endDate) {
+    throw new Error('The start date must be before the end date');
+  }
+}
+
+/**
+ * Copy a term's name and its year's name onto its departments, which show them as labels
+ * Does not open a transaction.
+ */
+async function refreshDepartmentLabels(db: SQLiteDatabase, termIds: number[]) {
+  for (const termId of termIds) {
+    await db.runAsync(
+      `UPDATE departments SET
+         term = (SELECT name FROM terms WHERE id = ?),
+         year = (SELECT y.name FROM terms t JOIN academic_years y ON t.academicYearId = y.id WHERE t.id = ?),
+         updatedAt = CURRENT_TIMESTAMP
+       WHERE termId = ?`,
+      termId,
+      termId,
+      termId
+    );
+  }
+}
+
+/**
+ * Get all academic years, newest first
+ * @param db Database instance
+ * @returns Array of academic years
+ */
+export async function getAcademicYears(db: SQLiteDatabase): Promise<AcademicYear[]> {
+  try {
+    return await db.getAllAsync<AcademicYear>(
+      'SELECT * FROM academic_years ORDER BY COALESCE(startDate, name) DESC'
+    );
+  } catch (error) {
+    console.error('Error getting academic years:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create an academic year
+ * @param db Database instance
+ * @param year The year, e.g. 2025/2026; the name is written the standard way
+ * @returns Created academic year with ID
+ */
+export async function addAcademicYear(db: SQLiteDatabase, year: AcademicYear): Promise<AcademicYear> {
+  requirePermission('departments.manage');
+
+  try {
+    const name = normalizeAcademicYearName(year.name);
+    if (!name) {
+      throw new Error('Academic year name is required');
+    }
+    validateDateRange(year.startDate, year.endDate);
+
+    const existing = await db.getFirstAsync<{ id: number }>('SELECT id FROM academic_years WHERE name = ?', name);
+    if (existing) {
+      throw new Error(`The academic year ${name} already exists`);
+    }
+
+    const result = await db.runAsync(
+      'INSERT INTO academic_years (name, startDate, endDate) VALUES (?, ?, ?)',
+      name,
+      year.startDate || null,
+      year.endDate || null
+    );
+    await recordAudit(db, 'academic_years', result.lastInsertRowId, 'create', null,
+      await getAuditSnapshot(db, 'academic_years', result.lastInsertRowId));
+
+    return { ...year, id: result.lastInsertRowId, name };
+  } catch (error) {
+    console.error('Error adding academic year:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update an academic year, relabelling the departments in its terms
+ * @param db Database instance
+ * @param year The academic year with its ID
+ * @returns Whether the update was successful
+ */
+export async function updateAcademicYear(db: SQLiteDatabase, year: AcademicYear): Promise<boolean> {
+  requirePermission('departments.manage');
+
+  if (!year.id) {
+    throw new Error('Academic year ID is required for update');
+  }
+
+  const transaction = await beginTransaction(db);
+
+  try {
+    const name = normalizeAcademicYearName(year.name);
+    if (!name) {
+      throw new Error('Academic year name is required');
+    }
+    validateDateRange(year.startDate, year.endDate);
+
+    const existing = await db.getFirstAsync<{ id: number }>(
+      'SELECT id FROM academic_years WHERE name = ? AND id != ?',
+      name,
+      year.id
+    );
+    if (existing) {
+      throw new Error(`The academic year ${name} already exists`);
+    }
+
+    const before = await getAuditSnapshot(db, 'academic_years', year.id);
+    const result = await db.runAsync(
+      'UPDATE academic_years SET name = ?, startDate = ?, endDate = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?',
+      name,
+      year.startDate || null,
+      year.endDate || null,
+      year.id
+    );
+    await recordAudit(db, 'academic_years', year.id, 'update', before,
+      await getAuditSnapshot(db, 'academic_years', year.id));
+
+    const terms = await db.getAllAsync<{ id: number }>('SELECT id FROM terms WHERE academicYearId = ?', year.id);
+    await refreshDepartmentLabels(db, terms.map(term => term.id));
+
+    await transaction.commit();
+    return result.changes > 0;
+  } catch (error) {
+    await transaction.rollback();
+    console.error(`Error updating academic year with ID ${year.id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete an academic year that has no terms
+ * @param db Database instance
+ * @param id Academic year ID
+ * @returns Whether the year was deleted
+ */
+export async function deleteAcademicYear(db: SQLiteDatabase, id: number): Promise<boolean> {
+  requirePermission('departments.manage');
+
+  try {
+    const terms = await db.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) as count FROM terms WHERE academicYearId = ?',
+      id
+    );
+    if (terms && terms.count > 0) {
+      throw new Error('Delete the terms in this academic year first');
+    }
+
+    const before = await getAuditSnapshot(db, 'academic_years', id);
+    const result = await db.runAsync('DELETE FROM academic_years WHERE id = ?', id);
+    if (result.changes > 0) {
+      await recordAudit(db, 'academic_years', id, 'delete', before);
+    }
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error deleting academic year with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get all terms with their academic year, newest year first
+ * @param db Database instance
+ * @returns Array of terms
+ */
+export async function getTerms(db: SQLiteDatabase): Promise<TermWithYear[]> {
+  try {
+    return await db.getAllAsync<TermWithYear>(`${TERMS_WITH_YEAR_SQL} ${TERM_ORDER_SQL}`);
+  } catch (error) {
+    console.error('Error getting terms:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a term by ID
+ * @param db Database instance
+ * @param id Term ID
+ * @returns Term with its academic year, or null if not found
+ */
+export async function getTermById(db: SQLiteDatabase, id: number): Promise<TermWithYear | null> {
+  try {
+    return await db.getFirstAsync<TermWithYear>(`${TERMS_WITH_YEAR_SQL} WHERE t.id = ?`, id);
+  } catch (error) {
+    console.error(`Error getting term with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get the term after a term: the next one in its year, otherwise the first of the following year
+ * @param db Database instance
+ * @param termId Term ID
+ * @returns The next term, or null if none has been set up yet
+ */
+export async function getNextTerm(db: SQLiteDatabase, termId: number): Promise<TermWithYear | null> {
+  try {
+    const terms = await db.getAllAsync<TermWithYear>(
+      `${TERMS_WITH_YEAR_SQL} ORDER BY COALESCE(y.startDate, y.name), t.sequence, t.name`
+    );
+    const index = terms.findIndex(term => term.id === termId);
+    return index >= 0 ? terms[index + 1] ?? null : null;
+  } catch (error) {
+    console.error(`Error getting the term after term with ID ${termId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Check a term before saving it, returning its name written the standard way
+ */
+async function validateTerm(db: SQLiteDatabase, term: Term): Promise<string> {
+  const name = normalizeTermName(term.name);
+  if (!name) {
+    throw new Error('Term name is required');
+  }
+  if (!Number.isInteger(term.sequence) || term.sequence < 1) {
+    throw new Error('Term order must be a whole number from 1');
+  }
+  validateDateRange(term.startDate, term.endDate);
+
+  const year = await db.getFirstAsync<{ id: number }>('SELECT id FROM academic_years WHERE id = ?', term.academicYearId);
+  if (!year) {
+    throw new Error(`Academic year with ID ${term.academicYearId} not found`);
+  }
+
+  const existing = await db.getFirstAsync<{ id: number }>(
+    'SELECT id FROM terms WHERE academicYearId = ? AND name = ? AND id != ?',
+    term.academicYearId,
+    name,
+    term.id ?? 0
+  );
+  if (existing) {
+    throw new Error(`${name} already exists in this academic year`);
+  }
+
+  return name;
+}
+
+/**
+ * Create a term in an academic year
+ * @param db Database instance
+ * @param term The term; names like "term one" are written as "Term 1"
+ * @returns Created term with ID
+ */
+export async function addTerm(db: SQLiteDatabase, term: Term): Promise<Term> {
+  requirePermission('departments.manage');
+
+  try {
+    const name = await validateTerm(db, term);
+
+    const result = await db.runAsync(
+      'INSERT INTO terms (academicYearId, name, sequence, startDate, endDate) VALUES (?, ?, ?, ?, ?)',
+      term.academicYearId,
+      name,
+      term.sequence,
+      term.startDate || null,
+      term.endDate || null
+    );
+    await recordAudit(db, 'terms', result.lastInsertRowId, 'create', null,
+      await getAuditSnapshot(db, 'terms', result.lastInsertRowId));
+
+    return { ...term, id: result.lastInsertRowId, name };
+  } catch (error) {
+    console.error('Error adding term:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a term, relabelling its departments
+ * @param db Database instance
+ * @param term The term with its ID
+ * @returns Whether the update was successful
+ */
+export async function updateTerm(db: SQLiteDatabase, term: Term): Promise<boolean> {
+  requirePermission('departments.manage');
+
+  if (!term.id) {
+    throw new Error('Term ID is required for update');
+  }
+
+  const transaction = await beginTransaction(db);
+
+  try {
+    const name = await validateTerm(db, term);
+
+    const before = await getAuditSnapshot(db, 'terms', term.id);
+    const result = await db.runAsync(
+      `UPDATE terms SET academicYearId = ?, name = ?, sequence = ?, startDate = ?, endDate = ?, updatedAt = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      term.academicYearId,
+      name,
+      term.sequence,
+      term.startDate || null,
+      term.endDate || null,
+      term.id
+    );
+    await recordAudit(db, 'terms', term.id, 'update', before, await getAuditSnapshot(db, 'terms', term.id));
+    await refreshDepartmentLabels(db, [term.id]);
+
+    await transaction.commit();
+    return result.changes > 0;
+  } catch (error) {
+    await transaction.rollback();
+    console.error(`Error updating term with ID ${term.id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a term that no department runs in
+ * @param db Database instance
+ * @param id Term ID
+ * @returns Whether the term was deleted
+ */
+export async function deleteTerm(db: SQLiteDatabase, id: number): Promise<boolean> {
+  requirePermission('departments.manage');
+
+  try {
+    const departments = await db.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) as count FROM departments WHERE termId = ?',
+      id
+    );
+    if (departments && departments.count > 0) {
+      throw new Error('This term has departments; move or delete them first');
+    }
+    const { currentTermId } = await getSchoolSettings(db);
+    if (currentTermId === id) {
+      throw new Error('This term is set as the current term in Settings');
+    }
+
+    const before = await getAuditSnapshot(db, 'terms', id);
+    const result = await db.runAsync('DELETE FROM terms WHERE id = ?', id);
+    if (result.changes > 0) {
+      await recordAudit(db, 'terms', id, 'delete', before);
+    }
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error deleting term with ID ${id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Work out the current term: the one set in the settings, otherwise the term running today,
+ * otherwise the most recent term to have started
+ * @param db Database instance
+ * @param today ISO date, defaults to today
+ * @returns The current term, or null if there are no terms
+ */
+export async function getCurrentTerm(db: SQLiteDatabase, today?: string): Promise<TermWithYear | null> {
+  const date = (today ?? new Date().toISOString()).slice(0, 10);
+
+  try {
+    const { currentTermId } = await getSchoolSettings(db);
+    if (currentTermId) {
+      const pinned = await getTermById(db, currentTermId);
+      if (pinned) {
+        return pinned;
+      }
+    }
+
+    return await db.getFirstAsync<TermWithYear>(
+      `${TERMS_WITH_YEAR_SQL}
+       ORDER BY
+         (t.startDate <= ? AND (t.endDate IS NULL OR t.endDate >= ?)) DESC,
+         (t.startDate <= ?) DESC,
+         COALESCE(t.startDate, y.startDate, y.name) DESC,
+         t.sequence DESC`,
+      date,
+      date,
+      date
+    );
+  } catch (error) {
+    console.error('Error getting current term:', error);
+    throw error;
+  }
+}
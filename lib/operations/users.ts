@@ -0,0 +1,300 @@
+// lib/operations/users.ts
+import * as Crypto from 'expo-crypto';
+import { SQLiteDatabase } from 'expo-sqlite';
+import { User, UserRole } from '../db/schema';
+import { recordAudit } from './audit';
+import { requirePermission } from './auth';
+
+// users row, including the password hash
+type UserRow = User & { passwordHash: string };
+
+// Hash rounds for new passwords; stored with each hash so it can be raised later
+const HASH_ITERATIONS = 1000;
+
+const MIN_PASSWORD_LENGTH = 4;
+
+// Wrong passwords in a row before an account is locked, and for how long, so PINs cannot be guessed by trying them all
+const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 5;
+
+const USER_ROLES: UserRole[] = ['admin', 'bursar', 'cashier', 'viewer'];
+
+/**
+ * Drop the password hash from a users row
+ */
+function toUser({ passwordHash, ...user }: UserRow): User {
+  return user;
+}
+
+/**
+ * Hash a password with a salt, repeating SHA-256 to slow down guessing
+ */
+async function derivePasswordHash(password: string, salt: string, iterations: number): Promise<string> {
+  let hash = `${salt}:${password}`;
+  for (let i = 0; i < iterations; i++) {
+    hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${hash}`);
+  }
+  return hash;
+}
+
+/**
+ * Hash a new password, returning a self-describing string: sha256:<iterations>:<salt>:<hash>
+ */
+async function hashPassword(password: string): Promise<string> {
+  const salt = Array.from(Crypto.getRandomBytes(16), byte => byte.toString(16).padStart(2, '0')).join('');
+  const hash = await derivePasswordHash(password, salt, HASH_ITERATIONS);
+  return `sha256:${HASH_ITERATIONS}:${salt}:${hash}`;
+}
+
+/**
+ * Check a password against a stored hash
+ */
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, iterations, salt, hash] = stored.split(':');
+  if (algorithm !== 'sha256' || !salt || !hash) {
+    return false;
+  }
+  return (await derivePasswordHash(password, salt, Number(iterations))) === hash;
+}
+
+/**
+ * Check a user's details before saving them
+ */
+function validateUser(user: User, password?: string) {
+  if (!/^[a-zA-Z0-9._-]{3,}$/.test(user.username.trim())) {
+    throw new Error('Username must be at least 3 letters, numbers, dots, dashes or underscores');
+  }
+  if (!user.displayName.trim()) {
+    throw new Error('Name is required');
+  }
+  if (!USER_ROLES.includes(user.role)) {
+    throw new Error(`Role must be one of ${USER_ROLES.join(', ')}`);
+  }
+  if (password !== undefined && password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password or PIN must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+/**
+ * Make sure a change leaves at least one active administrator
+ */
+async function ensureAnotherAdmin(db: SQLiteDatabase, userId: number) {
+  const admins = await db.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM users WHERE role = 'admin' AND isActive = 1 AND id != ?`,
+    userId
+  );
+  if (!admins || admins.count === 0) {
+    throw new Error('There must always be at least one active administrator');
+  }
+}
+
+/**
+ * Check whether any user accounts exist yet, i.e. whether the app still needs setting up
+ * @param db Database instance
+ */
+export async function hasUsers(db: SQLiteDatabase): Promise<boolean> {
+  try {
+    const row = await db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM users');
+    return (row?.count ?? 0) > 0;
+  } catch (error) {
+    console.error('Error checking for users:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create the first administrator when the app is set up. Only allowed while no users exist.
+ * @param db Database instance
+ * @param user The administrator's details
+ * @param password Password or PIN
+ * @returns Created user with ID
+ */
+export async function createFirstAdmin(
+  db: SQLiteDatabase,
+  user: Omit<User, 'role'>,
+  password: string
+): Promise<User> {
+  try {
+    if (await hasUsers(db)) {
+      throw new Error('The app has already been set up; ask an administrator for an account');
+    }
+    return await insertUser(db, { ...user, role: 'admin' }, password);
+  } catch (error) {
+    console.error('Error creating first administrator:', error);
+    throw error;
+  }
+}
+
+/**
+ * Insert a user after validation, without a permission check
+ */
+async function insertUser(db: SQLiteDatabase, user: User, password: string): Promise<User> {
+  validateUser(user, password);
+
+  const result = await db.runAsync(
+    'INSERT INTO users (username, displayName, role, passwordHash) VALUES (?, ?, ?, ?)',
+    user.username.trim(),
+    user.displayName.trim(),
+    user.role,
+    await hashPassword(password)
+  );
+
+  const created: User = {
+    id: result.lastInsertRowId,
+    username: user.username.trim(),
+    displayName: user.displayName.trim(),
+    role: user.role,
+    isActive: true
+  };
+  await recordAudit(db, 'users', created.id!, 'create', null, created);
+
+  return created;
+}
+
+/**
+ * Create a user account
+ * @param db Database instance
+ * @param user The user's details
+ * @param password Password or PIN
+ * @returns Created user with ID
+ */
+export async function createUser(db: SQLiteDatabase, user: User, password: string): Promise<User> {
+  requirePermission('users.manage');
+
+  try {
+    const existing = await db.getFirstAsync<{ id: number }>(
+      'SELECT id FROM users WHERE username = ?',
+      user.username.trim()
+    );
+    if (existing) {
+      throw new Error(`The username ${user.username.trim()} is already taken`);
+    }
+
+    return await insertUser(db, user, password);
+  } catch (error) {
+    console.error('Error creating user:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a user's name, role and active state, and optionally reset their password
+ * @param db Database instance
+ * @param user The user with their ID
+ * @param password New password or PIN; omit to keep the current one
+ * @returns Whether the update was successful
+ */
+export async function updateUser(db: SQLiteDatabase, user: User, password?: string): Promise<boolean> {
+  requirePermission('users.manage');
+
+  try {
+    if (!user.id) {
+      throw new Error('User ID is required for update');
+    }
+    validateUser(user, password || undefined);
+
+    const before = await db.getFirstAsync<UserRow>('SELECT * FROM users WHERE id = ?', user.id);
+    if (!before) {
+      throw new Error(`User with ID ${user.id} not found`);
+    }
+    const isActive = user.isActive ?? true;
+    if (before.role === 'admin' && (user.role !== 'admin' || !isActive)) {
+      await ensureAnotherAdmin(db, user.id);
+    }
+
+    const result = await db.runAsync(
+      `UPDATE users SET displayName = ?, role = ?, isActive = ?, updatedAt = CURRENT_TIMESTAMP WHERE id = ?`,
+      user.displayName.trim(),
+      user.role,
+      isActive ? 1 : 0,
+      user.id
+    );
+    if (password) {
+      // A new password also lifts any lockout
+      await db.runAsync(
+        'UPDATE users SET passwordHash = ?, failedLoginAttempts = 0, lockedUntil = NULL WHERE id = ?',
+        await hashPassword(password),
+        user.id
+      );
+    }
+
+    const after = await db.getFirstAsync<UserRow>('SELECT * FROM users WHERE id = ?', user.id);
+    await recordAudit(
+      db,
+      'users',
+      user.id,
+      'update',
+      toUser(before),
+      after && { ...toUser(after), ...(password ? { passwordReset: true } : {}) }
+    );
+
+    return result.changes > 0;
+  } catch (error) {
+    console.error(`Error updating user with ID ${user.id}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get all user accounts
+ * @param db Database instance
+ * @returns Array of users, without password hashes
+ */
+export async function getUsers(db: SQLiteDatabase): Promise<User[]> {
+  try {
+    const rows = await db.getAllAsync<UserRow>('SELECT * FROM users ORDER BY isActive DESC, displayName');
+    return rows.map(toUser);
+  } catch (error) {
+    console.error('Error getting users:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check a username and password. After MAX_FAILED_LOGIN_ATTEMPTS wrong passwords in a row
+ * the account is locked for LOCKOUT_MINUTES, even against the right password.
+ * @param db Database instance
+ * @param username Username, in any case
+ * @param password Password or PIN
+ * @returns The user if the details match an active account, otherwise null
+ */
+export async function authenticateUser(db: SQLiteDatabase, username: string, password: string): Promise<User | null> {
+  try {
+    const row = await db.getFirstAsync<UserRow>(
+      'SELECT * FROM users WHERE username = ? AND isActive = 1',
+      username.trim()
+    );
+    if (!row) {
+      return null;
+    }
+
+    const lockedFor = row.lockedUntil ? Date.parse(row.lockedUntil) - Date.now() : 0;
+    if (lockedFor > 0) {
+      const minutes = Math.ceil(lockedFor / 60000);
+      throw new Error(`Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+    }
+
+    if (!(await verifyPassword(password, row.passwordHash))) {
+      const attempts = (row.failedLoginAttempts ?? 0) + 1;
+      if (attempts >= MAX_FAILED_LOGIN_ATTEMPTS) {
+        await db.runAsync(
+          'UPDATE users SET failedLoginAttempts = 0, lockedUntil = ? WHERE id = ?',
+          new Date(Date.now() + LOCKOUT_MINUTES * 60000).toISOString(),
+          row.id!
+        );
+        throw new Error(`Too many failed attempts. Try again in ${LOCKOUT_MINUTES} minutes.`);
+      }
+      await db.runAsync('UPDATE users SET failedLoginAttempts = ? WHERE id = ?', attempts, row.id!);
+      return null;
+    }
+
+    await db.runAsync(
+      'UPDATE users SET lastLoginAt = CURRENT_TIMESTAMP, failedLoginAttempts = 0, lockedUntil = NULL WHERE id = ?',
+      row.id!
+    );
+    return toUser(row);
+  } catch (error) {
+    console.error('Error signing in:', error);
+    throw error;
+  }
+}
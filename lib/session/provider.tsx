@@ -0,0 +1,62 @@
+// lib/session/provider.tsx
+import { useSQLiteContext } from 'expo-sqlite';
+import React, { createContext, useCallback, useContext, useState } from 'react';
+import { User } from '../db/schema';
+import { setAuditActor } from '../operations/audit';
+import { setCurrentUser } from '../operations/auth';
+import { authenticateUser } from '../operations/users';
+
+interface SessionContextValue {
+  user: User | null;
+  signIn: (username: string, password: string) => Promise<User>;
+  signOut: () => void;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+interface SessionProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Session provider component for the application
+ * Keeps track of the signed-in user; operations check their role and the audit log records their username
+ */
+export function SessionProvider({ children }: SessionProviderProps) {
+  const db = useSQLiteContext();
+  const [user, setUser] = useState<User | null>(null);
+
+  const startSession = useCallback((next: User | null) => {
+    setCurrentUser(next);
+    setAuditActor(next?.username);
+    setUser(next);
+  }, []);
+
+  const signIn = useCallback(async (username: string, password: string) => {
+    const signedIn = await authenticateUser(db, username, password);
+    if (!signedIn) {
+      throw new Error('Incorrect username or password');
+    }
+    startSession(signedIn);
+    return signedIn;
+  }, [db, startSession]);
+
+  const signOut = useCallback(() => startSession(null), [startSession]);
+
+  return (
+    <SessionContext.Provider value={{ user, signIn, signOut }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+/**
+ * Get the signed-in user and the sign in and sign out actions
+ */
+export function useSession(): SessionContextValue {
+  const session = useContext(SessionContext);
+  if (!session) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return session;
+}
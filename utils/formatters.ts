@@ -1,4 +1,108 @@
-export const formatCurrency = (amount: number): string => {
-    return `GH₵${amount.toFixed(2)}`;
+import { Money, setMoneyFormat } from './money';
+
+// How the school's currency is written, from its settings
+export interface CurrencyFormat {
+    currencyCode: string; // ISO 4217, e.g. GHS
+    currencySymbol: string; // e.g. GH₵
+    symbolPosition: 'before' | 'after';
+    thousandsSeparator: string; // May be empty for no grouping
+    decimalSeparator: string;
+    decimalPlaces: number; // 0 for currencies without minor units, e.g. XOF
+    currencyName: string; // For amounts in words, e.g. Ghana cedi
+    currencyNamePlural: string;
+    minorUnitName: string; // e.g. pesewa; empty when there are no minor units
+    minorUnitNamePlural: string;
+  }
+
+export const DEFAULT_CURRENCY_FORMAT: CurrencyFormat = {
+    currencyCode: 'GHS',
+    currencySymbol: 'GH₵',
+    symbolPosition: 'before',
+    thousandsSeparator: ',',
+    decimalSeparator: '.',
+    decimalPlaces: 2,
+    currencyName: 'Ghana cedi',
+    currencyNamePlural: 'Ghana cedis',
+    minorUnitName: 'pesewa',
+    minorUnitNamePlural: 'pesewas'
+  };
+
+let currencyFormat = DEFAULT_CURRENCY_FORMAT;
+
+// Format amounts in the school's currency from now on, e.g. after loading its settings
+export const setCurrencyFormat = (format: CurrencyFormat): void => {
+    currencyFormat = format;
+    setMoneyFormat(format);
+  };
+
+export const getCurrencyFormat = (): CurrencyFormat => currencyFormat;
+
+// e.g. 12505000 -> "125,050.00"; grouping uses the configured thousands separator
+export const formatAmount = (amount: Money, format: CurrencyFormat = currencyFormat): string => {
+    const [whole, fraction] = (Math.abs(amount) / 10 ** format.decimalPlaces).toFixed(format.decimalPlaces).split('.');
+    const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, format.thousandsSeparator);
+    return (amount < 0 ? '-' : '') + grouped + (fraction ? format.decimalSeparator + fraction : '');
+  };
+
+// e.g. 125050 -> "GH₵1,250.50", or 125050 -> "125 050 F CFA" for XOF
+export const formatCurrency = (amount: Money, format: CurrencyFormat = currencyFormat): string => {
+    const formatted = formatAmount(Math.abs(amount), format);
+    const sign = amount < 0 ? '-' : '';
+    return format.symbolPosition === 'before'
+      ? `${sign}${format.currencySymbol}${formatted}`
+      : `${sign}${formatted} ${format.currencySymbol}`;
+  };
+
+const ONES = [
+    '', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+    'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'
+  ];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+// Enough for every safe integer, which stops short of a quintillion
+const SCALES = ['', 'thousand', 'million', 'billion', 'trillion', 'quadrillion'];
+
+// Words for 0-999
+const hundredsToWords = (n: number): string => {
+    const words: string[] = [];
+    if (n >= 100) {
+      words.push(`${ONES[Math.floor(n / 100)]} hundred`);
+      n %= 100;
+      if (n) words.push('and');
+    }
+    if (n >= 20) {
+      words.push(TENS[Math.floor(n / 10)] + (n % 10 ? `-${ONES[n % 10]}` : ''));
+    } else if (n) {
+      words.push(ONES[n]);
+    }
+    return words.join(' ');
+  };
+
+export const numberToWords = (n: number): string => {
+    n = Math.floor(Math.abs(n));
+    if (n === 0) return 'zero';
+    // Past the safe integers the groups are no longer exact, so give the digits instead
+    if (!Number.isSafeInteger(n)) return n.toFixed(0);
+
+    const groups: string[] = [];
+    for (let scale = 0; n > 0; scale++, n = Math.floor(n / 1000)) {
+      const group = n % 1000;
+      if (group) {
+        groups.unshift(hundredsToWords(group) + (SCALES[scale] ? ` ${SCALES[scale]}` : ''));
+      }
+    }
+    return groups.join(' ');
+  };
+
+// e.g. 125050 -> "One thousand two hundred and fifty Ghana cedis and fifty pesewas"
+export const amountToWords = (amount: Money, format: CurrencyFormat = currencyFormat): string => {
+    const minorUnits = 10 ** format.decimalPlaces;
+    const total = Math.abs(amount);
+    const major = Math.floor(total / minorUnits);
+    const minor = total % minorUnits;
+
+    let words = `${numberToWords(major)} ${major === 1 ? format.currencyName : format.currencyNamePlural}`;
+    if (minor && format.minorUnitName) {
+      words += ` and ${numberToWords(minor)} ${minor === 1 ? format.minorUnitName : format.minorUnitNamePlural}`;
+    }
+    return words.charAt(0).toUpperCase() + words.slice(1);
   };
-  
\ No newline at end of file
@@ -0,0 +1,88 @@
+// utils/money.ts
+
+/**
+ * An amount of money in minor units of the school's currency (pesewas for the cedi),
+ * always a whole number. Amounts are stored and calculated in minor units so totals and
+ * balances are exact; convert to major units only to read what the user typed or to display.
+ */
+export type Money = number;
+
+// How amounts are written in major units; set from the school's currency settings
+let decimalPlaces = 2;
+let decimalSeparator = '.';
+
+/**
+ * Set how amounts are typed and shown in major units
+ * @param format.decimalPlaces Digits after the decimal separator; 0 for currencies without minor units
+ * @param format.decimalSeparator Character between the major and minor units
+ */
+export const setMoneyFormat = (format: { decimalPlaces: number; decimalSeparator: string }): void => {
+    decimalPlaces = format.decimalPlaces;
+    decimalSeparator = format.decimalSeparator;
+  };
+
+// Digits after the decimal separator, e.g. 2 for the cedi and 0 for the CFA franc
+export const getMoneyDecimals = (): number => decimalPlaces;
+
+// Minor units per major unit, e.g. 100 pesewas to the cedi
+export const getMinorUnits = (): number => 10 ** decimalPlaces;
+
+// Round to a whole number of minor units, halves away from zero
+export const roundMoney = (value: number): Money => {
+    const rounded = Math.sign(value) * Math.round(Math.abs(value));
+    return rounded === 0 ? 0 : rounded;
+  };
+
+export const isMoney = (value: unknown): value is Money => Number.isSafeInteger(value);
+
+// e.g. 12.5 -> 1250
+export const toMinorUnits = (major: number): Money => roundMoney(major * getMinorUnits());
+
+// e.g. 1250 -> 12.5
+export const toMajorUnits = (amount: Money): number => amount / getMinorUnits();
+
+// e.g. 1250 -> "12.50", for prefilling amount inputs
+export const formatMoneyInput = (amount: Money): string =>
+    toMajorUnits(amount).toFixed(decimalPlaces).replace('.', decimalSeparator);
+
+// e.g. "1,250.505" -> 125051; null if the text is not an amount
+export const parseMoney = (text: string): Money | null => {
+    // Anything but digits, a sign and the decimal separator is taken as digit grouping
+    const normalized = text
+      .split(decimalSeparator)
+      .map(part => part.replace(/[^\d-]/g, ''))
+      .join('.');
+    const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(normalized);
+    if (!match || (!match[2] && !match[3])) return null;
+
+    // Work on the digits rather than a float so "0.285" is 29, not 28
+    const [, sign, whole, fraction = ''] = match;
+    let minor = Number(whole || '0') * getMinorUnits() + Number(fraction.padEnd(decimalPlaces, '0').slice(0, decimalPlaces) || '0');
+    if (Number(fraction.charAt(decimalPlaces)) >= 5) minor += 1;
+
+    return sign && minor ? -minor : minor;
+  };
+
+export const sumMoney = (amounts: Money[]): Money => amounts.reduce((sum, amount) => sum + amount, 0);
+
+// e.g. an amount times a quantity or a rate
+export const multiplyMoney = (amount: Money, factor: number): Money => roundMoney(amount * factor);
+
+// e.g. percentageOf(1999, 10) -> 200
+export const percentageOf = (amount: Money, percent: number): Money => roundMoney((amount * percent) / 100);
+
+// Split an amount into equal parts, putting the rounding remainder on the last part
+export const splitMoney = (amount: Money, parts: number): Money[] => {
+    const share = Math.trunc(amount / parts);
+    return Array.from({ length: parts }, (_, index) => (index === parts - 1 ? amount - share * (parts - 1) : share));
+  };
+
+// Fill each target in order until the amount runs out, e.g. a payment across bills oldest first
+export const allocateMoney = (amount: Money, targets: Money[]): Money[] => {
+    let remaining = Math.max(amount, 0);
+    return targets.map(target => {
+      const share = Math.min(Math.max(target, 0), remaining);
+      remaining -= share;
+      return share;
+    });
+  };